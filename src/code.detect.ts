@@ -1,3 +1,5 @@
+import { isFenceInfo, parseFenceInfo } from './utils/fenceInfo'
+
 /**
  * @module detect
  * (Language detector)
@@ -12,21 +14,38 @@ export type CodeLanguage
     | 'http'
     | 'js'
     | 'ts'
+    | 'jsx'
+    | 'tsx'
+    | 'vue'
+    | 'svelte'
     | 'py'
+    | 'rb'
+    | 'php'
     | 'sql'
     | 'pl'
     | 'lua'
     | 'make'
+    | 'cmake'
     | 'uri'
     | 'css'
     | 'diff'
     | 'md'
     | 'docker'
+    | 'nginx'
     | 'xml'
     | 'c'
+    | 'cpp'
+    | 'objc'
+    | 'cs'
     | 'rs'
     | 'go'
     | 'java'
+    | 'kt'
+    | 'scala'
+    | 'swift'
+    | 'dart'
+    | 'erl'
+    | 'ps1'
     | 'asm'
     | 'json'
     | 'yaml'
@@ -44,53 +63,174 @@ export type LanguageFeature = [RegExp, number]
  */
 export type LanguageDefinition = [CodeLanguage, ...LanguageFeature[]]
 
+const jsKeywords: LanguageFeature = [
+  /\b(console|await|async|function|export|import|this|class|for|let|const|map|join|require)\b/g,
+  10,
+]
+const tsOnly: LanguageFeature[] = [
+  [/\b(?:interface|implements|namespace|declare|readonly|keyof)\b/g, 30],
+  [/:\s*(?:string|number|boolean|any|void|unknown|never)\b/g, 30],
+  [/\btype \w+(?:<[^>\n]*>)? = /g, 30],
+]
+const jsxElements: LanguageFeature = [/(?:^|[\s(>{])<[A-Z]\w*[\s/>]|\breturn \(\s*<|<\/[A-Z]\w*>|\bclassName=/g, 40]
+
 /**
  * Language detection definitions
+ *
+ * On equal scores the language listed first wins, so the more general
+ * language of a family (js before ts, c before cpp) comes first.
  */
 export const languages: LanguageDefinition[] = [
   [
     'bash',
-    [/#!(\/usr)?\/bin\/bash/g, 500],
+    [/#!(\/usr)?\/bin\/(env )?(bash|sh|zsh)\b/g, 500],
     [/\b(if|elif|then|fi|echo)\b|\$/g, 10],
+    [/^\s*(?:export \w+=|sudo |apt(?:-get)? |npm |pnpm |yarn |cd |mkdir |chmod )/gm, 40],
+    [/\b(?:esac|done)\b/g, 30],
+  ],
+  ['html', [/<\/?[a-z-][^\n>]*>/g, 10], [/^\s*<!DOCTYPE\s+html/gim, 500], [/<(?:html|head|body|div|span|ul|li|meta|link)\b/g, 15]],
+  [
+    'vue',
+    [/^<template\b/gm, 200],
+    [/<script [^>\n]*setup/g, 200],
+    [/\sv-(?:if|else|for|model|bind|on|show|slot)\b|\s[:@][a-z][\w-]*="/g, 30],
+    [/\b(?:defineComponent|defineProps|defineEmits)\b/g, 100],
+  ],
+  [
+    'svelte',
+    [/\{#(?:if|each|await)\b|\{\/(?:if|each|await)\}|\{:else\b/g, 150],
+    [/\s(?:on|bind):[a-z]+[=|]/g, 60],
+    [/^\s*\$: /gm, 100],
   ],
-  ['html', [/<\/?[a-z-][^\n>]*>/g, 10], [/^\s+<!DOCTYPE\s+html/g, 500]],
   ['http', [/^(GET|HEAD|POST|PUT|DELETE|PATCH|HTTP)\b/g, 500]],
+  ['js', jsKeywords, [/=>|\bmodule\.exports\b/g, 10]],
+  ['ts', jsKeywords, [/=>|\bmodule\.exports\b/g, 10], ...tsOnly],
+  ['jsx', jsKeywords, [/=>|\bmodule\.exports\b/g, 10], jsxElements],
+  ['tsx', jsKeywords, [/=>|\bmodule\.exports\b/g, 10], ...tsOnly, jsxElements],
   [
-    'js',
-    [
-      /\b(console|await|async|function|export|import|this|class|for|let|const|map|join|require)\b/g,
-      10,
-    ],
+    'py',
+    [/\b(def|print|class|and|or|lambda)\b/g, 10],
+    [/^\s*def \w+\([^)\n]*\)(?: -> [^:\n]+)?:/gm, 80],
+    [/^\s*(?:elif |except\b|from [\w.]+ import |if __name__)/gm, 60],
+    [/\b(?:self|None|True|False)\b/g, 10],
   ],
   [
-    'ts',
-    [
-      /\b(console|await|async|function|export|import|this|class|for|let|const|map|join|require|implements|interface|namespace)\b/g,
-      10,
-    ],
+    'rb',
+    [/^\s*def \w+[?!]?(?:\([^)\n]*\))?$/gm, 60],
+    [/^\s*end$/gm, 30],
+    [/\b(?:puts|attr_(?:accessor|reader|writer)|elsif|unless)\b/g, 40],
+    [/\bdo \|[^|\n]*\|/g, 40],
+  ],
+  [
+    'php',
+    [/<\?php/g, 500],
+    [/\$this->/g, 100],
+    [/\bpublic function\b|\bnamespace [A-Z][\w\\]*;|^use [A-Z][\w\\]*;/gm, 100],
+    [/\$\w+\s*=|\becho\b/g, 10],
+  ],
+  ['sql', [/\b(SELECT|INSERT|FROM)\b/g, 50], [/\b(?:WHERE|JOIN|VALUES|CREATE TABLE|UPDATE|DELETE)\b/g, 40]],
+  ['pl', [/#!(\/usr)?\/bin\/perl/g, 500], [/\b(use|print)\b|\$/g, 10], [/\bmy [$@%]\w+|\buse strict;/g, 60]],
+  [
+    'lua',
+    [/#!(\/usr)?\/bin\/lua/g, 500],
+    [/\blocal (?:function )?\w+/g, 60],
+    [/\b(?:i?pairs\(|elseif\b|nil\b)|~=/g, 40],
   ],
-  ['py', [/\b(def|print|class|and|or|lambda)\b/g, 10]],
-  ['sql', [/\b(SELECT|INSERT|FROM)\b/g, 50]],
-  ['pl', [/#!(\/usr)?\/bin\/perl/g, 500], [/\b(use|print)\b|\$/g, 10]],
-  ['lua', [/#!(\/usr)?\/bin\/lua/g, 500]],
   [
     'make',
-    [/\b(ifneq|endif|if|elif|then|fi|echo|.PHONY|^[a-z]+ ?:$)\b|\$/gm, 10],
+    [/^\.PHONY:/gm, 300],
+    [/\$\([A-Z_]+\)|\$[@<^]/g, 40],
+    [/\b(?:ifeq|ifneq|ifdef|endif)\b/g, 60],
+    [/^[\w.-]+:(?: [^=\n]*)?$/gm, 20],
+  ],
+  [
+    'cmake',
+    [/^\s*(?:cmake_minimum_required|add_executable|add_library|target_link_libraries|find_package|include_directories)\s*\(/gm, 150],
+    [/^\s*(?:project|set|option|message)\s*\(/gm, 30],
   ],
   ['uri', [/https?:|mailto:|tel:|ftp:/g, 30]],
-  ['css', [/^(@import|@page|@media|(\.|#)[a-z]+)/gm, 20]],
-  ['diff', [/^[+><-]/gm, 10], [/^@@[-+,0-9 ]+@@/gm, 25]],
-  ['md', [/^(>|\t\*|\t\d+.|#{1,6} |-\s+|\*\s+)/gm, 25], [/\[.*\](.*)/g, 10]],
-  ['docker', [/^(FROM|ENTRYPOINT|RUN)/gm, 500]],
+  [
+    'css',
+    [/^(@import|@page|@media|(\.|#)[a-z]+)/gm, 20],
+    [/^\s*(?:color|margin|padding|display|font-size|background|border|width|height)\s*:/gm, 40],
+  ],
+  ['diff', [/^[+><-]/gm, 10], [/^@@[-+,0-9 ]+@@/gm, 200], [/^diff --git /gm, 500]],
+  ['md', [/^(>|\t\*|\t\d+.|#{1,6} |-\s+|\*\s+)/gm, 25], [/\[.*\](.*)/g, 10], [/^```/gm, 50]],
+  ['docker', [/^FROM [\w./-]+(?::[\w.-]+)?(?: AS \w+)?$/gm, 200], [/^(?:ENTRYPOINT|RUN|COPY|WORKDIR|CMD|EXPOSE|ENV|ARG) /gm, 100]],
+  [
+    'nginx',
+    [/^\s*(?:server|location|upstream|http|events)\b[^{;\n]*\{/gm, 60],
+    [/^\s*(?:listen|server_name|proxy_pass|proxy_set_header|worker_processes|try_files|root) /gm, 80],
+  ],
   ['xml', [/<\/?[a-z-][^\n>]*>/g, 10], [/^<\?xml/g, 500]],
-  ['c', [/#include\b|\bprintf\s+\(/g, 100]],
-  ['rs', [/^\s+(use|fn|mut|match)\b/gm, 100]],
-  ['go', [/\b(func|fmt|package)\b/g, 100]],
-  ['java', [/^import\s+java/gm, 500]],
+  ['c', [/#include\b|\bprintf\s*\(/g, 100], [/\b(?:malloc|free|sizeof|typedef|struct)\b/g, 20]],
+  [
+    'cpp',
+    [/#include\b|\bprintf\s*\(/g, 100],
+    [/\bstd::|\bcout\b|\btemplate\s*<|\bnamespace \w+|#include <(?:iostream|vector|string|memory|map)>/g, 80],
+  ],
+  [
+    'objc',
+    [/^#import\b|@(?:interface|implementation|property|end)\b/gm, 150],
+    [/\bNS[A-Z]\w+|\[\w+ \w+[\]:]/g, 40],
+  ],
+  [
+    'cs',
+    [/^using System/gm, 300],
+    [/\bConsole\.Write(?:Line)?\(|\{ get; (?:private )?set; \}/g, 150],
+    [/\b(?:public|private|protected|internal) (?:static |async |override |readonly )*(?:class|void|string|int|bool|Task)\b/g, 40],
+  ],
+  [
+    'rs',
+    [/^\s*(use|fn|mut|match)\b/gm, 100],
+    [/\bfn \w+\s*[(<]/g, 100],
+    [/\blet mut\b|\bimpl\b|\bprintln!|&mut\b|::new\(/g, 60],
+  ],
+  ['go', [/\b(func|fmt|package)\b/g, 100], [/^package \w+$/gm, 100], [/\bfmt\.\w+|:=|\bchan\b/g, 40]],
+  [
+    'java',
+    [/^import\s+java/gm, 500],
+    [/\bSystem\.out\.print(?:ln)?\(|@Override\b/g, 100],
+    [/\b(?:public|private|protected) (?:static |final |abstract )*(?:class|void|int|String|boolean)\b/g, 40],
+  ],
+  [
+    'kt',
+    [/\bfun \w+\(/g, 100],
+    [/\bdata class\b|\bcompanion object\b|\bwhen \(|\bsuspend fun\b|\?:/g, 80],
+    [/\bval \w+|\bvar \w+\s*:/g, 30],
+  ],
+  [
+    'scala',
+    [/\bobject \w+(?: extends \w+)?\s*\{/g, 80],
+    [/\bdef \w+(?:\[[^\]\n]*\])?\([^)\n]*\)\s*:\s*[A-Z]\w*(?:\[[^\]\n]*\])?\s*=/g, 100],
+    [/\bcase class\b|\bsealed trait\b|\bimplicit\b|\bprintln\(s"/g, 100],
+  ],
+  [
+    'swift',
+    [/\bimport (?:UIKit|SwiftUI|Foundation)\b/g, 300],
+    [/\bfunc \w+\(/g, 80],
+    [/\b(?:guard|if) let\b|\b(?:let|var) \w+: [A-Z]\w*/g, 40],
+  ],
+  [
+    'dart',
+    [/^import 'package:/gm, 300],
+    [/\bWidget build\(|\bsetState\(|\bStateless(?:Widget)?\b|\bStatefulWidget\b/g, 150],
+    [/\bvoid main\(\)|\bfinal \w+ = |\blate \w+/g, 40],
+  ],
+  [
+    'erl',
+    [/^-(?:module|export|record)\(/gm, 300],
+    [/\bio:format\(|\blists:\w+\(/g, 100],
+    [/^\w+\([^)\n]*\)\s*->/gm, 60],
+  ],
+  [
+    'ps1',
+    [/\b(?:Get|Set|New|Remove|Write|Invoke|Import)-[A-Z]\w+/g, 100],
+    [/\$(?:true|false|null)\b|\s-(?:eq|ne|gt|lt|like|match)\s/g, 40],
+  ],
   ['asm', [/^(section|global main|extern|\t(call|mov|ret))/gm, 100]],
-  ['css', [/^(@import|@page|@media|(\.|#)[a-z]+)/gm, 20]],
-  ['json', [/\b(true|false|null|\{\})\b|"[^"]+":/g, 10]],
-  ['yaml', [/^(\s+)?[a-z][a-z0-9]*:/gim, 10]],
+  ['json', [/\b(true|false|null|\{\})\b|"[^"]+":/g, 10], [/^\s*"[^"\n]+"\s*:/gm, 20]],
+  ['yaml', [/^(\s+)?[a-z][a-z0-9]*:/gim, 10], [/^---$/gm, 50]],
   ['toml', [/^\s*\[.*\]\s*$/gm, 100], [/^\s*[\w-]+ *= */gm, 20]],
   [
     'mermaid',
@@ -102,6 +242,168 @@ export const languages: LanguageDefinition[] = [
   ],
 ]
 
+/**
+ * Monaco / shiki language ids for the detector's short identifiers
+ */
+export const codeLanguageToMonaco: Record<CodeLanguage, string> = {
+  bash: 'shell',
+  html: 'html',
+  http: 'http',
+  js: 'javascript',
+  ts: 'typescript',
+  jsx: 'jsx',
+  tsx: 'tsx',
+  vue: 'vue',
+  svelte: 'svelte',
+  py: 'python',
+  rb: 'ruby',
+  php: 'php',
+  sql: 'sql',
+  pl: 'perl',
+  lua: 'lua',
+  make: 'makefile',
+  cmake: 'cmake',
+  uri: 'plaintext',
+  css: 'css',
+  diff: 'diff',
+  md: 'markdown',
+  docker: 'dockerfile',
+  nginx: 'nginx',
+  xml: 'xml',
+  c: 'c',
+  cpp: 'cpp',
+  objc: 'objective-c',
+  cs: 'csharp',
+  rs: 'rust',
+  go: 'go',
+  java: 'java',
+  kt: 'kotlin',
+  scala: 'scala',
+  swift: 'swift',
+  dart: 'dart',
+  erl: 'erlang',
+  ps1: 'powershell',
+  asm: 'asm',
+  json: 'json',
+  yaml: 'yaml',
+  toml: 'toml',
+  mermaid: 'mermaid',
+  plain: 'plaintext',
+}
+
+/**
+ * Scores one language definition against the code. Higher is more likely;
+ * only the relative size between languages matters.
+ */
+export type LanguageScorer = (code: string, features: readonly LanguageFeature[], language: CodeLanguage) => number
+
+function countMatches(code: string, pattern: RegExp) {
+  if (!pattern.global)
+    return pattern.test(code) ? 1 : 0
+  let count = 0
+  for (const _ of code.matchAll(pattern))
+    count++
+  return count
+}
+
+/**
+ * Default scorer: every match of a feature adds its weight
+ */
+export const patternScorer: LanguageScorer = (code, features) =>
+  features.reduce((acc, [pattern, weight]) => acc + countMatches(code, pattern) * weight, 0)
+
+export interface DetectLanguageOptions {
+  /** Additional language definitions to supplement the built-in ones */
+  additionalLanguages?: LanguageDefinition[]
+  /** Scoring model, defaults to {@link patternScorer} */
+  scorer?: LanguageScorer
+  /** Candidates must score above this to be considered, default 20 */
+  minScore?: number
+}
+
+/**
+ * A ranked detection candidate
+ */
+export interface LanguageCandidate {
+  language: CodeLanguage
+  score: number
+  /** Share of the total evidence, between 0 and 1; the candidates' confidences sum to less than 1 */
+  confidence: number
+}
+
+function roundConfidence(value: number) {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Rank the languages the given code may belong to
+ *
+ * Confidences are normalized over all candidates plus a `minScore` share of
+ * "no idea", so a lone weak match does not come out as a sure thing.
+ *
+ * @param {string} code The code to analyze
+ * @param {DetectLanguageOptions} [options] Extra definitions, scoring model and threshold
+ * @returns {LanguageCandidate[]} Candidates, best first (empty when nothing matches)
+ */
+export function rankLanguages(code: string, options: DetectLanguageOptions = {}): LanguageCandidate[] {
+  const { additionalLanguages, scorer = patternScorer, minScore = 20 } = options
+  const allLanguages = additionalLanguages
+    ? [...languages, ...additionalLanguages]
+    : languages
+
+  const scored = allLanguages
+    .map(([language, ...features]) => ({ language, score: scorer(code, features, language) }))
+    .filter(({ score }) => score > minScore)
+    .sort((a, b) => b.score - a.score)
+  const total = scored.reduce((acc, { score }) => acc + score, minScore)
+  return scored.map(({ language, score }) => ({ language, score, confidence: roundConfidence(score / total) }))
+}
+
+/**
+ * Detected Monaco language with a confidence between 0 and 1
+ */
+export interface DetectedLanguage {
+  language: string
+  confidence: number
+}
+
+/**
+ * Rank candidate languages of the given code as Monaco language ids
+ *
+ * @param {string} code The code to analyze
+ * @param {DetectLanguageOptions | LanguageDefinition[]} [options] Detection options, or additional language definitions
+ * @returns {DetectedLanguage[]} Candidates, best first
+ */
+export function rankMonacoLanguages(
+  code: string,
+  options?: DetectLanguageOptions | LanguageDefinition[],
+): DetectedLanguage[] {
+  const ranked = rankLanguages(code, Array.isArray(options) ? { additionalLanguages: options } : options)
+  // several detector ids can map to the same Monaco id: merge their evidence
+  const merged = new Map<string, number>()
+  for (const { language, confidence } of ranked) {
+    const id = codeLanguageToMonaco[language] ?? language
+    merged.set(id, (merged.get(id) ?? 0) + confidence)
+  }
+  return [...merged]
+    .map(([language, confidence]) => ({ language, confidence: roundConfidence(confidence) }))
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+/**
+ * Detect the language of the given code as a Monaco language id
+ *
+ * @param {string} code The code to analyze
+ * @param {DetectLanguageOptions | LanguageDefinition[]} [options] Detection options, or additional language definitions
+ * @returns {DetectedLanguage} The Monaco language id and the confidence of the guess
+ */
+export function detectMonacoLanguage(
+  code: string,
+  options?: DetectLanguageOptions | LanguageDefinition[],
+): DetectedLanguage {
+  return rankMonacoLanguages(code, options)[0] ?? { language: 'plaintext', confidence: 0 }
+}
+
 /**
  * Try to find the language the given code belongs to
  *
@@ -113,29 +415,14 @@ export function detectLanguage(
   code: string,
   additionalLanguages?: LanguageDefinition[],
 ): CodeLanguage {
-  const allLanguages = additionalLanguages
-    ? [...languages, ...additionalLanguages]
-    : languages
+  return rankLanguages(code, { additionalLanguages })[0]?.language || 'plain'
+}
 
-  return (
-    allLanguages
-      .map(
-        ([lang, ...features]) =>
-          [
-            lang,
-            features.reduce(
-              (acc: number, [match, score]: LanguageFeature) =>
-                acc + [...code.matchAll(match)].length * score,
-              0,
-            ),
-          ] as [CodeLanguage, number],
-      )
-      .filter(([, score]) => score > 20)
-      .sort((a, b) => b[1] - a[1])[0]?.[0] || 'plain'
-  )
-}
-
-export function processedLanguage(language: string) {
+export function processedLanguage(language: string): string {
+  if (isFenceInfo(language))
+    return processedLanguage(parseFenceInfo(language).language)
+  if (isLanguagePath(language))
+    return languageFromFile(language)
   // eslint-disable-next-line regexp/no-dupe-disjunctions
   if (/^(?:shellscript|bash|sh|shell|zsh)/i.test(language))
     return 'shell'
@@ -144,16 +431,292 @@ export function processedLanguage(language: string) {
   return language.split(':')[0]
 }
 
+/**
+ * Languages of well-known file names (matched case-insensitively on the base name)
+ */
+const fileNameLanguages: Record<string, string> = {
+  'dockerfile': 'dockerfile',
+  'containerfile': 'dockerfile',
+  'makefile': 'makefile',
+  'gnumakefile': 'makefile',
+  'cmakelists.txt': 'cmake',
+  'nginx.conf': 'nginx',
+  'gemfile': 'ruby',
+  'rakefile': 'ruby',
+  'podfile': 'ruby',
+  'vagrantfile': 'ruby',
+  'jenkinsfile': 'groovy',
+  'codeowners': 'codeowners',
+  'go.mod': 'go',
+  'cargo.lock': 'toml',
+  'pipfile': 'toml',
+  '.bashrc': 'shell',
+  '.bash_profile': 'shell',
+  '.profile': 'shell',
+  '.zshrc': 'shell',
+  '.gitconfig': 'ini',
+  '.editorconfig': 'ini',
+  '.npmrc': 'ini',
+  '.gitignore': 'plaintext',
+  '.babelrc': 'json',
+  '.eslintrc': 'json',
+  '.prettierrc': 'json',
+  'tsconfig.json': 'jsonc',
+  'jsconfig.json': 'jsonc',
+  'commit_editmsg': 'git-commit',
+  'git-rebase-todo': 'git-rebase',
+}
+
+/**
+ * Languages by file extension (without the dot, lower case)
+ */
+const extensionLanguages: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'jsx',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'tsx',
+  vue: 'vue',
+  svelte: 'svelte',
+  astro: 'astro',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  css: 'css',
+  scss: 'scss',
+  sass: 'sass',
+  less: 'less',
+  styl: 'stylus',
+  json: 'json',
+  jsonc: 'jsonc',
+  json5: 'json5',
+  jsonl: 'jsonl',
+  md: 'markdown',
+  markdown: 'markdown',
+  mdx: 'mdx',
+  xml: 'xml',
+  svg: 'xml',
+  xsl: 'xsl',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'toml',
+  ini: 'ini',
+  cfg: 'ini',
+  conf: 'ini',
+  env: 'dotenv',
+  properties: 'ini',
+  csv: 'csv',
+  tsv: 'tsv',
+  sql: 'sql',
+  graphql: 'graphql',
+  gql: 'graphql',
+  proto: 'proto',
+  prisma: 'prisma',
+  py: 'python',
+  pyw: 'python',
+  pyi: 'python',
+  rb: 'ruby',
+  erb: 'erb',
+  php: 'php',
+  pl: 'perl',
+  pm: 'perl',
+  lua: 'lua',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  fish: 'fish',
+  ps1: 'powershell',
+  psm1: 'powershell',
+  bat: 'bat',
+  cmd: 'bat',
+  mk: 'makefile',
+  cmake: 'cmake',
+  dockerfile: 'dockerfile',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  hh: 'cpp',
+  m: 'objective-c',
+  mm: 'objective-cpp',
+  cs: 'csharp',
+  fs: 'fsharp',
+  vb: 'vb',
+  java: 'java',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  scala: 'scala',
+  groovy: 'groovy',
+  gradle: 'groovy',
+  go: 'go',
+  rs: 'rust',
+  swift: 'swift',
+  dart: 'dart',
+  erl: 'erlang',
+  hrl: 'erlang',
+  ex: 'elixir',
+  exs: 'elixir',
+  hs: 'haskell',
+  clj: 'clojure',
+  ml: 'ocaml',
+  r: 'r',
+  jl: 'julia',
+  zig: 'zig',
+  nim: 'nim',
+  tf: 'terraform',
+  hcl: 'hcl',
+  nix: 'nix',
+  sol: 'solidity',
+  asm: 'asm',
+  s: 'asm',
+  wasm: 'wasm',
+  tex: 'latex',
+  diff: 'diff',
+  patch: 'diff',
+  mmd: 'mermaid',
+  log: 'log',
+  txt: 'plaintext',
+}
+
+/**
+ * Languages of shebang interpreters
+ */
+const interpreterLanguages: Record<string, string> = {
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  dash: 'shell',
+  ksh: 'shell',
+  fish: 'fish',
+  node: 'javascript',
+  deno: 'typescript',
+  bun: 'javascript',
+  tsx: 'typescript',
+  python: 'python',
+  ruby: 'ruby',
+  perl: 'perl',
+  php: 'php',
+  lua: 'lua',
+  pwsh: 'powershell',
+  make: 'makefile',
+  Rscript: 'r',
+}
+
+/**
+ * Whether a language argument is a file path or URI rather than a language id
+ * (`src/App.vue`, `file:///tmp/a.py`, `.env`, `Dockerfile`).
+ * Markdown fence info strings (`lang:meta`, `ts title="a.ts"`) are not paths.
+ */
+export function isLanguagePath(language: string) {
+  if (isFenceInfo(language) || /^[a-z][\w+-]*:(?![/\\])/i.test(language))
+    return false
+  return /[/\\.]/.test(language) || /^[A-Z]\w*file$/.test(language)
+}
+
+function fileBaseName(path: string) {
+  const withoutQuery = path.replace(/[?#].*$/, '')
+  return withoutQuery.slice(Math.max(withoutQuery.lastIndexOf('/'), withoutQuery.lastIndexOf('\\')) + 1)
+}
+
+function nameLanguage(path: string) {
+  const name = fileBaseName(path).toLowerCase()
+  if (fileNameLanguages[name])
+    return fileNameLanguages[name]
+  if (name === '.env' || name.startsWith('.env.'))
+    return 'dotenv'
+  if (name.startsWith('dockerfile.') || name.endsWith('.dockerfile'))
+    return 'dockerfile'
+  const dot = name.lastIndexOf('.')
+  return dot === -1 ? undefined : extensionLanguages[name.slice(dot + 1)]
+}
+
+function shebangLanguage(code: string) {
+  const match = /^#![ \t]*(\S+)(?:[ \t]+(\S+))?/.exec(code)
+  if (!match)
+    return undefined
+  // `#!/usr/bin/env -S node --flags` and friends
+  let interpreter = fileBaseName(match[1])
+  if (interpreter === 'env' && match[2])
+    interpreter = match[2] === '-S' ? (/-S[ \t]+(\S+)/.exec(code)?.[1] ?? '') : match[2]
+  interpreter = interpreter.replace(/[\d.]+$/, '')
+  return interpreterLanguages[interpreter]
+}
+
+const modelineAliases: Record<string, string> = {
+  'sh': 'shell',
+  'bash': 'shell',
+  'zsh': 'shell',
+  'js': 'javascript',
+  'ts': 'typescript',
+  'py': 'python',
+  'rb': 'ruby',
+  'cs': 'csharp',
+  'md': 'markdown',
+  'yml': 'yaml',
+  'make': 'makefile',
+  'dosini': 'ini',
+  'c++': 'cpp',
+  'js2': 'javascript',
+  'objc': 'objective-c',
+  'lisp': 'common-lisp',
+  'elisp': 'emacs-lisp',
+}
+
+function modelineLanguage(code: string) {
+  // modelines live in the first or last few lines
+  const lines = code.split('\n')
+  const candidates = lines.length > 10 ? [...lines.slice(0, 5), ...lines.slice(-5)] : lines
+  for (const line of candidates) {
+    const vim = /\b(?:vim?|ex):.*?\b(?:ft|filetype|syntax)=([\w+-]+)/.exec(line)
+    const emacs = vim ? null : /-\*-(.*?)-\*-/.exec(line)
+    let mode = vim?.[1]
+    if (emacs) {
+      const field = /(?:^|;)\s*mode:\s*([\w+-]+)/i.exec(emacs[1])
+      mode = field ? field[1] : (emacs[1].includes(':') ? undefined : emacs[1].trim())
+    }
+    if (mode) {
+      const name = mode.toLowerCase().replace(/-mode$/, '')
+      return modelineAliases[name] ?? name
+    }
+  }
+  return undefined
+}
+
+/**
+ * Resolve the language of a file from what is known about it: the file name
+ * (`Dockerfile`, `CMakeLists.txt`, `.env`) or extension first, then the
+ * shebang line and Vim/Emacs modelines of the content, and finally content
+ * based detection. Paths may be URIs; query strings and fragments are ignored.
+ *
+ * @param {string} path File name, path or URI
+ * @param {string} [code] File content, used when the name is not conclusive
+ * @returns {string} A Monaco language id, `'plaintext'` when nothing matches
+ */
+export function languageFromFile(path: string, code?: string): string {
+  const byName = nameLanguage(path)
+  if (byName)
+    return byName
+  if (!code)
+    return 'plaintext'
+  return shebangLanguage(code)
+    ?? modelineLanguage(code)
+    ?? detectMonacoLanguage(code).language
+}
+
 /**
  * 使用示例:
  *
  * // 基本用法
  * const language1 = detectLanguage('console.log("hello")') // 'js'
  *
- * // 使用自定义语言检测规则
+ * // 使用自定义语言检测规则（追加到内置规则之后）
  * const customLanguages: LanguageDefinition[] = [
  *   ['vue', [/<template>/g, 100], [/<script>/g, 50], [/<style>/g, 50]],
- *   ['kotlin', [/\b(fun|class|val|var)\b/g, 20]]
  * ]
  *
  * const language2 = detectLanguage(`
@@ -162,10 +725,14 @@ export function processedLanguage(language: string) {
  *   </template>
  * `, customLanguages) // 'vue'
  *
- * const language3 = detectLanguage(`
- *   fun main() {
- *     val name = "Kotlin"
- *     println("Hello $name")
- *   }
- * `, customLanguages) // 'kotlin'
+ * // 带置信度的候选排序，可替换打分模型
+ * const candidates = rankLanguages(code, {
+ *   scorer: (code, features, language) => patternScorer(code, features, language) / Math.max(1, code.length / 1000),
+ * })
+ * // [{ language: 'kt', score: 230, confidence: 0.82 }, ...]
+ *
+ * // 根据文件名 / 扩展名 / shebang / modeline 解析语言
+ * languageFromFile('src/App.vue') // 'vue'
+ * languageFromFile('CMakeLists.txt') // 'cmake'
+ * languageFromFile('bin/release', '#!/usr/bin/env node\n') // 'javascript'
  */
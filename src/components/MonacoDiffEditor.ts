@@ -0,0 +1,139 @@
+import type { PropType } from 'vue'
+import type * as monaco from '../monaco-shim'
+import type { MonacoOptions, MonacoTheme } from '../type'
+import type { useMonaco } from '../useMonaco'
+import { defineComponent, getCurrentScope, h, onBeforeUnmount, onMounted, ref, watch } from 'vue'
+import { renderCodeToHtml } from '../ssr'
+import { createScrollWatcherForEditor } from '../utils/scroll'
+import { useStaticMarkup } from './staticMarkup'
+
+/**
+ * 声明式的 Diff 编辑器组件，封装 useMonaco().createDiffEditor / updateOriginal / updateModified。
+ *
+ * - `original` 为左侧内容，`v-model` 绑定右侧（modified）内容
+ * - `language` / `theme` / `options` 变化时实时同步
+ * - 卸载时自动销毁编辑器与模型
+ * - 编辑器模块在挂载后才按需加载，服务端导入组件不会引入 monaco-editor
+ * - SSR 时输出 modified 侧的静态代码与最终高度，客户端水合后替换为 Diff 编辑器
+ *
+ * @example
+ * ```vue
+ * <MonacoDiffEditor v-model="after" :original="before" language="typescript" />
+ * ```
+ */
+export const MonacoDiffEditor = defineComponent({
+  name: 'MonacoDiffEditor',
+  props: {
+    original: { type: String, default: '' },
+    /** modified 侧内容；每次编辑立即回写，不做防抖（与 MonacoEditor 不同） */
+    modelValue: { type: String, default: '' },
+    language: { type: String, default: 'plaintext' },
+    theme: { type: String, default: undefined },
+    options: { type: Object as PropType<MonacoOptions>, default: () => ({}) },
+  },
+  emits: {
+    'update:modelValue': (_value: string) => true,
+    'change': (_value: string) => true,
+    'scroll-pause': () => true,
+    'theme-applied': (_theme: MonacoTheme) => true,
+    'ready': (_editor: monaco.editor.IStandaloneDiffEditor) => true,
+  },
+  setup(props, { emit, expose }) {
+    const container = ref<HTMLElement | null>(null)
+    const scope = getCurrentScope()!
+    // created once the editor module has loaded on the client
+    let api: ReturnType<typeof useMonaco> | null = null
+    // filled with the api methods once loaded, so template refs keep working
+    const exposed: Record<string, unknown> = {}
+    // the diff editor is as tall as its longer side
+    const staticLineCount = Math.max(...[props.original, props.modelValue].map(text => text.split(/\r\n|\r|\n/).length))
+    const markup = useStaticMarkup(
+      staticLineCount,
+      props.options,
+      () => renderCodeToHtml(props.modelValue, props.language, props.theme ?? props.options.theme, { ...props.options, lineCount: staticLineCount }),
+    )
+    const disposables: monaco.IDisposable[] = []
+    let lastScrollTop = 0
+    let unmounted = false
+
+    function currentModified() {
+      return api?.getDiffModels().modified?.getValue() ?? props.modelValue
+    }
+
+    function currentOriginal() {
+      return api?.getDiffModels().original?.getValue() ?? props.original
+    }
+
+    onMounted(async () => {
+      if (!container.value)
+        return
+      const { useMonaco } = await import('../useMonaco')
+      if (unmounted)
+        return
+      api = scope.run(() => useMonaco({
+        ...props.options,
+        theme: props.theme ?? props.options.theme,
+        async onThemeChange(theme) {
+          await props.options.onThemeChange?.(theme)
+          emit('theme-applied', theme)
+        },
+      }))!
+      Object.assign(exposed, api)
+      const diffEditor = await api.createDiffEditor(container.value, props.original, props.modelValue, props.language)
+      markup.hide()
+      if (unmounted) {
+        api.cleanupEditor()
+        return
+      }
+      const modifiedEditor = diffEditor.getModifiedEditor()
+      disposables.push(modifiedEditor.onDidChangeModelContent(() => {
+        const value = modifiedEditor.getValue()
+        if (value !== props.modelValue)
+          emit('update:modelValue', value)
+        emit('change', value)
+      }))
+      const scrollWatcher = createScrollWatcherForEditor(modifiedEditor, {
+        onPause: () => emit('scroll-pause'),
+        onMaybeResume: () => { },
+        getLast: () => lastScrollTop,
+        setLast: (v: number) => { lastScrollTop = v },
+      })
+      if (scrollWatcher)
+        disposables.push(scrollWatcher)
+      // props may have changed while the editor was being created
+      if (props.original !== currentOriginal() || props.modelValue !== currentModified())
+        api.updateDiff(props.original, props.modelValue, props.language)
+      emit('ready', diffEditor)
+    })
+
+    watch(() => props.original, (value) => {
+      if (value !== currentOriginal())
+        api?.updateOriginal(value, props.language)
+    })
+    watch(() => props.modelValue, (value) => {
+      if (value !== currentModified())
+        api?.updateModified(value, props.language)
+    })
+    watch(() => props.language, (language) => {
+      api?.updateDiff(currentOriginal(), currentModified(), language)
+    })
+    watch(() => props.theme, (theme) => {
+      if (theme)
+        void api?.setTheme(theme)
+    })
+    watch(() => props.options, (options) => {
+      api?.getDiffEditorView()?.updateOptions(options)
+    }, { deep: true })
+
+    onBeforeUnmount(() => {
+      unmounted = true
+      disposables.forEach(d => d.dispose())
+      disposables.length = 0
+      api?.cleanupEditor()
+    })
+
+    expose(exposed)
+
+    return () => h('div', { ref: container, class: 'monaco-diff-editor-container', style: markup.containerStyle }, markup.children())
+  },
+})
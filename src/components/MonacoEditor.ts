@@ -0,0 +1,115 @@
+import type { PropType } from 'vue'
+import type * as monaco from '../monaco-shim'
+import type { MonacoOptions, MonacoTheme } from '../type'
+import type { useMonacoModel } from '../useMonacoModel'
+import { computed, defineComponent, getCurrentScope, h, onBeforeUnmount, onMounted, ref, watch } from 'vue'
+import { renderCodeToHtml } from '../ssr'
+import { createScrollWatcherForEditor } from '../utils/scroll'
+import { useStaticMarkup } from './staticMarkup'
+
+/**
+ * 声明式的单编辑器组件，基于 useMonacoModel 封装 createEditor / updateCode / cleanupEditor。
+ *
+ * - `v-model` 双向绑定编辑器内容（只读模式下仅外部 -> 编辑器）
+ * - `language` / `theme` / `options` 变化时实时同步
+ * - 卸载时自动销毁编辑器
+ * - 编辑器模块在挂载后才按需加载，服务端导入组件不会引入 monaco-editor
+ * - SSR 时输出 shiki 渲染的静态代码与最终高度，客户端水合后替换为编辑器，避免布局偏移
+ *
+ * @example
+ * ```vue
+ * <MonacoEditor v-model="code" language="typescript" :options="{ readOnly: false }" />
+ * ```
+ */
+export const MonacoEditor = defineComponent({
+  name: 'MonacoEditor',
+  props: {
+    /** 编辑器内容；输入经 50ms 防抖后回写（与 MonacoDiffEditor 的即时回写不同），卸载前会先回写 */
+    modelValue: { type: String, default: '' },
+    language: { type: String, default: 'plaintext' },
+    theme: { type: String, default: undefined },
+    options: { type: Object as PropType<MonacoOptions>, default: () => ({}) },
+  },
+  emits: {
+    'update:modelValue': (_value: string) => true,
+    'change': (_value: string) => true,
+    'scroll-pause': () => true,
+    'theme-applied': (_theme: MonacoTheme) => true,
+    'ready': (_editor: monaco.editor.IStandaloneCodeEditor) => true,
+  },
+  setup(props, { emit, expose }) {
+    const container = ref<HTMLElement | null>(null)
+    const model = computed({
+      get: () => props.modelValue,
+      set: value => emit('update:modelValue', value),
+    })
+    const scope = getCurrentScope()!
+    // created once the editor module has loaded on the client
+    let api: ReturnType<typeof useMonacoModel> | null = null
+    // filled with the api methods once loaded, so template refs keep working
+    const exposed: Record<string, unknown> = {}
+    const markup = useStaticMarkup(
+      props.modelValue.split(/\r\n|\r|\n/).length,
+      props.options,
+      () => renderCodeToHtml(props.modelValue, props.language, props.theme ?? props.options.theme, props.options),
+    )
+    const disposables: monaco.IDisposable[] = []
+    let lastScrollTop = 0
+    let unmounted = false
+
+    onMounted(async () => {
+      if (!container.value)
+        return
+      const { useMonacoModel } = await import('../useMonacoModel')
+      if (unmounted)
+        return
+      api = scope.run(() => useMonacoModel(model, {
+        ...props.options,
+        language: () => props.language,
+        theme: props.theme ?? props.options.theme,
+        async onThemeChange(theme) {
+          await props.options.onThemeChange?.(theme)
+          emit('theme-applied', theme)
+        },
+      }))!
+      Object.assign(exposed, api)
+      const editor = await api.createEditor(container.value)
+      markup.hide()
+      if (unmounted) {
+        api.cleanupEditor()
+        return
+      }
+      disposables.push(editor.onDidChangeModelContent(() => {
+        emit('change', editor.getValue())
+      }))
+      const scrollWatcher = createScrollWatcherForEditor(editor, {
+        onPause: () => emit('scroll-pause'),
+        onMaybeResume: () => { },
+        getLast: () => lastScrollTop,
+        setLast: (v: number) => { lastScrollTop = v },
+      })
+      if (scrollWatcher)
+        disposables.push(scrollWatcher)
+      emit('ready', editor)
+    })
+
+    watch(() => props.theme, (theme) => {
+      if (theme)
+        void api?.setTheme(theme)
+    })
+    watch(() => props.options, (options) => {
+      api?.getEditorView()?.updateOptions(options)
+    }, { deep: true })
+
+    onBeforeUnmount(() => {
+      unmounted = true
+      disposables.forEach(d => d.dispose())
+      disposables.length = 0
+      api?.cleanupEditor()
+    })
+
+    expose(exposed)
+
+    return () => h('div', { ref: container, class: 'monaco-editor-container', style: markup.containerStyle }, markup.children())
+  },
+})
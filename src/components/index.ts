@@ -0,0 +1,2 @@
+export { MonacoDiffEditor } from './MonacoDiffEditor'
+export { MonacoEditor } from './MonacoEditor'
@@ -0,0 +1,59 @@
+import type { StyleValue, VNode } from 'vue'
+import type { MonacoOptions } from '../type'
+import { createStaticVNode, getCurrentInstance, onServerPrefetch, ref } from 'vue'
+import { staticEditorHeight } from '../ssr'
+import { resolveMaxHeight } from '../utils/height'
+
+/**
+ * Server-rendered placeholder for the editor components.
+ *
+ * On the server the container is rendered with the editor's final height and
+ * the shiki markup from `render` as an overlay. On the client the overlay is
+ * adopted during hydration (a static vnode with empty content takes over the
+ * existing DOM) and removed once the editor is ready, so the page keeps its
+ * layout while Monaco mounts underneath.
+ */
+export function useStaticMarkup(lineCount: number, options: MonacoOptions, render: () => Promise<string>) {
+  const isServer = typeof window === 'undefined'
+  // hydration assigns vnode.el before the component is set up
+  const hydrating = !isServer && !!getCurrentInstance()?.vnode.el
+  const visible = ref(isServer || hydrating)
+  let html = ''
+  let overlay: VNode | null = null
+
+  // a fixed object: later renders never patch the height the editor applies
+  const containerStyle: StyleValue | undefined = visible.value
+    ? {
+        position: 'relative',
+        height: `${staticEditorHeight(lineCount, options)}px`,
+        maxHeight: resolveMaxHeight(options.MAX_HEIGHT ?? 500).css,
+        overflow: 'hidden',
+      }
+    : undefined
+
+  onServerPrefetch(async () => {
+    try {
+      html = await render()
+    }
+    catch (err) {
+      console.warn('Failed to render static code markup:', err)
+    }
+  })
+
+  function children() {
+    if (!visible.value)
+      return []
+    overlay ??= createStaticVNode(
+      isServer ? `<div class="monaco-ssr-overlay" style="position:absolute;inset:0;z-index:1">${html}</div>` : '',
+      1,
+    )
+    return [overlay]
+  }
+
+  /** Remove the static overlay once the editor has been created. */
+  function hide() {
+    visible.value = false
+  }
+
+  return { containerStyle, children, hide }
+}
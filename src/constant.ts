@@ -55,3 +55,6 @@ export const padding = 16
 
 // default debounce for reveal (ms) used when revealDebounceMs is not provided
 export const defaultRevealDebounceMs = 75
+
+// how long `highlightChanges` takes to fade out a streamed range
+export const defaultHighlightChangesMs = 1000
@@ -0,0 +1,202 @@
+import type { AnsiLine, AnsiStyle } from '../utils/ansi'
+import * as monaco from '../monaco-shim'
+import { createAnsiParser } from '../utils/ansi'
+import { ensureStyle } from '../utils/style'
+
+// VS Code's default dark terminal colors, used until a theme provides its own
+const defaultPalette = [
+  '#000000',
+  '#cd3131',
+  '#0dbc79',
+  '#e5e510',
+  '#2472c8',
+  '#bc3fbc',
+  '#11a8cd',
+  '#e5e5e5',
+  '#666666',
+  '#f14c4c',
+  '#23d18b',
+  '#f5f543',
+  '#3b8eea',
+  '#d670d6',
+  '#29b8db',
+  '#e5e5e5',
+]
+
+const ansiStyleId = 'vue-use-monaco-ansi'
+const ansiStyles = `
+${defaultPalette.map((color, i) => `.monaco-editor .monaco-ansi-fg-${i} { color: var(--vue-use-monaco-ansi-${i}, ${color}); }
+.monaco-editor .monaco-ansi-bg-${i} { background-color: var(--vue-use-monaco-ansi-${i}, ${color}); }`).join('\n')}
+.monaco-editor .monaco-ansi-fg-inverse { color: var(--vscode-editor-background); }
+.monaco-editor .monaco-ansi-bg-inverse { background-color: var(--vscode-editor-foreground); }
+.monaco-editor .monaco-ansi-bold { font-weight: bold; }
+.monaco-editor .monaco-ansi-dim { opacity: .6; }
+.monaco-editor .monaco-ansi-italic { font-style: italic; }
+.monaco-editor .monaco-ansi-underline { text-decoration: underline; }
+.monaco-editor .monaco-ansi-strikethrough { text-decoration: line-through; }
+.monaco-editor .monaco-ansi-underline.monaco-ansi-strikethrough { text-decoration: underline line-through; }
+`
+
+// 256-color and 24-bit colors get a rule each, added on first use
+const colorStyleId = 'vue-use-monaco-ansi-colors'
+const colorRules = new Set<string>()
+
+function colorClass(kind: 'fg' | 'bg', color: number | string) {
+  if (typeof color === 'number')
+    return `monaco-ansi-${kind}-${color}`
+  const className = `monaco-ansi-${kind}-${color.slice(1)}`
+  if (!colorRules.has(className) && typeof document !== 'undefined') {
+    colorRules.add(className)
+    ensureStyle(colorStyleId, '')
+    document.getElementById(colorStyleId)!.textContent += `.monaco-editor .${className} { ${kind === 'fg' ? 'color' : 'background-color'}: ${color}; }\n`
+  }
+  return className
+}
+
+function styleClassName(style: AnsiStyle) {
+  const classes: string[] = []
+  const fg = style.inverse ? style.bg : style.fg
+  const bg = style.inverse ? style.fg : style.bg
+  if (fg !== undefined)
+    classes.push(colorClass('fg', fg))
+  else if (style.inverse)
+    classes.push('monaco-ansi-fg-inverse')
+  if (bg !== undefined)
+    classes.push(colorClass('bg', bg))
+  else if (style.inverse)
+    classes.push('monaco-ansi-bg-inverse')
+  for (const flag of ['bold', 'dim', 'italic', 'underline', 'strikethrough'] as const) {
+    if (style[flag])
+      classes.push(`monaco-ansi-${flag}`)
+  }
+  return classes.join(' ')
+}
+
+/**
+ * Renders streamed terminal output into an editor: escape sequences are
+ * stripped from the text and colors / bold / underline become inline
+ * decorations. The open (last) line is rewritten in place, so `\r` progress
+ * bars stay on one line. Decoration ids are kept per line, so lines trimmed
+ * from the head (tail mode) take their decorations with them.
+ */
+export class AnsiRenderer {
+  private parser: ReturnType<typeof createAnsiParser>
+  private raw = ''
+  // text of the open line as last written to the model
+  private tailText: string
+  // decoration ids per model line, starting at `firstLine`; the last entry is the open line
+  private lineDecorations: string[][] = [[]]
+  private firstLine: number
+
+  /**
+   * `keepRawText` keeps the unprocessed output for `getRawText()`; tail mode
+   * turns it off so an endless stream does not grow without bound.
+   */
+  constructor(private editor: monaco.editor.ICodeEditor, private keepRawText = true) {
+    ensureStyle(ansiStyleId, ansiStyles)
+    const model = editor.getModel()!
+    this.firstLine = model.getLineCount()
+    this.tailText = model.getLineContent(this.firstLine)
+    this.parser = createAnsiParser(this.tailText)
+  }
+
+  /** The unprocessed output written so far, escape sequences included (empty unless `keepRawText`). */
+  getRawText() {
+    return this.raw
+  }
+
+  /** Returns the range that was (re)written, or null when the model did not change. */
+  write(chunk: string): monaco.IRange | null {
+    const model = this.editor.getModel()
+    if (!model || !chunk)
+      return null
+    if (this.keepRawText)
+      this.raw += chunk
+    const { lines, tail } = this.parser.write(chunk)
+    const written = [...lines, tail]
+    const text = written.map(line => line.text).join('\n')
+    const tailLine = model.getLineCount()
+    const lastColumn = model.getLineMaxColumn(tailLine)
+    // common case: the open line only grew
+    const grew = text.startsWith(this.tailText)
+    if (!grew)
+      model.applyEdits([{ range: new monaco.Range(tailLine, 1, tailLine, lastColumn), text, forceMoveMarkers: true }])
+    else if (text.length > this.tailText.length)
+      model.applyEdits([{ range: new monaco.Range(tailLine, lastColumn, tailLine, lastColumn), text: text.slice(this.tailText.length), forceMoveMarkers: true }])
+    this.tailText = tail.text
+    this.decorate(tailLine, written)
+    const endLine = model.getLineCount()
+    return new monaco.Range(tailLine, grew ? lastColumn : 1, endLine, model.getLineMaxColumn(endLine))
+  }
+
+  private decorate(fromLine: number, lines: AnsiLine[]) {
+    const model = this.editor.getModel()!
+    const previous = this.lineDecorations.pop() ?? []
+    const decorations: monaco.editor.IModelDeltaDecoration[] = []
+    const counts = lines.map((line, i) => {
+      for (const span of line.spans) {
+        const inlineClassName = styleClassName(span.style)
+        if (!inlineClassName)
+          continue
+        decorations.push({
+          range: new monaco.Range(fromLine + i, span.start + 1, fromLine + i, span.end + 1),
+          options: { inlineClassName, stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges },
+        })
+      }
+      return decorations.length
+    })
+    const ids = model.deltaDecorations(previous, decorations)
+    let start = 0
+    for (const end of counts) {
+      this.lineDecorations.push(ids.slice(start, end))
+      start = end
+    }
+  }
+
+  /** `count` lines were removed from the top of the model. */
+  linesRemovedAbove(count: number) {
+    const removed = Math.max(0, Math.min(this.lineDecorations.length - 1, count - this.firstLine + 1))
+    const ids = this.lineDecorations.splice(0, removed).flat()
+    if (ids.length)
+      this.editor.getModel()?.deltaDecorations(ids, [])
+    this.firstLine = Math.max(1, this.firstLine - count)
+  }
+
+  /** `count` lines were inserted at the top of the model. */
+  linesAddedAbove(count: number) {
+    this.firstLine += count
+  }
+
+  /** Apply a theme's terminal colors; undefined entries use the defaults. */
+  setPalette(palette: (string | undefined)[]) {
+    const node = this.editor.getContainerDomNode()
+    palette.forEach((color, i) => {
+      if (color)
+        node.style.setProperty(`--vue-use-monaco-ansi-${i}`, color)
+      else
+        node.style.removeProperty(`--vue-use-monaco-ansi-${i}`)
+    })
+  }
+
+  /** Forget everything written so far; call after the model was cleared. */
+  reset() {
+    this.clearDecorations()
+    const model = this.editor.getModel()!
+    this.firstLine = model.getLineCount()
+    this.tailText = model.getLineContent(this.firstLine)
+    this.parser.reset(this.tailText)
+    this.raw = ''
+  }
+
+  private clearDecorations() {
+    const ids = this.lineDecorations.flat()
+    if (ids.length)
+      this.editor.getModel()?.deltaDecorations(ids, [])
+    this.lineDecorations = [[]]
+  }
+
+  dispose() {
+    this.clearDecorations()
+    this.raw = ''
+  }
+}
@@ -0,0 +1,125 @@
+import type { MinimalEditResult } from '../minimalEdit'
+import type { MonacoOptions } from '../type'
+import type { RafScheduler } from '../utils/raf'
+import { defaultHighlightChangesMs } from '../constant'
+import * as monaco from '../monaco-shim'
+import { ensureStyle } from '../utils/style'
+
+// the highlight fades out in a few discrete steps, so a range is redecorated
+// at most this many times instead of on every frame
+const fadeSteps = 4
+
+const highlightStyleId = 'vue-use-monaco-change-highlight'
+const highlightStyles = Array.from({ length: fadeSteps }, (_, step) =>
+  `.monaco-editor .monaco-change-highlight-${step} { background-color: color-mix(in srgb, var(--vscode-diffEditor-insertedTextBackground, rgba(156, 204, 44, .25)) ${Math.round(100 * (1 - step / fadeSteps))}%, transparent); }`).join('\n')
+
+/** Fade duration in ms for the `highlightChanges` option, or 0 when it is off. */
+export function highlightChangesDuration(option: MonacoOptions['highlightChanges']) {
+  if (!option)
+    return 0
+  const duration = option === true ? defaultHighlightChangesMs : option.duration ?? defaultHighlightChangesMs
+  return Math.max(0, duration)
+}
+
+/** Ranges the given minimal edits inserted, in the model after they were applied. */
+export function insertedRanges(model: monaco.editor.ITextModel, edits: MinimalEditResult[]) {
+  const ranges: monaco.IRange[] = []
+  let delta = 0
+  for (const { start, endPrevIncl, replaceText } of edits) {
+    if (replaceText) {
+      const from = model.getPositionAt(start + delta)
+      const to = model.getPositionAt(start + delta + replaceText.length)
+      ranges.push(new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column))
+    }
+    delta += replaceText.length - (endPrevIncl + 1 - start)
+  }
+  return ranges
+}
+
+/**
+ * Highlights freshly streamed text with a background that fades out over
+ * `duration` ms. Ranges marked during a frame are decorated together on the
+ * next one, and all fade steps due in a frame go into a single decoration
+ * update, so high-rate streaming adds at most one decoration change per frame.
+ */
+export class ChangeHighlighter {
+  private decorations: monaco.editor.IEditorDecorationsCollection
+  // one entry per decoration in `decorations`, in the same order
+  private entries: { startedAt: number, step: number }[] = []
+  private pending: monaco.IRange[] = []
+
+  constructor(
+    editor: monaco.editor.ICodeEditor,
+    private rafScheduler: RafScheduler,
+    private duration: number,
+  ) {
+    ensureStyle(highlightStyleId, highlightStyles)
+    this.decorations = editor.createDecorationsCollection()
+  }
+
+  mark(range: monaco.IRange) {
+    if (range.startLineNumber === range.endLineNumber && range.startColumn === range.endColumn)
+      return
+    // consecutive appends within a frame become one range
+    const last = this.pending.at(-1)
+    if (last && last.endLineNumber === range.startLineNumber && last.endColumn === range.startColumn)
+      this.pending[this.pending.length - 1] = new monaco.Range(last.startLineNumber, last.startColumn, range.endLineNumber, range.endColumn)
+    else
+      this.pending.push(range)
+    this.rafScheduler.schedule('highlight', t => this.render(t))
+  }
+
+  /**
+   * `count` lines were removed from the top of the model. Decorated ranges
+   * move with the text; only ranges still waiting for the frame are shifted.
+   */
+  linesRemovedAbove(count: number) {
+    this.pending = this.pending
+      .filter(range => range.endLineNumber > count)
+      .map(range => range.startLineNumber > count
+        ? new monaco.Range(range.startLineNumber - count, range.startColumn, range.endLineNumber - count, range.endColumn)
+        : new monaco.Range(1, 1, range.endLineNumber - count, range.endColumn))
+  }
+
+  /** `count` lines were inserted at the top of the model. */
+  linesAddedAbove(count: number) {
+    this.pending = this.pending.map(range =>
+      new monaco.Range(range.startLineNumber + count, range.startColumn, range.endLineNumber + count, range.endColumn))
+  }
+
+  private render(now: number) {
+    const ranges = this.decorations.getRanges()
+    let changed = this.pending.length > 0
+    const kept: { range: monaco.IRange, startedAt: number, step: number }[] = []
+    this.entries.forEach((entry, i) => {
+      const step = Math.floor((now - entry.startedAt) / this.duration * fadeSteps)
+      if (step !== entry.step || !ranges[i])
+        changed = true
+      if (step < fadeSteps && ranges[i])
+        kept.push({ range: ranges[i], startedAt: entry.startedAt, step })
+    })
+    for (const range of this.pending)
+      kept.push({ range, startedAt: now, step: 0 })
+    this.pending = []
+
+    if (changed) {
+      this.decorations.set(kept.map(({ range, step }) => ({
+        range,
+        options: {
+          className: `monaco-change-highlight-${step}`,
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      })))
+      this.entries = kept.map(({ startedAt, step }) => ({ startedAt, step }))
+    }
+    if (this.entries.length)
+      this.rafScheduler.schedule('highlight', t => this.render(t))
+  }
+
+  dispose() {
+    this.rafScheduler.cancel('highlight')
+    this.pending = []
+    this.entries = []
+    this.decorations.clear()
+  }
+}
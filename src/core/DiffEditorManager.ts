@@ -1,11 +1,18 @@
 import type { MonacoLanguage, MonacoOptions } from '../type'
+import type { DiffStats } from '../utils/hunks'
+import type { RafScheduler } from '../utils/raf'
 import { processedLanguage } from '../code.detect'
 import { defaultRevealDebounceMs, defaultScrollbar, padding } from '../constant'
-import { computeMinimalEdit } from '../minimalEdit'
+import { computeMinimalEdits } from '../minimalEdit'
 import * as monaco from '../monaco-shim'
 import { createHeightManager } from '../utils/height'
+import { computeDiffStats, emptyDiffStats, findHunkAtLine } from '../utils/hunks'
+import { createKnownContent } from '../utils/knownContent'
 import { createRafScheduler } from '../utils/raf'
 import { createScrollWatcherForEditor } from '../utils/scroll'
+import { advanceStreamCursor, defaultStreamingDiffWindow, visibleOriginal } from '../utils/streamingDiff'
+import { ChangeHighlighter, highlightChangesDuration, insertedRanges } from './ChangeHighlighter'
+import { DiffHunkController } from './DiffHunkController'
 
 export class DiffEditorManager {
   private diffEditorView: monaco.editor.IStandaloneDiffEditor | null = null
@@ -13,8 +20,9 @@ export class DiffEditorManager {
   private modifiedModel: monaco.editor.ITextModel | null = null
   private lastContainer: HTMLElement | null = null
 
-  private lastKnownOriginalCode: string | null = null
-  private lastKnownModifiedCode: string | null = null
+  // text of both models as last written by us, tracked without reading them back
+  private knownOriginal = createKnownContent()
+  private knownModified = createKnownContent()
   private lastKnownModifiedLineCount: number | null = null
   private pendingDiffUpdate: { original: string, modified: string, lang?: string } | null = null
 
@@ -54,12 +62,37 @@ export class DiffEditorManager {
   private revealStrategyOption?: 'bottom' | 'centerIfOutside' | 'center'
   private revealBatchOnIdleMsOption?: number
 
-  private appendBufferDiff: string[] = []
-  private appendBufferDiffScheduled = false
+  // modified line count before the first appendModified of the current frame;
+  // appends are applied right away, scrolling is coalesced to once per frame
+  private appendStartLineDiff: number | null = null
 
-  private rafScheduler = createRafScheduler()
+  private rafScheduler: RafScheduler
   private diffHeightManager: ReturnType<typeof createHeightManager> | null = null
 
+  // streaming-diff mode: only the part of the original already "caught up" by
+  // the streamed modified text lives in the original model
+  private streamingOriginal: {
+    full: string
+    lines: string[]
+    cursor: number
+    processedLines: number
+  } | null = null
+
+  private streamingListener: monaco.IDisposable | null = null
+  private streamingPlaceholderZone: string | null = null
+  private streamingPlaceholderRemaining = -1
+
+  private hunkController: DiffHunkController | null = null
+  // fading highlight of text streamed into the modified side (highlightChanges option)
+  private modifiedHighlighter: ChangeHighlighter | null = null
+
+  // latest line changes reported by the diff editor, used for stats and navigation
+  private lineChanges: monaco.editor.ILineChange[] = []
+  private currentHunkIndex = -1
+  private diffStats: DiffStats = emptyDiffStats
+  private diffStatsListeners = new Set<(stats: DiffStats) => void>()
+  private diffStatsDisposables: monaco.IDisposable[] = []
+
   constructor(
     private options: MonacoOptions,
     private maxHeightValue: number,
@@ -70,7 +103,9 @@ export class DiffEditorManager {
     private autoScrollThresholdLines: number,
     private diffAutoScroll: boolean,
     private revealDebounceMsOption?: number,
-  ) { }
+  ) {
+    this.rafScheduler = createRafScheduler(options.timeSource)
+  }
 
   private computedHeight(): number {
     if (!this.diffEditorView)
@@ -210,6 +245,10 @@ export class DiffEditorManager {
     container.style.maxHeight = this.maxHeightCSS
 
     const lang = processedLanguage(language) || language
+    if (this.options.streamingDiff) {
+      this.streamingOriginal = { full: originalCode, lines: splitOriginalLines(originalCode), cursor: 0, processedLines: 0 }
+      originalCode = ''
+    }
     this.originalModel = monaco.editor.createModel(originalCode, lang)
     this.modifiedModel = monaco.editor.createModel(modifiedCode, lang)
 
@@ -232,8 +271,18 @@ export class DiffEditorManager {
 
     this.diffEditorView.setModel({ original: this.originalModel, modified: this.modifiedModel })
 
-    this.lastKnownOriginalCode = originalCode
-    this.lastKnownModifiedCode = modifiedCode
+    this.knownOriginal.set(this.originalModel, originalCode)
+    this.knownModified.set(this.modifiedModel, modifiedCode)
+    const highlightDuration = highlightChangesDuration(this.options.highlightChanges)
+    if (highlightDuration)
+      this.modifiedHighlighter = new ChangeHighlighter(this.diffEditorView.getModifiedEditor(), this.rafScheduler, highlightDuration)
+
+    if (this.streamingOriginal) {
+      this.syncStreamingOriginal()
+      this.streamingListener = this.modifiedModel.onDidChangeContent(() => {
+        this.rafScheduler.schedule('streaming-original', () => this.syncStreamingOriginal())
+      })
+    }
 
     this.shouldAutoScrollDiff = !!(this.autoScrollInitial && this.diffAutoScroll)
     if (this.diffScrollWatcher) {
@@ -291,6 +340,30 @@ export class DiffEditorManager {
       this.diffHeightManager?.update()
     })
 
+    this.diffStatsDisposables.push(
+      this.diffEditorView.onDidUpdateDiff(() => {
+        this.lineChanges = this.diffEditorView?.getLineChanges() ?? []
+        if (this.currentHunkIndex >= this.lineChanges.length)
+          this.currentHunkIndex = this.lineChanges.length - 1
+        this.emitDiffStats()
+      }),
+      mEditor.onDidChangeCursorPosition((e) => {
+        const index = findHunkAtLine(this.lineChanges, e.position.lineNumber)
+        if (index !== this.currentHunkIndex) {
+          this.currentHunkIndex = index
+          this.emitDiffStats()
+        }
+      }),
+    )
+
+    if (this.options.diffHunkActions) {
+      this.hunkController = new DiffHunkController(this.diffEditorView, this.originalModel, this.modifiedModel, {
+        onHunkAccepted: this.options.onHunkAccepted,
+        onHunkRejected: this.options.onHunkRejected,
+        onAllResolved: this.options.onAllResolved,
+      })
+    }
+
     return this.diffEditorView
   }
 
@@ -298,6 +371,12 @@ export class DiffEditorManager {
     if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
       return
 
+    if (this.streamingOriginal) {
+      // the original is only revealed as far as the stream has progressed
+      this.setStreamingOriginal(originalCode)
+      originalCode = this.knownOriginal.get(this.originalModel)
+    }
+
     const plang = codeLanguage ? processedLanguage(codeLanguage) : undefined
     if (plang && (this.originalModel.getLanguageId() !== plang || this.modifiedModel.getLanguageId() !== plang)) {
       this.pendingDiffUpdate = { original: originalCode, modified: modifiedCode, lang: codeLanguage }
@@ -305,36 +384,33 @@ export class DiffEditorManager {
       return
     }
 
-    if (this.lastKnownOriginalCode == null)
-      this.lastKnownOriginalCode = this.originalModel.getValue()
-    if (this.lastKnownModifiedCode == null)
-      this.lastKnownModifiedCode = this.modifiedModel.getValue()
-
-    const prevO = this.lastKnownOriginalCode!
-    const prevM = this.lastKnownModifiedCode!
-    let didImmediate = false
+    const prevO = this.knownOriginal.get(this.originalModel)
+    const prevM = this.knownModified.get(this.modifiedModel)
+    // appends are applied right away, anything else waits for the next frame
+    let needsFlush = false
 
-    if (originalCode !== prevO && originalCode.startsWith(prevO)) {
-      this.appendToModel(this.originalModel, originalCode.slice(prevO.length))
-      this.lastKnownOriginalCode = originalCode
-      didImmediate = true
+    if (originalCode !== prevO) {
+      if (originalCode.startsWith(prevO))
+        this.appendToModel(this.originalModel, originalCode.slice(prevO.length))
+      else
+        needsFlush = true
     }
 
-    if (modifiedCode !== prevM && modifiedCode.startsWith(prevM)) {
-      const prevLine = this.modifiedModel.getLineCount()
-      this.appendToModel(this.modifiedModel, modifiedCode.slice(prevM.length))
-      this.lastKnownModifiedCode = modifiedCode
-      didImmediate = true
-      this.maybeScrollDiffToBottom(this.modifiedModel.getLineCount(), prevLine)
+    if (modifiedCode !== prevM) {
+      if (modifiedCode.startsWith(prevM)) {
+        const prevLine = this.modifiedModel.getLineCount()
+        this.appendToModel(this.modifiedModel, modifiedCode.slice(prevM.length))
+        this.maybeScrollDiffToBottom(this.modifiedModel.getLineCount(), prevLine)
+      }
+      else {
+        needsFlush = true
+      }
     }
 
-    if (originalCode !== this.lastKnownOriginalCode || modifiedCode !== this.lastKnownModifiedCode) {
+    if (needsFlush) {
       this.pendingDiffUpdate = { original: originalCode, modified: modifiedCode }
       this.rafScheduler.schedule('diff', () => this.flushPendingDiffUpdate())
     }
-    else if (didImmediate) {
-      // already applied
-    }
   }
 
   updateOriginal(newCode: string, codeLanguage?: string) {
@@ -345,7 +421,11 @@ export class DiffEditorManager {
       if (lang && this.originalModel.getLanguageId() !== lang)
         monaco.editor.setModelLanguage(this.originalModel, lang)
     }
-    const prev = this.lastKnownOriginalCode ?? this.originalModel.getValue()
+    if (this.streamingOriginal) {
+      this.setStreamingOriginal(newCode)
+      return
+    }
+    const prev = this.knownOriginal.get(this.originalModel)
     if (prev === newCode)
       return
     if (newCode.startsWith(prev) && prev.length < newCode.length) {
@@ -354,7 +434,6 @@ export class DiffEditorManager {
     else {
       this.applyMinimalEditToModel(this.originalModel, prev, newCode)
     }
-    this.lastKnownOriginalCode = newCode
   }
 
   updateModified(newCode: string, codeLanguage?: string) {
@@ -365,7 +444,7 @@ export class DiffEditorManager {
       if (lang && this.modifiedModel.getLanguageId() !== lang)
         monaco.editor.setModelLanguage(this.modifiedModel, lang)
     }
-    const prev = this.lastKnownModifiedCode ?? this.modifiedModel.getValue()
+    const prev = this.knownModified.get(this.modifiedModel)
     if (prev === newCode)
       return
     if (newCode.startsWith(prev) && prev.length < newCode.length) {
@@ -376,7 +455,6 @@ export class DiffEditorManager {
     else {
       this.applyMinimalEditToModel(this.modifiedModel, prev, newCode)
     }
-    this.lastKnownModifiedCode = newCode
   }
 
   appendOriginal(appendText: string, codeLanguage?: string) {
@@ -387,11 +465,11 @@ export class DiffEditorManager {
       if (lang && this.originalModel.getLanguageId() !== lang)
         monaco.editor.setModelLanguage(this.originalModel, lang)
     }
-    this.appendToModel(this.originalModel, appendText)
-    try {
-      this.lastKnownOriginalCode = this.originalModel.getValue()
+    if (this.streamingOriginal) {
+      this.setStreamingOriginal(this.streamingOriginal.full + appendText)
+      return
     }
-    catch { }
+    this.appendToModel(this.originalModel, appendText)
   }
 
   appendModified(appendText: string, codeLanguage?: string) {
@@ -402,17 +480,40 @@ export class DiffEditorManager {
       if (lang && this.modifiedModel.getLanguageId() !== lang)
         monaco.editor.setModelLanguage(this.modifiedModel, lang)
     }
+    this.appendStartLineDiff ??= this.modifiedModel.getLineCount()
     this.appendToModel(this.modifiedModel, appendText)
-    try {
-      this.lastKnownModifiedCode = this.modifiedModel.getValue()
-    }
-    catch { }
+    this.rafScheduler.schedule('appendDiff', () => this.flushAppendScrollDiff())
+  }
 
-    this.appendBufferDiff.push(appendText)
-    if (!this.appendBufferDiffScheduled) {
-      this.appendBufferDiffScheduled = true
-      this.rafScheduler.schedule('appendDiff', () => this.flushAppendBufferDiff())
-    }
+  /**
+   * Replace both sides at once, e.g. when switching between the files of a
+   * patch. Unlike updateDiff nothing is reused from the previous text and the
+   * view starts at the top instead of following the bottom.
+   */
+  setDiffContent(originalCode: string, modifiedCode: string, codeLanguage?: string) {
+    if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
+      return
+    this.disposeStreamingDiff()
+    this.rafScheduler.cancel('diff')
+    this.pendingDiffUpdate = null
+    this.rafScheduler.cancel('appendDiff')
+    this.appendStartLineDiff = null
+
+    const plang = codeLanguage ? processedLanguage(codeLanguage) : undefined
+    if (plang) {
+      if (this.originalModel.getLanguageId() !== plang)
+        monaco.editor.setModelLanguage(this.originalModel, plang)
+      if (this.modifiedModel.getLanguageId() !== plang)
+        monaco.editor.setModelLanguage(this.modifiedModel, plang)
+    }
+    this.originalModel.setValue(originalCode)
+    this.modifiedModel.setValue(modifiedCode)
+    this.knownOriginal.set(this.originalModel, originalCode)
+    this.knownModified.set(this.modifiedModel, modifiedCode)
+    this.lastKnownModifiedLineCount = this.modifiedModel.getLineCount()
+    this.currentHunkIndex = -1
+    this.shouldAutoScrollDiff = false
+    this.diffEditorView.getModifiedEditor().setScrollTop(0)
   }
 
   setLanguage(language: MonacoLanguage, languages: MonacoLanguage[]) {
@@ -426,6 +527,186 @@ export class DiffEditorManager {
       monaco.editor.setModelLanguage(this.modifiedModel, language)
   }
 
+  /**
+   * Leave streaming-diff mode: put the complete original back into the model
+   * so the editor shows the true full diff.
+   */
+  finalizeStreamingDiff() {
+    const s = this.streamingOriginal
+    if (!s)
+      return
+    this.disposeStreamingDiff()
+    if (!this.originalModel)
+      return
+    const prev = this.knownOriginal.get(this.originalModel)
+    if (prev !== s.full) {
+      if (s.full.startsWith(prev))
+        this.appendToModel(this.originalModel, s.full.slice(prev.length))
+      else
+        this.applyMinimalEditToModel(this.originalModel, prev, s.full)
+    }
+  }
+
+  isStreamingDiff() {
+    return this.streamingOriginal != null
+  }
+
+  private setStreamingOriginal(full: string) {
+    const s = this.streamingOriginal
+    if (!s || s.full === full)
+      return
+    // keep the alignment when the original only grew, otherwise start over
+    if (!full.startsWith(s.full)) {
+      s.cursor = 0
+      s.processedLines = 0
+    }
+    s.full = full
+    s.lines = splitOriginalLines(full)
+    this.syncStreamingOriginal()
+  }
+
+  private syncStreamingOriginal() {
+    const s = this.streamingOriginal
+    const o = this.originalModel
+    const m = this.modifiedModel
+    if (!s || !o || !m)
+      return
+    const streamingDiff = this.options.streamingDiff
+    const window = (typeof streamingDiff === 'object' && streamingDiff.window) || defaultStreamingDiffWindow
+    // only complete lines are aligned; the last line may still be streaming
+    const completeLines = m.getLineCount() - 1
+    if (completeLines < s.processedLines) {
+      s.cursor = 0
+      s.processedLines = 0
+    }
+    for (let ln = s.processedLines + 1; ln <= completeLines; ln++)
+      s.cursor = advanceStreamCursor(s.lines, s.cursor, m.getLineContent(ln), window)
+    s.processedLines = completeLines
+
+    const next = visibleOriginal(s.lines, s.full, s.cursor)
+    const prev = this.knownOriginal.get(o)
+    if (next !== prev) {
+      if (next.startsWith(prev))
+        this.appendToModel(o, next.slice(prev.length))
+      else
+        this.applyMinimalEditToModel(o, prev, next)
+    }
+    this.updateStreamingPlaceholder(s.lines.length - s.cursor)
+  }
+
+  private updateStreamingPlaceholder(remaining: number) {
+    const streamingDiff = this.options.streamingDiff
+    const mode = (typeof streamingDiff === 'object' && streamingDiff.pendingOriginal) || 'placeholder'
+    if (mode !== 'placeholder' || !this.diffEditorView || !this.originalModel)
+      return
+    if (remaining === this.streamingPlaceholderRemaining)
+      return
+    this.streamingPlaceholderRemaining = remaining
+    const afterLineNumber = this.originalModel.getLineCount()
+    this.diffEditorView.getOriginalEditor().changeViewZones((accessor) => {
+      if (this.streamingPlaceholderZone) {
+        accessor.removeZone(this.streamingPlaceholderZone)
+        this.streamingPlaceholderZone = null
+      }
+      if (remaining <= 0)
+        return
+      const domNode = document.createElement('div')
+      domNode.className = 'monaco-streaming-diff-pending'
+      domNode.style.opacity = '0.6'
+      domNode.style.fontStyle = 'italic'
+      domNode.style.paddingLeft = '8px'
+      domNode.textContent = `\u2026 ${remaining} more line${remaining === 1 ? '' : 's'} pending`
+      this.streamingPlaceholderZone = accessor.addZone({ afterLineNumber, heightInLines: 1, domNode })
+    })
+  }
+
+  private disposeStreamingDiff() {
+    this.streamingOriginal = null
+    this.rafScheduler.cancel('streaming-original')
+    if (this.streamingListener) {
+      this.streamingListener.dispose()
+      this.streamingListener = null
+    }
+    if (this.streamingPlaceholderZone && this.diffEditorView) {
+      const id = this.streamingPlaceholderZone
+      try {
+        this.diffEditorView.getOriginalEditor().changeViewZones(accessor => accessor.removeZone(id))
+      }
+      catch { }
+    }
+    this.streamingPlaceholderZone = null
+    this.streamingPlaceholderRemaining = -1
+  }
+
+  getDiffStats() {
+    return this.diffStats
+  }
+
+  /** Subscribe to diff statistics; the listener runs after every diff recompute. */
+  onDidChangeDiffStats(listener: (stats: DiffStats) => void): monaco.IDisposable {
+    this.diffStatsListeners.add(listener)
+    return { dispose: () => this.diffStatsListeners.delete(listener) }
+  }
+
+  /** Reveal the next hunk in the modified editor (wraps around). Returns its index or -1. */
+  goToNextChange() {
+    if (!this.lineChanges.length)
+      return -1
+    return this.revealHunk((this.currentHunkIndex + 1) % this.lineChanges.length)
+  }
+
+  /** Reveal the previous hunk in the modified editor (wraps around). Returns its index or -1. */
+  goToPreviousChange() {
+    const count = this.lineChanges.length
+    if (!count)
+      return -1
+    return this.revealHunk(this.currentHunkIndex <= 0 ? count - 1 : this.currentHunkIndex - 1)
+  }
+
+  private revealHunk(index: number) {
+    const change = this.lineChanges[index]
+    if (!change || !this.diffEditorView)
+      return -1
+    const me = this.diffEditorView.getModifiedEditor()
+    const line = change.modifiedEndLineNumber === 0
+      ? Math.max(1, change.modifiedStartLineNumber)
+      : change.modifiedStartLineNumber
+    // navigating is an explicit user action: stop following the stream
+    this.shouldAutoScrollDiff = false
+    me.setPosition({ lineNumber: line, column: 1 })
+    me.revealLineInCenter(line)
+    // set after moving the caret: for deletions the cursor listener resolves
+    // the anchor line to the previous hunk
+    this.currentHunkIndex = index
+    this.emitDiffStats()
+    return index
+  }
+
+  private emitDiffStats() {
+    this.diffStats = computeDiffStats(this.lineChanges, this.currentHunkIndex)
+    this.diffStatsListeners.forEach(l => l(this.diffStats))
+  }
+
+  acceptHunk(index: number) {
+    this.hunkController?.accept(index)
+  }
+
+  rejectHunk(index: number) {
+    this.hunkController?.reject(index)
+  }
+
+  getDiffHunks() {
+    return this.hunkController?.getHunks() ?? []
+  }
+
+  getResolvedText() {
+    return this.hunkController?.getResultText() ?? null
+  }
+
+  getResultModel() {
+    return this.hunkController?.getResultModel() ?? null
+  }
+
   getDiffEditorView() {
     return this.diffEditorView
   }
@@ -438,8 +719,7 @@ export class DiffEditorManager {
     this.rafScheduler.cancel('diff')
     this.pendingDiffUpdate = null
     this.rafScheduler.cancel('appendDiff')
-    this.appendBufferDiffScheduled = false
-    this.appendBufferDiff.length = 0
+    this.appendStartLineDiff = null
 
     if (this.diffScrollWatcher) {
       this.diffScrollWatcher.dispose()
@@ -451,6 +731,23 @@ export class DiffEditorManager {
       this.diffHeightManager = null
     }
 
+    this.disposeStreamingDiff()
+
+    if (this.hunkController) {
+      this.hunkController.dispose()
+      this.hunkController = null
+    }
+
+    this.diffStatsDisposables.forEach(d => d.dispose())
+    this.diffStatsDisposables = []
+    this.lineChanges = []
+    this.currentHunkIndex = -1
+    this.emitDiffStats()
+
+    if (this.modifiedHighlighter) {
+      this.modifiedHighlighter.dispose()
+      this.modifiedHighlighter = null
+    }
     if (this.diffEditorView) {
       this.diffEditorView.dispose()
       this.diffEditorView = null
@@ -464,8 +761,8 @@ export class DiffEditorManager {
       this.modifiedModel = null
     }
 
-    this.lastKnownOriginalCode = null
-    this.lastKnownModifiedCode = null
+    this.knownOriginal.invalidate()
+    this.knownModified.invalidate()
     if (this.lastContainer) {
       this.lastContainer.innerHTML = ''
       this.lastContainer = null
@@ -525,12 +822,7 @@ export class DiffEditorManager {
       }
     }
 
-    if (this.lastKnownOriginalCode == null)
-      this.lastKnownOriginalCode = o.getValue()
-    if (this.lastKnownModifiedCode == null)
-      this.lastKnownModifiedCode = m.getValue()
-
-    const prevO = this.lastKnownOriginalCode!
+    const prevO = this.knownOriginal.get(o)
     if (prevO !== original) {
       if (original.startsWith(prevO) && prevO.length < original.length) {
         this.appendToModel(o, original.slice(prevO.length))
@@ -538,10 +830,9 @@ export class DiffEditorManager {
       else {
         this.applyMinimalEditToModel(o, prevO, original)
       }
-      this.lastKnownOriginalCode = original
     }
 
-    const prevM = this.lastKnownModifiedCode!
+    const prevM = this.knownModified.get(m)
     const prevMLineCount = m.getLineCount()
     if (prevM !== modified) {
       if (modified.startsWith(prevM) && prevM.length < modified.length) {
@@ -550,7 +841,6 @@ export class DiffEditorManager {
       else {
         this.applyMinimalEditToModel(m, prevM, modified)
       }
-      this.lastKnownModifiedCode = modified
       const newMLineCount = m.getLineCount()
       if (newMLineCount !== prevMLineCount) {
         this.maybeScrollDiffToBottom(newMLineCount, prevMLineCount)
@@ -558,52 +848,39 @@ export class DiffEditorManager {
     }
   }
 
-  private flushAppendBufferDiff() {
-    if (!this.diffEditorView)
-      return
-    if (this.appendBufferDiff.length === 0)
-      return
-    this.appendBufferDiffScheduled = false
-    const me = this.diffEditorView.getModifiedEditor()
-    const model = me.getModel()
-    if (!model) {
-      this.appendBufferDiff.length = 0
+  private flushAppendScrollDiff() {
+    const prevLine = this.appendStartLineDiff
+    this.appendStartLineDiff = null
+    const model = this.modifiedModel
+    if (!this.diffEditorView || !model || prevLine == null)
       return
-    }
-    const text = this.appendBufferDiff.join('')
-    this.appendBufferDiff.length = 0
-    try {
-      const prevLine = model.getLineCount()
-      const lastColumn = model.getLineMaxColumn(prevLine)
-      const range = new monaco.Range(prevLine, lastColumn, prevLine, lastColumn)
-      model.applyEdits([{ range, text, forceMoveMarkers: true }])
-      if (this.lastKnownModifiedCode != null)
-        this.lastKnownModifiedCode = this.lastKnownModifiedCode + text
-
-      const newLine = model.getLineCount()
-      // schedule a short RAF task to allow the editor to update layout/scroll heights
-      // before we check for vertical scrollbar and potentially auto-scroll.
-      this.maybeScrollDiffToBottom(newLine, prevLine)
-      // keep internal line count cache in sync
-      this.lastKnownModifiedLineCount = newLine
-    }
-    catch { }
+    const newLine = model.getLineCount()
+    this.maybeScrollDiffToBottom(newLine, prevLine)
+    this.lastKnownModifiedLineCount = newLine
+  }
+
+  private knownContentFor(model: monaco.editor.ITextModel) {
+    return model === this.modifiedModel ? this.knownModified : this.knownOriginal
   }
 
   private applyMinimalEditToModel(model: monaco.editor.ITextModel, prev: string, next: string) {
-    const res = computeMinimalEdit(prev, next)
-    if (!res)
+    const edits = computeMinimalEdits(prev, next)
+    if (!edits.length)
       return
-    const { start, endPrevIncl, replaceText } = res
-    const rangeStart = model.getPositionAt(start)
-    const rangeEnd = model.getPositionAt(endPrevIncl + 1)
-    const range = new monaco.Range(
-      rangeStart.lineNumber,
-      rangeStart.column,
-      rangeEnd.lineNumber,
-      rangeEnd.column,
-    )
-    model.applyEdits([{ range, text: replaceText, forceMoveMarkers: true }])
+    model.applyEdits(edits.map(({ start, endPrevIncl, replaceText }) => {
+      const rangeStart = model.getPositionAt(start)
+      const rangeEnd = model.getPositionAt(endPrevIncl + 1)
+      const range = new monaco.Range(
+        rangeStart.lineNumber,
+        rangeStart.column,
+        rangeEnd.lineNumber,
+        rangeEnd.column,
+      )
+      return { range, text: replaceText, forceMoveMarkers: true }
+    }))
+    this.knownContentFor(model).set(model, next)
+    if (model === this.modifiedModel && this.modifiedHighlighter)
+      insertedRanges(model, edits).forEach(range => this.modifiedHighlighter!.mark(range))
     try {
       if (model === this.modifiedModel) {
         this.lastKnownModifiedLineCount = model.getLineCount()
@@ -618,7 +895,13 @@ export class DiffEditorManager {
     const lastLine = model.getLineCount()
     const lastColumn = model.getLineMaxColumn(lastLine)
     const range = new monaco.Range(lastLine, lastColumn, lastLine, lastColumn)
+    const versionBefore = model.getVersionId()
     model.applyEdits([{ range, text: appendText, forceMoveMarkers: true }])
+    this.knownContentFor(model).append(model, appendText, versionBefore)
+    if (model === this.modifiedModel && this.modifiedHighlighter) {
+      const endLine = model.getLineCount()
+      this.modifiedHighlighter.mark(new monaco.Range(lastLine, lastColumn, endLine, model.getLineMaxColumn(endLine)))
+    }
     try {
       if (model === this.modifiedModel) {
         this.lastKnownModifiedLineCount = model.getLineCount()
@@ -627,3 +910,11 @@ export class DiffEditorManager {
     catch { }
   }
 }
+
+function splitOriginalLines(text: string) {
+  const lines = text.split(/\r?\n/)
+  // a trailing line break does not start another line worth aligning
+  if (lines.length > 1 && lines[lines.length - 1] === '')
+    lines.pop()
+  return lines
+}
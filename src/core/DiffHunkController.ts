@@ -0,0 +1,176 @@
+import type { DiffHunk, HunkDecision } from '../utils/hunks'
+import { computeMinimalEdit } from '../minimalEdit'
+import * as monaco from '../monaco-shim'
+import { createActionBar } from '../utils/actionBar'
+import { applyHunkDecisions, hunkKey } from '../utils/hunks'
+
+export interface DiffHunkCallbacks {
+  onHunkAccepted?: (hunk: DiffHunk) => void
+  onHunkRejected?: (hunk: DiffHunk) => void
+  onAllResolved?: (resultText: string) => void
+}
+
+/**
+ * Per-hunk accept/reject for a diff editor.
+ *
+ * Hunks come from the diff editor's line changes and are refreshed every
+ * time the diff is recomputed; decisions survive re-diffs as long as the hunk
+ * text is unchanged. Accepted hunks are applied into a separate result model
+ * that starts out as a copy of the original.
+ */
+export class DiffHunkController {
+  private hunks: DiffHunk[] = []
+  private decisions = new Map<string, HunkDecision>()
+  private keys: string[] = []
+  private resultModel: monaco.editor.ITextModel
+  private zoneIds: string[] = []
+  private diffListener: monaco.IDisposable | null = null
+  private allResolvedNotified = false
+
+  constructor(
+    private diffEditor: monaco.editor.IStandaloneDiffEditor,
+    private originalModel: monaco.editor.ITextModel,
+    private modifiedModel: monaco.editor.ITextModel,
+    private callbacks: DiffHunkCallbacks = {},
+    private showControls = true,
+  ) {
+    this.resultModel = monaco.editor.createModel(originalModel.getValue(), originalModel.getLanguageId())
+    this.diffListener = diffEditor.onDidUpdateDiff(() => this.refresh())
+    this.refresh()
+  }
+
+  getHunks(): DiffHunk[] {
+    return this.hunks.map(h => ({ ...h }))
+  }
+
+  getResultModel() {
+    return this.resultModel
+  }
+
+  getResultText() {
+    return this.resultModel.getValue()
+  }
+
+  accept(index: number) {
+    this.decide(index, 'accepted')
+  }
+
+  reject(index: number) {
+    this.decide(index, 'rejected')
+  }
+
+  private decide(index: number, decision: 'accepted' | 'rejected') {
+    const hunk = this.hunks[index]
+    if (!hunk || hunk.decision === decision)
+      return
+    hunk.decision = decision
+    this.decisions.set(this.keys[index], decision)
+    this.syncResult()
+    this.renderControls()
+    if (decision === 'accepted')
+      this.callbacks.onHunkAccepted?.({ ...hunk })
+    else
+      this.callbacks.onHunkRejected?.({ ...hunk })
+    this.maybeNotifyAllResolved()
+  }
+
+  private refresh() {
+    const changes = this.diffEditor.getLineChanges() ?? []
+    const originalLines = this.originalModel.getLinesContent()
+    const modifiedLines = this.modifiedModel.getLinesContent()
+    this.keys = changes.map(c => hunkKey(c, originalLines, modifiedLines))
+    // forget decisions for hunks that no longer exist
+    const live = new Set(this.keys)
+    for (const key of [...this.decisions.keys()]) {
+      if (!live.has(key))
+        this.decisions.delete(key)
+    }
+    this.hunks = changes.map((c, index) => ({
+      index,
+      originalStartLineNumber: c.originalStartLineNumber,
+      originalEndLineNumber: c.originalEndLineNumber,
+      modifiedStartLineNumber: c.modifiedStartLineNumber,
+      modifiedEndLineNumber: c.modifiedEndLineNumber,
+      decision: this.decisions.get(this.keys[index]) ?? 'pending',
+    }))
+    this.allResolvedNotified = false
+    this.syncResult()
+    this.renderControls()
+  }
+
+  private syncResult() {
+    const next = applyHunkDecisions(
+      this.originalModel.getValue(),
+      this.modifiedModel.getValue(),
+      this.hunks,
+      this.hunks.map(h => h.decision),
+    )
+    const prev = this.resultModel.getValue()
+    const res = computeMinimalEdit(prev, next)
+    if (!res)
+      return
+    const start = this.resultModel.getPositionAt(res.start)
+    const end = this.resultModel.getPositionAt(res.endPrevIncl + 1)
+    this.resultModel.applyEdits([{
+      range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+      text: res.replaceText,
+    }])
+  }
+
+  private maybeNotifyAllResolved() {
+    if (this.allResolvedNotified || !this.hunks.length)
+      return
+    if (this.hunks.every(h => h.decision !== 'pending')) {
+      this.allResolvedNotified = true
+      this.callbacks.onAllResolved?.(this.getResultText())
+    }
+  }
+
+  private renderControls() {
+    if (!this.showControls)
+      return
+    const editor = this.diffEditor.getModifiedEditor()
+    editor.changeViewZones((accessor) => {
+      this.zoneIds.forEach(id => accessor.removeZone(id))
+      this.zoneIds = []
+      for (const hunk of this.hunks) {
+        if (hunk.decision !== 'pending')
+          continue
+        // deletions have no modified lines: the zone goes after the anchor line
+        const afterLineNumber = hunk.modifiedEndLineNumber === 0
+          ? hunk.modifiedStartLineNumber
+          : hunk.modifiedStartLineNumber - 1
+        this.zoneIds.push(accessor.addZone({
+          afterLineNumber,
+          heightInLines: 1.5,
+          domNode: this.createControls(hunk.index),
+        }))
+      }
+    })
+  }
+
+  private createControls(index: number) {
+    return createActionBar('monaco-diff-hunk-actions', [
+      { label: 'Accept', run: () => this.accept(index) },
+      { label: 'Reject', run: () => this.reject(index) },
+    ])
+  }
+
+  dispose() {
+    if (this.diffListener) {
+      this.diffListener.dispose()
+      this.diffListener = null
+    }
+    if (this.zoneIds.length) {
+      const ids = this.zoneIds
+      this.zoneIds = []
+      try {
+        this.diffEditor.getModifiedEditor().changeViewZones(accessor => ids.forEach(id => accessor.removeZone(id)))
+      }
+      catch { }
+    }
+    this.resultModel.dispose()
+    this.hunks = []
+    this.decisions.clear()
+  }
+}
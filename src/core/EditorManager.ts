@@ -1,17 +1,22 @@
 import type { MonacoLanguage, MonacoOptions } from '../type'
+import type { RafScheduler } from '../utils/raf'
 import { processedLanguage } from '../code.detect'
 import { defaultRevealDebounceMs, defaultScrollbar, padding } from '../constant'
-import { computeMinimalEdit } from '../minimalEdit'
+import { computeMinimalEdits } from '../minimalEdit'
 import * as monaco from '../monaco-shim'
-import { createHeightManager } from '../utils/height'
+import { computeEditorHeight, createHeightManager } from '../utils/height'
+import { createKnownContent } from '../utils/knownContent'
 import { createRafScheduler } from '../utils/raf'
 import { createScrollWatcherForEditor } from '../utils/scroll'
+import { AnsiRenderer } from './AnsiRenderer'
+import { ChangeHighlighter, highlightChangesDuration, insertedRanges } from './ChangeHighlighter'
 
 export class EditorManager {
   private editorView: monaco.editor.IStandaloneCodeEditor | null = null
   private lastContainer: HTMLElement | null = null
-  private lastKnownCode: string | null = null
-  private pendingUpdate: { code: string, lang: string } | null = null
+  // text of the model as last written by us, tracked without reading it back
+  private knownCode = createKnownContent()
+  private pendingUpdate: { code: string, lang?: string } | null = null
   private _hasScrollBar = false
 
   private shouldAutoScroll = true
@@ -23,6 +28,17 @@ export class EditorManager {
   private cachedComputedHeight: number | null = null
   private cachedLineCount: number | null = null
 
+  // tail mode (options.maxLines): lines trimmed from the head of the model so far
+  private trimmedLines = 0
+  private trimmedLinesListeners = new Set<(trimmed: number) => void>()
+  private hiddenLinesZone: string | null = null
+  private adjustingScroll = false
+
+  // set while appendCode / updateCode use the 'ansi' pseudo-language
+  private ansi: AnsiRenderer | null = null
+  // fading highlight of streamed text (highlightChanges option)
+  private highlighter: ChangeHighlighter | null = null
+
   // read a small set of viewport/layout metrics once to avoid repeated DOM reads
   private measureViewport() {
     if (!this.editorView)
@@ -42,10 +58,11 @@ export class EditorManager {
     return { li, lineHeight, scrollTop, scrollHeight, computedHeight }
   }
 
-  private appendBuffer: string[] = []
-  private appendBufferScheduled = false
+  // line count before the first append of the current frame; appends are
+  // applied right away, scrolling is coalesced to once per frame
+  private appendStartLine: number | null = null
 
-  private rafScheduler = createRafScheduler()
+  private rafScheduler: RafScheduler
   private editorHeightManager: ReturnType<typeof createHeightManager> | null = null
   // debounce id for reveal to coalesce rapid calls (ms)
   private revealDebounceId: number | null = null
@@ -64,7 +81,9 @@ export class EditorManager {
     private autoScrollThresholdPx: number,
     private autoScrollThresholdLines: number,
     private revealDebounceMsOption?: number,
-  ) { }
+  ) {
+    this.rafScheduler = createRafScheduler(options.timeSource)
+  }
 
   private hasVerticalScrollbar(): boolean {
     if (!this.editorView)
@@ -92,8 +111,7 @@ export class EditorManager {
   private computedHeight(editorView: monaco.editor.IStandaloneCodeEditor) {
     const lineCount = this.cachedLineCount ?? editorView.getModel()?.getLineCount() ?? 1
     const lineHeight = editorView.getOption(monaco.editor.EditorOption.lineHeight)
-    const height = Math.min(lineCount * lineHeight + padding, this.maxHeightValue)
-    return height
+    return computeEditorHeight(lineCount, lineHeight, this.maxHeightValue)
   }
 
   private maybeScrollToBottom(targetLine?: number) {
@@ -197,7 +215,10 @@ export class EditorManager {
     })
     monaco.editor.setTheme(currentTheme)
 
-    this.lastKnownCode = this.editorView.getValue()
+    this.knownCode.set(this.editorView.getModel()!, this.editorView.getValue())
+    const highlightDuration = highlightChangesDuration(this.options.highlightChanges)
+    if (highlightDuration)
+      this.highlighter = new ChangeHighlighter(this.editorView, this.rafScheduler, highlightDuration)
 
     if (this.editorHeightManager) {
       try {
@@ -234,7 +255,6 @@ export class EditorManager {
     })
 
     this.editorView.onDidChangeModelContent(() => {
-      this.lastKnownCode = this.editorView!.getValue()
       this.cachedLineCount = this.editorView?.getModel()?.getLineCount() ?? this.cachedLineCount
     })
 
@@ -244,8 +264,13 @@ export class EditorManager {
       this.scrollWatcher = null
     }
     this.scrollWatcher = createScrollWatcherForEditor(this.editorView, {
-      onPause: () => { this.shouldAutoScroll = false },
+      onPause: () => {
+        if (!this.adjustingScroll)
+          this.shouldAutoScroll = false
+      },
       onMaybeResume: () => {
+        if (this.adjustingScroll)
+          return
         // defer the expensive userIsNearBottom check to the raf scheduler
         this.rafScheduler.schedule('maybe-resume', () => {
           this.shouldAutoScroll = this.userIsNearBottom()
@@ -255,12 +280,18 @@ export class EditorManager {
       setLast: (v: number) => { this.lastScrollTop = v },
     })
 
+    if (this.tailMode()) {
+      this.editorView.updateOptions({ lineNumbers: this.tailLineNumbers() })
+      this.trimHead(this.editorView.getModel()!)
+    }
+
     this.maybeScrollToBottom()
 
     return this.editorView
   }
 
-  updateCode(newCode: string, codeLanguage: string) {
+  /** Without a language the model keeps the one it has. */
+  updateCode(newCode: string, codeLanguage?: string) {
     this.pendingUpdate = { code: newCode, lang: codeLanguage }
     this.rafScheduler.schedule('update', () => this.flushPendingUpdate())
   }
@@ -274,15 +305,15 @@ export class EditorManager {
 
     const { code: newCode, lang: codeLanguage } = this.pendingUpdate
     this.pendingUpdate = null
-    const processedCodeLanguage = processedLanguage(codeLanguage)
     const languageId = model.getLanguageId()
+    const processedCodeLanguage = codeLanguage ? processedLanguage(codeLanguage) : languageId
 
     if (languageId !== processedCodeLanguage) {
       if (processedCodeLanguage)
         monaco.editor.setModelLanguage(model, processedCodeLanguage)
       const prevLineCount = model.getLineCount()
       model.setValue(newCode)
-      this.lastKnownCode = newCode
+      this.knownCode.set(model, newCode)
       const newLineCount = model.getLineCount()
       this.cachedLineCount = newLineCount
       if (newLineCount !== prevLineCount) {
@@ -291,21 +322,18 @@ export class EditorManager {
       return
     }
 
-    const prevCode = this.lastKnownCode ?? this.editorView.getValue()
+    const prevCode = this.knownCode.get(model)
     if (prevCode === newCode)
       return
 
     if (newCode.startsWith(prevCode) && prevCode.length < newCode.length) {
-      const suffix = newCode.slice(prevCode.length)
-      if (suffix)
-        this.appendCode(suffix, codeLanguage)
-      this.lastKnownCode = newCode
+      this.appendCode(newCode.slice(prevCode.length), codeLanguage)
       return
     }
 
     const prevLineCount = model.getLineCount()
     this.applyMinimalEdit(prevCode, newCode)
-    this.lastKnownCode = newCode
+    this.knownCode.set(model, newCode)
     const newLineCount = model.getLineCount()
     this.cachedLineCount = newLineCount
     if (newLineCount !== prevLineCount) {
@@ -324,29 +352,27 @@ export class EditorManager {
     if (processedCodeLanguage && model.getLanguageId() !== processedCodeLanguage)
       monaco.editor.setModelLanguage(model, processedCodeLanguage)
 
+    if (!appendText)
+      return
+    this.appendStartLine ??= model.getLineCount()
+    this.appendToModel(model, appendText)
+    this.rafScheduler.schedule('append', () => this.flushAppendScroll())
+  }
+
+  private appendToModel(model: monaco.editor.ITextModel, text: string) {
     const lastLine = model.getLineCount()
     const lastColumn = model.getLineMaxColumn(lastLine)
     const range = new monaco.Range(lastLine, lastColumn, lastLine, lastColumn)
-
-    const isReadOnly = this.editorView.getOption(monaco.editor.EditorOption.readOnly)
-    if (isReadOnly) {
-      model.applyEdits([{ range, text: appendText, forceMoveMarkers: true }])
-    }
-    else {
-      this.editorView.executeEdits('append', [{ range, text: appendText, forceMoveMarkers: true }])
-    }
-
-    try {
-      this.lastKnownCode = model.getValue()
-    }
-    catch { }
-
-    if (appendText) {
-      this.appendBuffer.push(appendText)
-      if (!this.appendBufferScheduled) {
-        this.appendBufferScheduled = true
-        this.rafScheduler.schedule('append', () => this.flushAppendBuffer())
-      }
+    const versionBefore = model.getVersionId()
+    const isReadOnly = this.editorView!.getOption(monaco.editor.EditorOption.readOnly)
+    if (isReadOnly)
+      model.applyEdits([{ range, text, forceMoveMarkers: true }])
+    else
+      this.editorView!.executeEdits('append', [{ range, text, forceMoveMarkers: true }])
+    this.knownCode.append(model, text, versionBefore)
+    if (this.highlighter) {
+      const endLine = model.getLineCount()
+      this.highlighter.mark(new monaco.Range(lastLine, lastColumn, endLine, model.getLineMaxColumn(endLine)))
     }
   }
 
@@ -357,57 +383,235 @@ export class EditorManager {
     if (!model)
       return
 
-    const res = computeMinimalEdit(prev, next)
-    if (!res)
+    const edits = computeMinimalEdits(prev, next)
+    const edit = edits.map(({ start, endPrevIncl, replaceText }) => {
+      const rangeStart = model.getPositionAt(start)
+      const rangeEnd = model.getPositionAt(endPrevIncl + 1)
+      const range = new monaco.Range(
+        rangeStart.lineNumber,
+        rangeStart.column,
+        rangeEnd.lineNumber,
+        rangeEnd.column,
+      )
+      return { range, text: replaceText, forceMoveMarkers: true }
+    })
+    if (!edit.length)
       return
-    const { start, endPrevIncl, replaceText } = res
-    const rangeStart = model.getPositionAt(start)
-    const rangeEnd = model.getPositionAt(endPrevIncl + 1)
-    const range = new monaco.Range(
-      rangeStart.lineNumber,
-      rangeStart.column,
-      rangeEnd.lineNumber,
-      rangeEnd.column,
-    )
 
     const isReadOnly = this.editorView.getOption(monaco.editor.EditorOption.readOnly)
-    const edit = [{ range, text: replaceText, forceMoveMarkers: true }]
     if (isReadOnly)
       model.applyEdits(edit)
     else this.editorView.executeEdits('minimal-replace', edit)
+    if (this.highlighter)
+      insertedRanges(model, edits).forEach(range => this.highlighter!.mark(range))
   }
 
-  private flushAppendBuffer() {
-    if (!this.editorView)
-      return
-    if (this.appendBuffer.length === 0)
-      return
-    this.appendBufferScheduled = false
-    const model = this.editorView.getModel()
-    if (!model) {
-      this.appendBuffer.length = 0
+  private flushAppendScroll() {
+    const startLine = this.appendStartLine
+    this.appendStartLine = null
+    const model = this.editorView?.getModel()
+    if (!model || startLine == null)
       return
+    if (startLine !== model.getLineCount()) {
+      const newLineCount = this.trimHead(model)
+      this.cachedLineCount = newLineCount
+      this.maybeScrollToBottom(newLineCount)
     }
-    const text = this.appendBuffer.join('')
-    this.appendBuffer.length = 0
-    const lastLine = model.getLineCount()
-    const lastColumn = model.getLineMaxColumn(lastLine)
-    const range = new monaco.Range(lastLine, lastColumn, lastLine, lastColumn)
-    const isReadOnly = this.editorView.getOption(monaco.editor.EditorOption.readOnly)
-    if (isReadOnly) {
-      model.applyEdits([{ range, text, forceMoveMarkers: true }])
+  }
+
+  private tailMode() {
+    return (this.options.maxLines ?? 0) > 0
+  }
+
+  // line numbers continue from the trimmed head; a custom renderer gets the true number
+  private tailLineNumbers(): monaco.editor.LineNumbersType {
+    const custom = this.options.lineNumbers
+    if (custom === 'off' || custom === 'relative')
+      return custom
+    const offset = this.trimmedLines
+    return (lineNumber: number) => typeof custom === 'function'
+      ? custom(lineNumber + offset)
+      : String(lineNumber + offset)
+  }
+
+  /**
+   * Tail mode: drop the oldest lines beyond `maxLines` and keep the visible
+   * content where it was. Only while auto-scroll is active, so a user reading
+   * earlier output is not disturbed. Returns the line count afterwards.
+   */
+  private trimHead(model: monaco.editor.ITextModel) {
+    const lineCount = model.getLineCount()
+    const excess = lineCount - (this.options.maxLines ?? 0)
+    if (!this.tailMode() || excess <= 0 || !this.shouldAutoScroll || !this.editorView)
+      return lineCount
+    this.keepScrollAnchor(-excess, () => {
+      model.applyEdits([{ range: new monaco.Range(1, 1, excess + 1, 1), text: '' }])
+      this.ansi?.linesRemovedAbove(excess)
+      this.highlighter?.linesRemovedAbove(excess)
+      // the tracked text no longer starts where the caller's text does
+      this.knownCode.invalidate()
+      this.setTrimmedLines(this.trimmedLines + excess)
+    })
+    return model.getLineCount()
+  }
+
+  /**
+   * Tail mode: ask `options.onLoadEarlier` for the lines just before the
+   * current first line and prepend them. Resolves to the number of lines
+   * added (0 when nothing was hidden, loaded or the editor changed meanwhile).
+   */
+  async loadEarlierLines() {
+    const load = this.options.onLoadEarlier
+    const editor = this.editorView
+    const hidden = this.trimmedLines
+    if (!load || !editor || hidden <= 0)
+      return 0
+    const text = await load(hidden)
+    const model = editor.getModel()
+    // trimmed again or disposed while loading: the text no longer lines up
+    if (!text || !model || this.editorView !== editor || this.trimmedLines !== hidden)
+      return 0
+    const lines = (text.endsWith('\n') ? text : `${text}\n`).split('\n').slice(0, -1).slice(-hidden)
+    this.keepScrollAnchor(lines.length, () => {
+      model.applyEdits([{ range: new monaco.Range(1, 1, 1, 1), text: `${lines.join('\n')}\n` }])
+      this.ansi?.linesAddedAbove(lines.length)
+      this.highlighter?.linesAddedAbove(lines.length)
+      this.knownCode.invalidate()
+      this.setTrimmedLines(hidden - lines.length)
+    })
+    this.cachedLineCount = model.getLineCount()
+    return lines.length
+  }
+
+  isAnsiMode() {
+    return this.ansi != null
+  }
+
+  /**
+   * Switch the 'ansi' pseudo-language on or off. While on, appended text is
+   * parsed as terminal output and the model stays plain text; switching off
+   * keeps the text and drops the color decorations.
+   */
+  setAnsiMode(enabled: boolean) {
+    const model = this.editorView?.getModel()
+    if (!model || enabled === this.isAnsiMode())
+      return
+    if (enabled) {
+      if (model.getLanguageId() !== 'plaintext')
+        monaco.editor.setModelLanguage(model, 'plaintext')
+      this.ansi = new AnsiRenderer(this.editorView!, !this.tailMode())
     }
     else {
-      this.editorView.executeEdits('append', [{ range, text, forceMoveMarkers: true }])
+      this.ansi!.dispose()
+      this.ansi = null
     }
-    if (this.lastKnownCode != null) {
-      this.lastKnownCode = this.lastKnownCode + text
+  }
+
+  appendAnsi(text: string) {
+    const model = this.editorView?.getModel()
+    if (!model || !this.ansi || !text)
+      return
+    this.appendStartLine ??= model.getLineCount()
+    const range = this.ansi.write(text)
+    if (range)
+      this.highlighter?.mark(range)
+    // the model holds the rendered text, not what the caller sent
+    this.knownCode.invalidate()
+    this.rafScheduler.schedule('append', () => this.flushAppendScroll())
+  }
+
+  /** `updateCode` for ANSI output: appends the new suffix, or starts over when the text was not extended. */
+  updateAnsi(text: string) {
+    const model = this.editorView?.getModel()
+    if (!model || !this.ansi)
+      return
+    const raw = this.ansi.getRawText()
+    if (raw && text.startsWith(raw)) {
+      this.appendAnsi(text.slice(raw.length))
+      return
     }
-    const newLineCount = model.getLineCount()
-    if (lastLine !== newLineCount) {
-      this.cachedLineCount = newLineCount
-      this.maybeScrollToBottom(newLineCount)
+    model.setValue('')
+    this.ansi.reset()
+    this.setTrimmedLines(0)
+    this.appendAnsi(text)
+  }
+
+  /** Terminal colors of the current theme, see `ansiPalette`. */
+  setAnsiPalette(palette: (string | undefined)[]) {
+    this.ansi?.setPalette(palette)
+  }
+
+  getTrimmedLines() {
+    return this.trimmedLines
+  }
+
+  /** Subscribe to the number of lines trimmed by tail mode. */
+  onDidChangeTrimmedLines(listener: (trimmed: number) => void): monaco.IDisposable {
+    this.trimmedLinesListeners.add(listener)
+    return { dispose: () => this.trimmedLinesListeners.delete(listener) }
+  }
+
+  private setTrimmedLines(trimmed: number) {
+    if (trimmed === this.trimmedLines)
+      return
+    this.trimmedLines = trimmed
+    this.editorView?.updateOptions({ lineNumbers: this.tailLineNumbers() })
+    this.updateHiddenLinesBanner()
+    this.trimmedLinesListeners.forEach(fn => fn(trimmed))
+  }
+
+  /**
+   * Run an edit that adds (`shift` > 0) or removes lines above the viewport
+   * and keep the line at its top in place. Scroll events fired meanwhile are
+   * ours, so the scroll watcher ignores them instead of pausing auto-scroll.
+   */
+  private keepScrollAnchor(shift: number, edit: () => void) {
+    const editor = this.editorView!
+    const anchor = editor.getVisibleRanges()[0]?.startLineNumber ?? 1
+    const offset = editor.getScrollTop() - editor.getTopForLineNumber(anchor)
+    this.adjustingScroll = true
+    try {
+      edit()
+      // the anchor line itself was trimmed: show the new first line
+      const top = anchor + shift >= 1 ? editor.getTopForLineNumber(anchor + shift) + offset : 0
+      this.lastScrollTop = Math.max(0, top)
+      editor.setScrollTop(this.lastScrollTop)
     }
+    finally {
+      this.adjustingScroll = false
+    }
+  }
+
+  private updateHiddenLinesBanner() {
+    const editor = this.editorView
+    if (!editor)
+      return
+    const hidden = this.trimmedLines
+    editor.changeViewZones((accessor) => {
+      if (this.hiddenLinesZone) {
+        accessor.removeZone(this.hiddenLinesZone)
+        this.hiddenLinesZone = null
+      }
+      if (hidden <= 0)
+        return
+      const domNode = document.createElement('div')
+      domNode.className = 'monaco-tail-hidden-lines'
+      domNode.style.opacity = '0.6'
+      domNode.style.fontStyle = 'italic'
+      domNode.style.paddingLeft = '8px'
+      domNode.textContent = `\u2026 ${hidden} earlier line${hidden === 1 ? '' : 's'} hidden`
+      if (this.options.onLoadEarlier) {
+        const button = document.createElement('a')
+        button.className = 'monaco-tail-load-earlier'
+        button.style.cursor = 'pointer'
+        button.style.marginLeft = '8px'
+        button.style.textDecoration = 'underline'
+        button.textContent = 'Load earlier'
+        button.addEventListener('click', () => void this.loadEarlierLines())
+        domNode.append(button)
+      }
+      this.hiddenLinesZone = accessor.addZone({ afterLineNumber: 0, heightInLines: 1, domNode, suppressMouseDown: true })
+    })
   }
 
   setLanguage(language: MonacoLanguage, languages: MonacoLanguage[]) {
@@ -423,6 +627,24 @@ export class EditorManager {
     }
   }
 
+  /**
+   * Stop auto-scrolling until the user scrolls back near the bottom. Pending
+   * reveals are dropped so a finished stream does not jump afterwards.
+   */
+  pauseAutoScroll() {
+    this.shouldAutoScroll = false
+    this.rafScheduler.cancel('maybe-scroll')
+    this.rafScheduler.cancel('reveal')
+    if (this.revealDebounceId != null) {
+      clearTimeout(this.revealDebounceId)
+      this.revealDebounceId = null
+    }
+    if (this.revealIdleTimerId != null) {
+      clearTimeout(this.revealIdleTimerId)
+      this.revealIdleTimerId = null
+    }
+  }
+
   getEditorView() {
     return this.editorView
   }
@@ -431,14 +653,23 @@ export class EditorManager {
     this.rafScheduler.cancel('update')
     this.pendingUpdate = null
     this.rafScheduler.cancel('append')
-    this.appendBufferScheduled = false
-    this.appendBuffer.length = 0
+    this.appendStartLine = null
 
+    if (this.ansi) {
+      this.ansi.dispose()
+      this.ansi = null
+    }
+    if (this.highlighter) {
+      this.highlighter.dispose()
+      this.highlighter = null
+    }
     if (this.editorView) {
       this.editorView.dispose()
       this.editorView = null
     }
-    this.lastKnownCode = null
+    this.knownCode.invalidate()
+    this.hiddenLinesZone = null
+    this.setTrimmedLines(0)
     if (this.lastContainer) {
       this.lastContainer.innerHTML = ''
       this.lastContainer = null
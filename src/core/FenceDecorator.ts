@@ -0,0 +1,110 @@
+import type { FenceInfo } from '../utils/fenceInfo'
+import * as monaco from '../monaco-shim'
+import { fenceLabel } from '../utils/fenceInfo'
+import { ensureStyle } from '../utils/style'
+
+const fenceStyleId = 'vue-use-monaco-fence'
+const fenceStyles = `
+.monaco-editor .monaco-fence-highlight { background: var(--vscode-editor-rangeHighlightBackground, rgba(255, 255, 255, .08)); }
+.monaco-editor .monaco-fence-highlight-gutter { border-left: 3px solid var(--vscode-editorLink-activeForeground, #4daafc); }
+.monaco-editor .monaco-fence-title { font-size: 12px; opacity: .75; padding: 2px 8px; margin-right: 14px; pointer-events: none; border-radius: 0 0 4px 4px; background: var(--vscode-editorWidget-background, rgba(128, 128, 128, .15)); }
+`
+
+let widgetCount = 0
+
+/**
+ * Applies the metadata of a markdown fence info string to an editor: the
+ * title (and `diff-<lang>` marker) as a label in the top-right corner and
+ * whole-line decorations for highlighted lines.
+ *
+ * Highlighted lines past the end of the model are added once streamed
+ * content reaches them, instead of being clamped onto the last line.
+ */
+export class FenceDecorator {
+  private decorations: monaco.editor.IEditorDecorationsCollection
+  private contentListener: monaco.IDisposable | null = null
+  private widget: monaco.editor.IOverlayWidget | null = null
+  private info: FenceInfo | null = null
+  private decoratedUpTo = 0
+  private readonly widgetId = `vue-use-monaco.fence-title.${++widgetCount}`
+
+  constructor(private editor: monaco.editor.ICodeEditor) {
+    ensureStyle(fenceStyleId, fenceStyles)
+    this.decorations = editor.createDecorationsCollection()
+  }
+
+  apply(info: FenceInfo) {
+    this.info = info
+    this.renderLabel()
+    this.decoratedUpTo = 0
+    this.renderLines()
+    if (!this.contentListener && info.highlightLines.length)
+      this.contentListener = this.editor.onDidChangeModelContent(() => this.renderLines())
+  }
+
+  private renderLabel() {
+    const label = this.info && fenceLabel(this.info)
+    if (!label) {
+      this.removeWidget()
+      return
+    }
+    if (this.widget) {
+      this.widget.getDomNode().textContent = label
+      return
+    }
+    const domNode = document.createElement('div')
+    domNode.className = 'monaco-fence-title'
+    domNode.textContent = label
+    this.widget = {
+      getId: () => this.widgetId,
+      getDomNode: () => domNode,
+      getPosition: () => ({ preference: monaco.editor.OverlayWidgetPositionPreference.TOP_RIGHT_CORNER }),
+    }
+    this.editor.addOverlayWidget(this.widget)
+  }
+
+  private renderLines() {
+    const model = this.editor.getModel()
+    const ranges = this.info?.highlightLines ?? []
+    if (!model || !ranges.length) {
+      this.decorations.clear()
+      return
+    }
+    const lineCount = model.getLineCount()
+    const wanted = Math.min(lineCount, ranges.at(-1)![1])
+    // only re-render while highlighted lines are still arriving
+    if (wanted <= this.decoratedUpTo)
+      return
+    this.decoratedUpTo = wanted
+    const decorations: monaco.editor.IModelDeltaDecoration[] = []
+    for (const [start, end] of ranges) {
+      if (start > lineCount)
+        break
+      decorations.push({
+        range: new monaco.Range(start, 1, Math.min(end, lineCount), 1),
+        options: {
+          isWholeLine: true,
+          className: 'monaco-fence-highlight',
+          linesDecorationsClassName: 'monaco-fence-highlight-gutter',
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      })
+    }
+    this.decorations.set(decorations)
+  }
+
+  private removeWidget() {
+    if (!this.widget)
+      return
+    this.editor.removeOverlayWidget(this.widget)
+    this.widget = null
+  }
+
+  dispose() {
+    this.contentListener?.dispose()
+    this.contentListener = null
+    this.decorations.clear()
+    this.removeWidget()
+    this.info = null
+  }
+}
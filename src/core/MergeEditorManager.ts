@@ -0,0 +1,320 @@
+import type { CreateMergeEditorOptions, MergeConflictState, MonacoLanguage, MonacoOptions } from '../type'
+import type { ConflictBlock } from '../utils/merge3'
+import type { RafScheduler } from '../utils/raf'
+import { processedLanguage } from '../code.detect'
+import { defaultScrollbar, padding } from '../constant'
+import * as monaco from '../monaco-shim'
+import { createActionBar } from '../utils/actionBar'
+import { createHeightManager } from '../utils/height'
+import { findConflictBlocks, merge3, renderMergeRegions } from '../utils/merge3'
+import { createRafScheduler } from '../utils/raf'
+import { ensureStyle } from '../utils/style'
+
+const mergeStyleId = 'vue-use-monaco-merge-editor'
+const mergeStyles = `
+.monaco-merge-editor { display: grid; grid-template-columns: 1fr 1fr; gap: 4px; }
+.monaco-merge-editor .monaco-merge-pane-title { font-size: 12px; opacity: .7; padding: 2px 4px; }
+.monaco-merge-editor .monaco-merge-pane-result { grid-column: 1 / -1; }
+.monaco-editor .monaco-merge-ours { background: var(--vscode-merge-currentContentBackground, rgba(64, 200, 174, .2)); }
+.monaco-editor .monaco-merge-theirs { background: var(--vscode-merge-incomingContentBackground, rgba(64, 166, 255, .2)); }
+.monaco-editor .monaco-merge-marker { background: var(--vscode-merge-commonHeaderBackground, rgba(96, 96, 96, .4)); }
+`
+
+function wholeLines(startLineNumber: number, endLineNumber: number, className: string): monaco.editor.IModelDeltaDecoration {
+  return {
+    range: new monaco.Range(startLineNumber, 1, endLineNumber, 1),
+    options: { isWholeLine: true, className },
+  }
+}
+
+/**
+ * Three-way merge view: read-only "current" (ours) and "incoming" (theirs)
+ * panes side by side above an editable result.
+ *
+ * The result starts as the diff3 merge of both sides against the base with
+ * git-style conflict markers. Conflicts are re-read from the markers on every
+ * edit, so resolving by hand works as well as the take ours/theirs/both actions.
+ */
+export class MergeEditorManager {
+  private lastContainer: HTMLElement | null = null
+  private oursEditor: monaco.editor.IStandaloneCodeEditor | null = null
+  private theirsEditor: monaco.editor.IStandaloneCodeEditor | null = null
+  private resultEditor: monaco.editor.IStandaloneCodeEditor | null = null
+  private models: monaco.editor.ITextModel[] = []
+  private disposables: monaco.IDisposable[] = []
+  private heightManagers: ReturnType<typeof createHeightManager>[] = []
+  private rafScheduler: RafScheduler
+
+  private conflicts: ConflictBlock[] = []
+  private currentConflict = -1
+  private conflictListeners = new Set<(state: MergeConflictState) => void>()
+  private resultDecorations: monaco.editor.IEditorDecorationsCollection | null = null
+  private zoneIds: string[] = []
+
+  constructor(
+    private options: MonacoOptions,
+    private maxHeightValue: number,
+  ) {
+    this.rafScheduler = createRafScheduler(options.timeSource)
+  }
+
+  createMergeEditor(container: HTMLElement, input: CreateMergeEditorOptions, currentTheme: string) {
+    this.cleanup()
+    this.lastContainer = container
+    ensureStyle(mergeStyleId, mergeStyles)
+
+    const lang = processedLanguage(input.language ?? 'plaintext') || 'plaintext'
+    const labels = { ours: 'Current', theirs: 'Incoming', ...input.labels }
+    const regions = merge3(input.base.split(/\r?\n/), input.ours.split(/\r?\n/), input.theirs.split(/\r?\n/))
+    const merged = renderMergeRegions(regions, labels).join('\n')
+
+    const root = document.createElement('div')
+    root.className = 'monaco-merge-editor'
+    const pane = (title: string, className: string) => {
+      const el = document.createElement('div')
+      el.className = `monaco-merge-pane ${className}`
+      const header = document.createElement('div')
+      header.className = 'monaco-merge-pane-title'
+      header.textContent = title
+      const host = document.createElement('div')
+      el.append(header, host)
+      root.append(el)
+      return host
+    }
+    const oursHost = pane(labels.ours, 'monaco-merge-pane-ours')
+    const theirsHost = pane(labels.theirs, 'monaco-merge-pane-theirs')
+    const resultHost = pane('Result', 'monaco-merge-pane-result')
+    container.append(root)
+
+    const baseOptions: monaco.editor.IStandaloneEditorConstructionOptions = {
+      automaticLayout: true,
+      scrollBeyondLastLine: false,
+      minimap: { enabled: false },
+      theme: currentTheme,
+      contextmenu: false,
+      ...this.options,
+      scrollbar: {
+        ...defaultScrollbar,
+        ...(this.options.scrollbar || {}),
+      },
+    }
+    const oursModel = monaco.editor.createModel(input.ours, lang)
+    const theirsModel = monaco.editor.createModel(input.theirs, lang)
+    const resultModel = monaco.editor.createModel(merged, lang)
+    this.models = [oursModel, theirsModel, resultModel]
+    this.oursEditor = monaco.editor.create(oursHost, { ...baseOptions, model: oursModel, readOnly: true })
+    this.theirsEditor = monaco.editor.create(theirsHost, { ...baseOptions, model: theirsModel, readOnly: true })
+    this.resultEditor = monaco.editor.create(resultHost, { ...baseOptions, model: resultModel, readOnly: false })
+    monaco.editor.setTheme(currentTheme)
+
+    // highlight the conflicting lines of both sides
+    const ours: monaco.editor.IModelDeltaDecoration[] = []
+    const theirs: monaco.editor.IModelDeltaDecoration[] = []
+    let oursLine = 1
+    let theirsLine = 1
+    for (const region of regions) {
+      if (region.type === 'stable') {
+        oursLine += region.lines.length
+        theirsLine += region.lines.length
+        continue
+      }
+      if (region.ours.length)
+        ours.push(wholeLines(oursLine, oursLine + region.ours.length - 1, 'monaco-merge-ours'))
+      if (region.theirs.length)
+        theirs.push(wholeLines(theirsLine, theirsLine + region.theirs.length - 1, 'monaco-merge-theirs'))
+      oursLine += region.ours.length
+      theirsLine += region.theirs.length
+    }
+    this.oursEditor.createDecorationsCollection(ours)
+    this.theirsEditor.createDecorationsCollection(theirs)
+    this.resultDecorations = this.resultEditor.createDecorationsCollection()
+
+    const topHeight = () => Math.max(this.paneHeight(this.oursEditor), this.paneHeight(this.theirsEditor))
+    this.heightManagers = [
+      createHeightManager(oursHost, topHeight),
+      createHeightManager(theirsHost, topHeight),
+      createHeightManager(resultHost, () => this.paneHeight(this.resultEditor)),
+    ]
+    const updateHeights = () => this.heightManagers.forEach(h => h.update())
+    this.disposables.push(
+      resultModel.onDidChangeContent(() => {
+        this.rafScheduler.schedule('merge-conflicts', () => this.refreshConflicts())
+      }),
+      this.oursEditor.onDidContentSizeChange(updateHeights),
+      this.theirsEditor.onDidContentSizeChange(updateHeights),
+      this.resultEditor.onDidContentSizeChange(updateHeights),
+    )
+    this.refreshConflicts()
+    updateHeights()
+
+    return { ours: this.oursEditor, theirs: this.theirsEditor, result: this.resultEditor }
+  }
+
+  private paneHeight(editor: monaco.editor.IStandaloneCodeEditor | null) {
+    if (!editor)
+      return Math.min(18 + padding, this.maxHeightValue)
+    const lineHeight = editor.getOption(monaco.editor.EditorOption.lineHeight)
+    const lineCount = editor.getModel()?.getLineCount() ?? 1
+    // content height covers the action view zones of the result pane
+    const desired = Math.max(lineCount * lineHeight + padding, editor.getContentHeight?.() ?? 0)
+    return Math.min(desired, this.maxHeightValue)
+  }
+
+  getMergedText() {
+    return this.resultEditor?.getModel()?.getValue() ?? ''
+  }
+
+  getConflictState(): MergeConflictState {
+    return { conflicts: this.conflicts.length, currentConflict: this.currentConflict }
+  }
+
+  onDidChangeConflicts(listener: (state: MergeConflictState) => void): monaco.IDisposable {
+    this.conflictListeners.add(listener)
+    return { dispose: () => this.conflictListeners.delete(listener) }
+  }
+
+  /**
+   * Replace a conflict block in the result with one side (or both, ours
+   * first). Defaults to the current conflict. Returns false when there is none.
+   */
+  resolveConflict(pick: 'ours' | 'theirs' | 'both', index = Math.max(0, this.currentConflict)) {
+    const editor = this.resultEditor
+    const model = editor?.getModel()
+    const block = this.conflicts[index]
+    if (!editor || !model || !block)
+      return false
+    const eol = model.getEOL()
+    const lines = pick === 'ours' ? block.ours : pick === 'theirs' ? block.theirs : [...block.ours, ...block.theirs]
+    const { startLineNumber: start, endLineNumber: end } = block
+    let range: monaco.Range
+    let text = lines.join(eol)
+    if (end < model.getLineCount()) {
+      range = new monaco.Range(start, 1, end + 1, 1)
+      text = lines.length ? text + eol : ''
+    }
+    else if (lines.length || start === 1) {
+      range = new monaco.Range(start, 1, end, model.getLineMaxColumn(end))
+    }
+    else {
+      // dropping the last lines of the file also drops the line break before them
+      range = new monaco.Range(start - 1, model.getLineMaxColumn(start - 1), end, model.getLineMaxColumn(end))
+    }
+    editor.executeEdits('merge-editor', [{ range, text }])
+    editor.pushUndoStop()
+    this.currentConflict = Math.min(index, this.conflicts.length - 2)
+    this.rafScheduler.cancel('merge-conflicts')
+    this.refreshConflicts()
+    return true
+  }
+
+  /** Reveal the next conflict in the result (wraps around). Returns its index or -1. */
+  goToNextConflict() {
+    if (!this.conflicts.length)
+      return -1
+    return this.revealConflict((this.currentConflict + 1) % this.conflicts.length)
+  }
+
+  /** Reveal the previous conflict in the result (wraps around). Returns its index or -1. */
+  goToPreviousConflict() {
+    const count = this.conflicts.length
+    if (!count)
+      return -1
+    return this.revealConflict(this.currentConflict <= 0 ? count - 1 : this.currentConflict - 1)
+  }
+
+  private revealConflict(index: number) {
+    const block = this.conflicts[index]
+    if (!block || !this.resultEditor)
+      return -1
+    this.currentConflict = index
+    this.resultEditor.setPosition({ lineNumber: block.startLineNumber, column: 1 })
+    this.resultEditor.revealLinesInCenter(block.startLineNumber, block.endLineNumber)
+    this.emitConflicts()
+    return index
+  }
+
+  setLanguage(language: MonacoLanguage, languages: MonacoLanguage[]) {
+    if (!languages.includes(language)) {
+      console.warn(`Language "${language}" is not registered. Available languages: ${languages.join(', ')}`)
+      return
+    }
+    for (const model of this.models) {
+      if (model.getLanguageId() !== language)
+        monaco.editor.setModelLanguage(model, language)
+    }
+  }
+
+  private refreshConflicts() {
+    const model = this.resultEditor?.getModel()
+    if (!model)
+      return
+    this.conflicts = findConflictBlocks(model.getLinesContent())
+    if (this.currentConflict >= this.conflicts.length)
+      this.currentConflict = this.conflicts.length - 1
+    this.renderConflicts()
+    this.emitConflicts()
+  }
+
+  private renderConflicts() {
+    const editor = this.resultEditor
+    if (!editor)
+      return
+    const decorations: monaco.editor.IModelDeltaDecoration[] = []
+    for (const block of this.conflicts) {
+      decorations.push(wholeLines(block.startLineNumber, block.startLineNumber, 'monaco-merge-marker'))
+      if (block.separatorLineNumber - block.startLineNumber > 1)
+        decorations.push(wholeLines(block.startLineNumber + 1, block.separatorLineNumber - 1, 'monaco-merge-ours'))
+      decorations.push(wholeLines(block.separatorLineNumber, block.separatorLineNumber, 'monaco-merge-marker'))
+      if (block.endLineNumber - block.separatorLineNumber > 1)
+        decorations.push(wholeLines(block.separatorLineNumber + 1, block.endLineNumber - 1, 'monaco-merge-theirs'))
+      decorations.push(wholeLines(block.endLineNumber, block.endLineNumber, 'monaco-merge-marker'))
+    }
+    this.resultDecorations?.set(decorations)
+
+    editor.changeViewZones((accessor) => {
+      this.zoneIds.forEach(id => accessor.removeZone(id))
+      this.zoneIds = this.conflicts.map((block, index) => accessor.addZone({
+        afterLineNumber: block.startLineNumber - 1,
+        heightInLines: 1.5,
+        domNode: createActionBar('monaco-merge-conflict-actions', [
+          { label: 'Accept Current', run: () => this.resolveConflict('ours', index) },
+          { label: 'Accept Incoming', run: () => this.resolveConflict('theirs', index) },
+          { label: 'Accept Both', run: () => this.resolveConflict('both', index) },
+        ]),
+      }))
+    })
+  }
+
+  private emitConflicts() {
+    const state = this.getConflictState()
+    this.conflictListeners.forEach(l => l(state))
+  }
+
+  getEditors() {
+    return { ours: this.oursEditor, theirs: this.theirsEditor, result: this.resultEditor }
+  }
+
+  cleanup() {
+    this.rafScheduler.cancel('merge-conflicts')
+    this.disposables.forEach(d => d.dispose())
+    this.disposables = []
+    this.heightManagers.forEach(h => h.dispose())
+    this.heightManagers = []
+    this.zoneIds = []
+    this.resultDecorations = null
+    for (const editor of [this.oursEditor, this.theirsEditor, this.resultEditor])
+      editor?.dispose()
+    this.oursEditor = null
+    this.theirsEditor = null
+    this.resultEditor = null
+    this.models.forEach(m => m.dispose())
+    this.models = []
+    this.conflicts = []
+    this.currentConflict = -1
+    this.emitConflicts()
+    if (this.lastContainer) {
+      this.lastContainer.innerHTML = ''
+      this.lastContainer = null
+    }
+  }
+}
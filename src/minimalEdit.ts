@@ -1,3 +1,5 @@
+import { diffLines } from './utils/lineDiff'
+
 export interface MinimalEditResult {
   start: number
   endPrevIncl: number
@@ -38,3 +40,75 @@ export function computeMinimalEdit(
     replaceText: next.slice(start, endNext + 1),
   }
 }
+
+/**
+ * Above this many characters in the changed region (old plus new text) the
+ * line diff is skipped and a single middle replacement is used instead.
+ */
+export const defaultMaxLineDiffChars = 200_000
+
+function splitLinesKeepEnds(text: string) {
+  return text.split(/(?<=\n)/)
+}
+
+function lineOffsets(lines: readonly string[]) {
+  const offsets = [0]
+  for (const line of lines)
+    offsets.push(offsets[offsets.length - 1] + line.length)
+  return offsets
+}
+
+/**
+ * Like `computeMinimalEdit`, but when separate lines changed the edits are
+ * found with a line diff and returned as several disjoint replacements, so
+ * the unchanged lines in between keep their folding, decorations, markers and
+ * selection. Offsets refer to `prev` (and `endNextIncl` to `next`); the edits
+ * are sorted and non-overlapping, ready for a single `applyEdits` call.
+ * Regions larger than `maxChars` fall back to the single replacement.
+ */
+export function computeMinimalEdits(
+  prev: string,
+  next: string,
+  maxChars = defaultMaxLineDiffChars,
+): MinimalEditResult[] {
+  const whole = computeMinimalEdit(prev, next)
+  if (!whole)
+    return []
+
+  // widen the changed region to whole lines; the widened parts are equal on both sides
+  // (lastIndexOf clamps a negative position to 0, so a change at offset 0 needs its own case)
+  const start = whole.start === 0 ? 0 : prev.lastIndexOf('\n', whole.start - 1) + 1
+  const lineBreak = prev.indexOf('\n', whole.endPrevIncl + 1)
+  const tail = (lineBreak === -1 ? prev.length : lineBreak + 1) - (whole.endPrevIncl + 1)
+  const oldText = prev.slice(start, whole.endPrevIncl + 1 + tail)
+  const newText = next.slice(start, whole.endNextIncl + 1 + tail)
+  if (!oldText || !newText || oldText.length + newText.length > maxChars)
+    return [whole]
+
+  const a = splitLinesKeepEnds(oldText)
+  const b = splitLinesKeepEnds(newText)
+  const changes = diffLines(a, b)
+  if (changes.length < 2)
+    return [whole]
+
+  const aOffsets = lineOffsets(a)
+  const bOffsets = lineOffsets(b)
+  const edits: MinimalEditResult[] = []
+  for (const c of changes) {
+    const oldFrom = start + aOffsets[c.oldStart]
+    const newFrom = start + bOffsets[c.newStart]
+    const res = computeMinimalEdit(
+      prev.slice(oldFrom, start + aOffsets[c.oldStart + c.oldLength]),
+      next.slice(newFrom, start + bOffsets[c.newStart + c.newLength]),
+    )
+    if (!res)
+      continue
+    edits.push({
+      start: oldFrom + res.start,
+      endPrevIncl: oldFrom + res.endPrevIncl,
+      endNextIncl: newFrom + res.endNextIncl,
+      replaceText: res.replaceText,
+    })
+  }
+  return edits
+}
@@ -0,0 +1,83 @@
+import type { ShikiTransformer } from 'shiki'
+import type { MonacoOptions, MonacoTheme } from './type'
+import { processedLanguage } from './code.detect'
+import { defaultLanguages, defaultThemes } from './constant'
+import { isDark } from './isDark'
+import { computeEditorHeight, resolveMaxHeight } from './utils/height'
+import { getOrCreateHighlighter, themeName } from './utils/highlighter'
+
+export interface RenderCodeToHtmlOptions extends Pick<MonacoOptions, 'themes' | 'languages' | 'MAX_HEIGHT' | 'fontSize' | 'lineHeight' | 'fontFamily'> {
+  /**
+   * 用于计算高度的行数，默认为 code 的行数。
+   * Diff 编辑器传入两侧行数的较大值。
+   */
+  lineCount?: number
+}
+
+/** 与 Monaco 默认值一致：fontSize 14，行高为 fontSize * 1.35 取整 */
+const defaultFontSize = 14
+const lineHeightRatio = 1.35
+
+// the <pre> fills the sized wrapper and scrolls like the editor would
+const fillContainer: ShikiTransformer = {
+  pre(node) {
+    node.properties.style = `${node.properties.style ?? ''};margin:0;height:100%;overflow:auto;box-sizing:border-box`
+  },
+}
+
+function countLines(code: string) {
+  return code.split(/\r\n|\r|\n/).length
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * 静态渲染使用的行高：显式的 `lineHeight`，否则按 Monaco 的默认规则由 `fontSize` 推导。
+ * 服务端无法得知平台差异（macOS 上 Monaco 的默认字号/行高不同），
+ * 需要完全避免布局偏移时请显式传入 `lineHeight`。
+ */
+export function staticLineHeight(options: Pick<MonacoOptions, 'fontSize' | 'lineHeight'> = {}) {
+  const fontSize = options.fontSize ?? defaultFontSize
+  return options.lineHeight || Math.round(fontSize * lineHeightRatio)
+}
+
+/**
+ * 编辑器挂载前的容器高度，与编辑器创建后 `createHeightManager` 应用的规则一致：
+ * `min(行数 * 行高 + padding, MAX_HEIGHT)`。
+ */
+export function staticEditorHeight(lineCount: number, options: Pick<MonacoOptions, 'MAX_HEIGHT' | 'fontSize' | 'lineHeight'> = {}) {
+  return computeEditorHeight(Math.max(1, lineCount), staticLineHeight(options), resolveMaxHeight(options.MAX_HEIGHT ?? 500).value)
+}
+
+/**
+ * 在服务端（或任意无 DOM 的环境）将代码渲染为静态 HTML，使用与编辑器相同的 shiki 主题与语言配置。
+ *
+ * 返回的根元素已设置好与编辑器一致的高度，可直接输出到页面，之后再在客户端挂载编辑器；
+ * 未加载的语言按纯文本渲染。`theme` 默认与编辑器一致：`isDark` 时取 themes[0]，否则 themes[1]。
+ *
+ * @example
+ * ```ts
+ * const html = await renderCodeToHtml('const a = 1', 'typescript', 'vitesse-dark', { MAX_HEIGHT: 400 })
+ * ```
+ */
+export async function renderCodeToHtml(code: string, lang: string, theme?: MonacoTheme, options: RenderCodeToHtmlOptions = {}) {
+  const themes = options.themes?.length ? options.themes : defaultThemes
+  const languages = options.languages ?? defaultLanguages
+  const name = theme ? themeName(theme) : themeName(isDark.value ? themes[0] : themes[1])
+  const fontSize = options.fontSize ?? defaultFontSize
+  const lineHeight = staticLineHeight(options)
+  const height = staticEditorHeight(options.lineCount ?? countLines(code), options)
+
+  const highlighterThemes = themes.some(t => themeName(t) === name) ? themes : [...themes, theme!]
+  const highlighter = await getOrCreateHighlighter(highlighterThemes, languages)
+  const language = processedLanguage(lang) || 'plaintext'
+  const body = highlighter.codeToHtml(code, {
+    lang: highlighter.getLoadedLanguages().includes(language) ? language : 'text',
+    theme: name,
+    transformers: [fillContainer],
+  })
+  const font = options.fontFamily ? `font-family:${escapeHtml(options.fontFamily)};` : ''
+  return `<div class="monaco-ssr-static" style="height:${height}px;${font}font-size:${fontSize}px;line-height:${lineHeight}px">${body}</div>`
+}
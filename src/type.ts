@@ -1,5 +1,9 @@
 import type * as monaco from 'monaco-editor'
 import type { Highlighter as _ShikiHighlighter, SpecialTheme, ThemeInput } from 'shiki'
+import type { DiffHunk } from './utils/hunks'
+import type { LanguageTrackerOptions } from './utils/languageTracker'
+import type { PatchFileStatus } from './utils/patch'
+import type { TimeSource } from './utils/raf'
 
 export type ShikiHighlighter = _ShikiHighlighter | any
 
@@ -296,6 +300,10 @@ export interface MonacoOptions
   extends monaco.editor.IStandaloneEditorConstructionOptions {
   MAX_HEIGHT?: number | string
   readOnly?: boolean
+  /**
+   * 可用主题（通常为暗色 / 亮色两个）。主题作用于实例自己的编辑器容器，
+   * 页面上多个实例配置了不同主题时各自显示自己的主题。
+   */
   themes?: MonacoTheme[]
   languages?: MonacoLanguage[]
   theme?: string
@@ -355,6 +363,110 @@ export interface MonacoOptions
    * of theme application. It receives the name of the applied theme.
    */
   onThemeChange?: (theme: MonacoTheme) => void | Promise<void>
+  /**
+   * Diff 流式改写模式：当 AI 把新版本流式写入 modified 侧时，original 中尚未被“追上”的剩余部分
+   * 视为待定内容，不参与 diff（避免出现整段删除的闪烁）。流结束后调用 `finalizeDiff()` 切换为完整 diff。
+   * - `pendingOriginal: 'placeholder'`（默认）在 original 末尾显示一个中性的“剩余 N 行”占位区域
+   * - `pendingOriginal: 'hidden'` 直接隐藏剩余部分
+   * - `window` 为在 original 中向前查找匹配行的最大行数，默认 200
+   */
+  streamingDiff?: boolean | {
+    pendingOriginal?: 'hidden' | 'placeholder'
+    window?: number
+  }
+  /**
+   * 为 Diff 编辑器的每个变更块（hunk）显示 Accept / Reject 按钮。
+   * 接受的 hunk 会被应用到独立的结果模型（初始为 original 的副本），可通过 `getResolvedText()` 读取。
+   * 默认 false。
+   */
+  diffHunkActions?: boolean
+  /** 某个 hunk 被接受后调用 */
+  onHunkAccepted?: (hunk: DiffHunk) => void
+  /** 某个 hunk 被拒绝后调用 */
+  onHunkRejected?: (hunk: DiffHunk) => void
+  /** 所有 hunk 都已处理后调用，参数为最终结果文本 */
+  onAllResolved?: (resultText: string) => void
+  /**
+   * language 传 'auto' 时的检测参数：内容增长多少字符后重新检测、切换语言所需的置信度差与连续次数、
+   * 参与检测的字符数上限。
+   */
+  languageDetection?: LanguageTrackerOptions
+  /**
+   * 使用不在 `languages` 中的语言时，会按需加载对应的 shiki 语法并在加载完成后应用；
+   * 加载完成前又请求了其他语言时，过时的加载结果不会被应用。
+   * 加载失败（例如 shiki 不支持该语言）时调用，每种语言只报告一次且不再重试。加载失败时编辑器保持请求前的语言（内容照常写入），不会切换到别的回退语言。
+   * 未提供该回调时改为输出 `console.warn`，提供后不再输出警告。
+   */
+  onLanguageLoadError?: (language: string, error: unknown) => void
+  /**
+   * 自定义帧调度来源（requestAnimationFrame / cancelAnimationFrame）。
+   * 每个实例使用独立的调度器；测试中可传入 `createFakeTimeSource()` 手动推进帧。
+   * 默认使用全局 requestAnimationFrame。
+   */
+  timeSource?: TimeSource
+  /**
+   * 日志 / 尾随模式：单编辑器的模型最多保留的行数，适合持续 `appendCode` / `streamCode` 的构建日志、长对话记录等。
+   * 超出时从头部裁掉最早的行，可见内容保持不动，自动滚动照常进行；用户向上滚动（自动滚动暂停）期间不裁剪，回到底部后继续。
+   * 已裁掉的行数可通过 `trimmedLines` 读取，行号会自动加上该偏移以显示真实行号，编辑器顶部显示“已隐藏 N 行”的提示。
+   * 该模式下请使用追加 API，传给 `updateCode` 的完整文本会与被裁剪后的模型不一致。默认不限制。
+   */
+  maxLines?: number
+  /**
+   * 尾随模式下加载更早的内容：点击顶部提示中的按钮或调用 `loadEarlierLines()` 时调用，参数为当前隐藏的行数。
+   * 返回紧接在当前第一行之前的若干行（可以只是其中最后一部分），返回空字符串表示没有可加载的内容。
+   */
+  onLoadEarlier?: (hiddenLines: number) => string | Promise<string>
+  /**
+   * 高亮新写入的内容：`appendCode`、`updateCode`（含中间的最小替换）以及 Diff 的 `updateModified` / `appendModified`
+   * 插入的范围会带上随主题变化的背景色，并在 `duration` 毫秒内逐渐淡出。同一帧内的多次写入合并为一次装饰更新。
+   * 传 `true` 使用默认时长 1000ms。默认 false。
+   */
+  highlightChanges?: boolean | {
+    duration?: number
+  }
+}
+
+export interface CreateDiffFromPatchOptions {
+  /**
+   * 修改前的完整文件内容。提供后会把 hunk 应用到该文本上，两侧都显示完整文件；
+   * 否则只能显示 hunk 覆盖到的行。多文件 patch 请传入以（旧）路径为 key 的对象。
+   */
+  baseText?: string | Record<string, string>
+  /** 编辑器语言，默认按各文件的路径（扩展名、文件名）及内容解析 */
+  language?: string
+  /** 初始显示的文件（序号或路径），默认第一个 */
+  file?: number | string
+}
+
+export interface CreateMergeEditorOptions {
+  /** 双方共同的祖先版本 */
+  base: string
+  /** 当前分支（current）的内容 */
+  ours: string
+  /** 合入分支（incoming）的内容 */
+  theirs: string
+  /** 编辑器语言，默认 'plaintext' */
+  language?: string
+  /** 面板标题及冲突标记后的标签，默认 'Current' / 'Incoming' */
+  labels?: { ours?: string, theirs?: string }
+}
+
+export interface MergeConflictState {
+  /** 剩余冲突数量 */
+  conflicts: number
+  /** 当前定位到的冲突序号，未定位时为 -1 */
+  currentConflict: number
+}
+
+export interface PatchDiffFile {
+  /** 展示用路径：新路径，删除的文件为旧路径 */
+  path: string
+  oldPath: string | null
+  newPath: string | null
+  status: PatchFileStatus
+  binary: boolean
+  original: string
+  modified: string
 }
 
 // Convenience enum for consumers who prefer a TypeScript constant instead of strings
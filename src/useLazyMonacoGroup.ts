@@ -0,0 +1,339 @@
+import type { WatchStopHandle } from 'vue'
+import type { MonacoOptions, MonacoTheme } from './type'
+import { markRaw, shallowReactive, watch } from 'vue'
+import { processedLanguage } from './code.detect'
+import { defaultLanguages, defaultThemes } from './constant'
+import { isDark } from './isDark'
+import { useMonacoGroup } from './useMonacoGroup'
+import { resolveMaxHeight } from './utils/height'
+import { getOrCreateHighlighter } from './utils/highlighter'
+import { createRafScheduler } from './utils/raf'
+import { ensureStyle } from './utils/style'
+
+export interface UseLazyMonacoGroupOptions extends MonacoOptions {
+  /**
+   * 距离视口多远时升级为真正的编辑器（IntersectionObserver rootMargin）。
+   * 默认 '200px'。
+   */
+  upgradeMargin?: string
+  /**
+   * 离开视口多远后销毁编辑器、退回静态 HTML（IntersectionObserver rootMargin）。
+   * 应大于 upgradeMargin，避免在边界处来回切换。默认 '1000px'。
+   */
+  releaseMargin?: string
+  /** IntersectionObserver 的 root，默认为浏览器视口 */
+  root?: Element | Document | null
+}
+
+export interface LazyMonacoBlock {
+  key: string
+  container: HTMLElement
+  /** 当前完整内容；静态与编辑器两种形态之间切换时保持不变 */
+  code: string
+  language: string
+  /** 'static'：shiki 渲染的 HTML；'editor'：真正的 Monaco 编辑器 */
+  mode: 'static' | 'editor'
+  /** 是否已调用 complete(key)（流式输出结束） */
+  complete: boolean
+}
+
+interface BlockState {
+  block: LazyMonacoBlock
+  target: 'static' | 'editor'
+  switching: boolean
+  /** bumped on every upgrade so static renders started earlier are dropped */
+  generation: number
+}
+
+const lazyStyleId = 'vue-use-monaco-lazy'
+const lazyStyles = `
+.monaco-lazy-static { overflow: auto; }
+.monaco-lazy-static pre { margin: 0; padding: 8px 0; font-size: 14px; line-height: 1.4; }
+`
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * 适用于包含成百上千个代码块的页面：代码块在进入视口附近之前只渲染为轻量的
+ * shiki HTML，接近视口时才升级为真正的 Monaco 编辑器；远离视口后销毁编辑器、
+ * 退回静态 HTML 以释放 Monaco 实例。
+ *
+ * 内容、语言与流式状态保存在 block 中，在两种形态间切换时不会丢失：切换期间到达
+ * 的 appendCode 会在编辑器创建后补齐，编辑器中的修改会在降级前写回。
+ * 不支持 IntersectionObserver 的环境下代码块会直接升级为编辑器。
+ *
+ * @example
+ * ```ts
+ * const lazy = useLazyMonacoGroup({ themes: ['vitesse-dark', 'vitesse-light'] })
+ * lazy.observe('msg-1', el, '', 'typescript')
+ * lazy.appendCode('msg-1', 'const a = 1\n')
+ * lazy.complete('msg-1')
+ * ```
+ */
+export function useLazyMonacoGroup(options: UseLazyMonacoGroupOptions = {}) {
+  const { upgradeMargin = '200px', releaseMargin = '1000px', root = null, ...monacoOptions } = options
+  const group = useMonacoGroup(monacoOptions)
+  const themes = monacoOptions.themes?.length ? monacoOptions.themes : defaultThemes
+  const languages = monacoOptions.languages ?? defaultLanguages
+  const { css: maxHeightCSS } = resolveMaxHeight(monacoOptions.MAX_HEIGHT)
+  const blocks = shallowReactive(new Map<string, LazyMonacoBlock>())
+  const states = new Map<string, BlockState>()
+  const byContainer = new Map<Element, string>()
+  const rafScheduler = createRafScheduler(monacoOptions.timeSource)
+  let nearObserver: IntersectionObserver | null = null
+  let farObserver: IntersectionObserver | null = null
+  let darkWatcher: WatchStopHandle | null = null
+
+  function ensureObservers() {
+    if (nearObserver || typeof IntersectionObserver === 'undefined')
+      return
+    const onEntries = (visible: boolean) => (entries: IntersectionObserverEntry[]) => {
+      for (const entry of entries) {
+        // near: upgrade once close to the viewport; far: downgrade once well outside it
+        if (entry.isIntersecting !== visible)
+          continue
+        const key = byContainer.get(entry.target)
+        const state = key != null ? states.get(key) : undefined
+        if (state) {
+          state.target = visible ? 'editor' : 'static'
+          void sync(state)
+        }
+      }
+    }
+    nearObserver = new IntersectionObserver(onEntries(true), { root, rootMargin: upgradeMargin })
+    farObserver = new IntersectionObserver(onEntries(false), { root, rootMargin: releaseMargin })
+  }
+
+  function ensureDarkWatcher() {
+    if (darkWatcher || monacoOptions.theme)
+      return
+    darkWatcher = watch(() => isDark.value, () => renderAllStatic(), { flush: 'post' })
+  }
+
+  async function renderStatic(state: BlockState) {
+    const { block, generation } = state
+    const stale = () => state.generation !== generation || states.get(block.key) !== state
+    let html: string
+    try {
+      const highlighter = await getOrCreateHighlighter(themes, languages)
+      // the block may have been upgraded or removed while the highlighter loaded
+      if (stale())
+        return
+      const lang = processedLanguage(block.language) || 'plaintext'
+      html = highlighter.codeToHtml(block.code, {
+        lang: highlighter.getLoadedLanguages().includes(lang) ? lang : 'text',
+        theme: group.getCurrentTheme(),
+      })
+    }
+    catch {
+      if (stale())
+        return
+      html = `<pre>${escapeHtml(block.code)}</pre>`
+    }
+    block.container.innerHTML = `<div class="monaco-lazy-static" style="max-height: ${maxHeightCSS}">${html}</div>`
+  }
+
+  function scheduleStatic(state: BlockState) {
+    // streamed appends to static blocks are rendered at most once per frame
+    rafScheduler.schedule(`static:${state.block.key}`, () => void renderStatic(state))
+  }
+
+  function renderAllStatic() {
+    for (const state of states.values()) {
+      if (state.block.mode === 'static')
+        scheduleStatic(state)
+    }
+  }
+
+  async function upgrade(state: BlockState) {
+    const { block } = state
+    state.generation++
+    rafScheduler.cancel(`static:${block.key}`)
+    block.container.innerHTML = ''
+    const initial = block.code
+    const created = group.create(block.key, block.container, initial, block.language)
+    const editor = group.get(block.key)!
+    await created
+    // removed while the editor was being created: unobserve already disposed it
+    if (states.get(block.key) !== state)
+      return
+    block.mode = 'editor'
+    // forward what changed while the editor was being created
+    if (block.code !== initial) {
+      if (block.code.startsWith(initial))
+        editor.appendCode(block.code.slice(initial.length))
+      else
+        editor.updateCode(block.code, block.language)
+    }
+    if (block.complete)
+      editor.pauseAutoScroll()
+  }
+
+  function downgrade(state: BlockState) {
+    const { block } = state
+    // keep edits made in the editor
+    const view = group.getEditorView(block.key)
+    if (view)
+      block.code = view.getValue()
+    group.dispose(block.key)
+    block.mode = 'static'
+    void renderStatic(state)
+  }
+
+  async function sync(state: BlockState) {
+    if (state.switching || state.target === state.block.mode)
+      return
+    state.switching = true
+    try {
+      if (state.target === 'editor')
+        await upgrade(state)
+      else
+        downgrade(state)
+    }
+    catch (err) {
+      console.warn(`Failed to create editor for "${state.block.key}":`, err)
+      state.target = 'static'
+      state.block.mode = 'static'
+      void renderStatic(state)
+    }
+    finally {
+      state.switching = false
+    }
+    // the target may have changed while switching
+    if (states.get(state.block.key) === state)
+      void sync(state)
+  }
+
+  /**
+   * 登记一个代码块：立即渲染为静态 HTML，接近视口时再升级为编辑器。
+   * 同一 key 已存在时会先移除旧的代码块。
+   */
+  function observe(key: string, container: HTMLElement, code: string, language: string) {
+    unobserve(key)
+    ensureStyle(lazyStyleId, lazyStyles)
+    ensureObservers()
+    ensureDarkWatcher()
+    const block: LazyMonacoBlock = shallowReactive({
+      key,
+      container: markRaw(container),
+      code,
+      language,
+      mode: 'static',
+      complete: false,
+    })
+    const state: BlockState = { block, target: 'static', switching: false, generation: 0 }
+    blocks.set(key, block)
+    states.set(key, state)
+    byContainer.set(container, key)
+    void renderStatic(state)
+    if (nearObserver && farObserver) {
+      nearObserver.observe(container)
+      farObserver.observe(container)
+    }
+    else {
+      state.target = 'editor'
+      void sync(state)
+    }
+    return block
+  }
+
+  function appendCode(key: string, text: string, language?: string) {
+    const state = states.get(key)
+    if (!state)
+      return false
+    const { block } = state
+    block.code += text
+    if (language)
+      block.language = language
+    if (block.mode === 'editor')
+      group.appendCode(key, text, language)
+    else if (!state.switching)
+      scheduleStatic(state)
+    return true
+  }
+
+  function updateCode(key: string, code: string, language: string) {
+    const state = states.get(key)
+    if (!state)
+      return false
+    const { block } = state
+    block.code = code
+    block.language = language
+    if (block.mode === 'editor')
+      group.updateCode(key, code, language)
+    else if (!state.switching)
+      scheduleStatic(state)
+    return true
+  }
+
+  function setLanguage(key: string, language: string) {
+    const state = states.get(key)
+    if (!state)
+      return false
+    state.block.language = language
+    if (state.block.mode === 'editor')
+      group.setLanguage(key, language)
+    else if (!state.switching)
+      scheduleStatic(state)
+    return true
+  }
+
+  /** 标记流式输出结束：编辑器停止自动滚动，之后升级的编辑器也不再自动滚动 */
+  function complete(key: string) {
+    const block = blocks.get(key)
+    if (!block)
+      return false
+    block.complete = true
+    if (block.mode === 'editor')
+      group.get(key)?.pauseAutoScroll()
+    return true
+  }
+
+  /** 移除代码块：停止观察并销毁其编辑器（编辑器会清空容器；仍为静态 HTML 的代码块保留容器内容） */
+  function unobserve(key: string) {
+    const state = states.get(key)
+    if (!state)
+      return false
+    const { container } = state.block
+    nearObserver?.unobserve(container)
+    farObserver?.unobserve(container)
+    rafScheduler.cancel(`static:${key}`)
+    byContainer.delete(container)
+    states.delete(key)
+    blocks.delete(key)
+    group.dispose(key)
+    return true
+  }
+
+  function disposeAll() {
+    for (const key of [...states.keys()])
+      unobserve(key)
+    nearObserver?.disconnect()
+    farObserver?.disconnect()
+    nearObserver = farObserver = null
+    darkWatcher?.()
+    darkWatcher = null
+    group.disposeAll()
+  }
+
+  /** 为全部代码块（编辑器与静态 HTML）切换主题 */
+  async function setTheme(theme: MonacoTheme) {
+    await group.setTheme(theme)
+    renderAllStatic()
+  }
+
+  return {
+    blocks,
+    group,
+    observe,
+    unobserve,
+    appendCode,
+    updateCode,
+    setLanguage,
+    complete,
+    setTheme,
+    disposeAll,
+  }
+}
@@ -0,0 +1,161 @@
+import type { MonacoOptions } from './type'
+import type { FenceInfo } from './utils/fenceInfo'
+import type { CodeStreamSource, StreamCodeOptions, StreamCodeResult } from './utils/stream'
+import { markRaw, shallowReactive } from 'vue'
+import { processedLanguage } from './code.detect'
+import { useMonaco } from './useMonaco'
+import { parseFenceInfo } from './utils/fenceInfo'
+import { createMarkdownFenceSplitter } from './utils/markdownFence'
+import { consumeCodeStream } from './utils/stream'
+
+export interface MarkdownCodeBlock {
+  /** 代码块在流中的序号（从 0 开始） */
+  index: number
+  /** 原始 fence info string */
+  info: string
+  /** 由 info string 推导出的语言 */
+  language: string
+  /** 解析后的 info string：别名映射后的语言、标题、高亮行、diff-<lang> 标记 */
+  fence: FenceInfo
+  /** 已接收的代码内容 */
+  code: string
+  /** 是否已遇到闭合 fence（或流已结束） */
+  complete: boolean
+  /** 该代码块独立的 useMonaco 实例 */
+  monaco: ReturnType<typeof useMonaco>
+}
+
+export interface UseMarkdownStreamOptions extends MonacoOptions {
+  /**
+   * 为新出现的代码块提供挂载容器。可以返回 Promise，例如等待 Vue 渲染出占位元素。
+   * 在容器就绪之前到达的内容会被缓存，并作为编辑器的初始内容。
+   */
+  mountBlock: (block: MarkdownCodeBlock) => HTMLElement | Promise<HTMLElement>
+  /** 代码块之外的普通文本 */
+  onProse?: (text: string) => void
+  /** 代码块完成（遇到闭合 fence 或流结束） */
+  onBlockComplete?: (block: MarkdownCodeBlock) => void
+}
+
+/**
+ * 消费一个 markdown 流，为其中的每个 fenced code block 驱动独立的编辑器。
+ *
+ * fence 可能在任意 chunk 边界处打开/关闭（包括 ``` 与 ~~~），普通文本通过 onProse 回传给调用方。
+ * info string 中的标题与高亮行（如 ```ts title="a.ts" {1,3-5}）会作为标签与行装饰应用到编辑器上。
+ *
+ * @example
+ * ```ts
+ * const { consume, blocks } = useMarkdownStream({
+ *   mountBlock: async (block) => {
+ *     await nextTick()
+ *     return document.querySelector(`[data-block="${block.index}"]`) as HTMLElement
+ *   },
+ *   onProse: text => (prose.value += text),
+ * })
+ * await consume(response.body!)
+ * ```
+ */
+export function useMarkdownStream(options: UseMarkdownStreamOptions) {
+  const { mountBlock, onProse, onBlockComplete, ...monacoOptions } = options
+  const blocks = shallowReactive<MarkdownCodeBlock[]>([])
+  // per-block promise resolved once its editor exists (false when mounting failed)
+  const ready = new Map<number, Promise<boolean>>()
+  const created = new Set<number>()
+
+  function finalize(block: MarkdownCodeBlock) {
+    block.complete = true
+    void (ready.get(block.index) ?? Promise.resolve(false)).then((ok) => {
+      if (ok)
+        block.monaco.pauseAutoScroll()
+      onBlockComplete?.(block)
+    })
+  }
+
+  // false once dispose() dropped the block, e.g. while its mount was still pending
+  function isLive(block: MarkdownCodeBlock) {
+    return blocks[block.index] === block
+  }
+
+  async function mount(block: MarkdownCodeBlock) {
+    try {
+      const container = await mountBlock(block)
+      if (!isLive(block))
+        return false
+      const initial = block.code
+      await block.monaco.createEditor(container, initial, block.language)
+      if (!isLive(block)) {
+        // dispose() ran during creation, which went on to create the editor anyway
+        block.monaco.cleanupEditor()
+        return false
+      }
+      block.monaco.applyFenceInfo(block.fence)
+      // forward text that arrived while the editor was being created
+      if (block.code.length > initial.length)
+        block.monaco.appendCode(block.code.slice(initial.length))
+      created.add(block.index)
+      return true
+    }
+    catch (err) {
+      console.warn(`Failed to mount editor for code block #${block.index}:`, err)
+      return false
+    }
+  }
+
+  const splitter = createMarkdownFenceSplitter({
+    onProse,
+    onBlockStart({ index, info }) {
+      const fence = parseFenceInfo(info)
+      const block: MarkdownCodeBlock = shallowReactive({
+        index,
+        info,
+        language: processedLanguage(fence.language),
+        fence,
+        code: '',
+        complete: false,
+        monaco: markRaw(useMonaco(monacoOptions)),
+      })
+      blocks.push(block)
+      ready.set(index, mount(block))
+    },
+    onBlockText(index, text) {
+      const block = blocks[index]
+      if (!block)
+        return
+      block.code += text
+      // before creation the accumulated code becomes the initial content
+      if (created.has(index))
+        block.monaco.appendCode(text)
+    },
+    onBlockEnd(index) {
+      const block = blocks[index]
+      if (block)
+        finalize(block)
+    },
+  })
+
+  function push(chunk: string) {
+    splitter.push(chunk)
+  }
+
+  function end() {
+    splitter.end()
+  }
+
+  async function consume(source: CodeStreamSource, streamOptions: StreamCodeOptions = {}): Promise<StreamCodeResult> {
+    try {
+      return await consumeCodeStream(source, push, streamOptions)
+    }
+    finally {
+      end()
+    }
+  }
+
+  function dispose() {
+    blocks.forEach(b => b.monaco.cleanupEditor())
+    blocks.length = 0
+    ready.clear()
+    created.clear()
+  }
+
+  return { blocks, push, end, consume, dispose }
+}
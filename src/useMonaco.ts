@@ -0,0 +1,1248 @@
+import type { WatchStopHandle } from 'vue'
+import type { DetectedLanguage } from './code.detect'
+import type { CreateDiffFromPatchOptions, CreateMergeEditorOptions, MergeConflictState, MonacoLanguage, MonacoOptions, MonacoTheme, PatchDiffFile } from './type'
+import type { FenceInfo } from './utils/fenceInfo'
+import type { DiffStats } from './utils/hunks'
+import type { MonacoResources } from './utils/monacoRegistry'
+import type { CreatePatchOptions } from './utils/patch'
+import type { CodeStreamSource, StreamCodeOptions, StreamCodeResult } from './utils/stream'
+
+import { computed, shallowRef, watch } from 'vue'
+import { isLanguagePath, languageFromFile, processedLanguage } from './code.detect'
+import { defaultLanguages, defaultThemes, padding } from './constant'
+import { DiffEditorManager } from './core/DiffEditorManager'
+import { EditorManager } from './core/EditorManager'
+import { FenceDecorator } from './core/FenceDecorator'
+import { MergeEditorManager } from './core/MergeEditorManager'
+import { isDark } from './isDark'
+import { computeMinimalEdits } from './minimalEdit'
+import * as monaco from './monaco-shim'
+import { ansiLanguage, ansiPalette } from './utils/ansi'
+import { isFenceInfo, parseFenceInfo } from './utils/fenceInfo'
+import { computeEditorHeight, resolveMaxHeight } from './utils/height'
+import { emptyDiffStats } from './utils/hunks'
+import { createKnownContent } from './utils/knownContent'
+import { createLanguageTracker } from './utils/languageTracker'
+import { acquireMonacoResources } from './utils/monacoRegistry'
+import { createPatch, parsePatch, patchFilePath, reconstructPatchFile } from './utils/patch'
+import { createRafScheduler } from './utils/raf'
+import { consumeCodeStream } from './utils/stream'
+
+/**
+ * useMonaco 组合式函数
+ *
+ * 提供 Monaco 编辑器的创建、销毁、内容/主题/语言更新等能力。
+ * 支持主题自动切换、语言高亮、代码更新等功能。
+ *
+ * @param {MonacoOptions} [monacoOptions] - 编辑器初始化配置，支持 Monaco 原生配置及扩展项
+ * @param {number | string} [monacoOptions.MAX_HEIGHT] - 编辑器最大高度，可以是数字（像素）或 CSS 字符串（如 '100%', 'calc(100vh - 100px)'）
+ * @param {boolean} [monacoOptions.readOnly] - 是否为只读模式
+ * @param {MonacoTheme[]} [monacoOptions.themes] - 主题数组，至少包含两个主题：[暗色主题, 亮色主题]
+ * @param {MonacoLanguage[]} [monacoOptions.languages] - 支持的编程语言数组
+ * @param {string} [monacoOptions.theme] - 初始主题名称
+ * @param {boolean} [monacoOptions.isCleanOnBeforeCreate] - 是否在创建前清理之前注册的资源, 默认为 true
+ * @param {(monaco: typeof import('monaco-editor')) => monaco.IDisposable[]} [monacoOptions.onBeforeCreate] - 编辑器创建前的钩子函数
+ * @param {(language: string, error: unknown) => void} [monacoOptions.onLanguageLoadError] - 按需加载语言语法失败时的回调
+ *
+ * @returns {{
+ *   createEditor: (container: HTMLElement, code: string, language: string) => Promise<monaco.editor.IStandaloneCodeEditor>,
+ *   createDiffEditor: (
+ *     container: HTMLElement,
+ *     originalCode: string,
+ *     modifiedCode: string,
+ *     language: string,
+ *   ) => Promise<monaco.editor.IStandaloneDiffEditor>,
+ *   createDiffFromPatch: (
+ *     container: HTMLElement,
+ *     patchText: string,
+ *     options?: CreateDiffFromPatchOptions,
+ *   ) => Promise<monaco.editor.IStandaloneDiffEditor>,
+ *   patchFiles: ComputedRef<PatchDiffFile[]>,
+ *   activePatchFile: ComputedRef<number>,
+ *   selectPatchFile: (file: number | string) => boolean,
+ *   getDiffPatch: (options?: CreatePatchOptions) => string,
+ *   createMergeEditor: (container: HTMLElement, options: CreateMergeEditorOptions) => Promise<{ ours, theirs, result }>,
+ *   detectedLanguage: ComputedRef<DetectedLanguage | null>,
+ *   fenceInfo: ComputedRef<FenceInfo | null>,
+ *   applyFenceInfo: (info: string | FenceInfo) => FenceInfo | null,
+ *   mergeConflicts: ComputedRef<MergeConflictState>,
+ *   goToNextConflict: () => number,
+ *   goToPreviousConflict: () => number,
+ *   takeOurs: (index?: number) => boolean,
+ *   takeTheirs: (index?: number) => boolean,
+ *   takeBoth: (index?: number) => boolean,
+ *   getMergedText: () => string | null,
+ *   cleanupEditor: () => void,
+ *   updateCode: (newCode: string, codeLanguage: string) => void,
+ *   appendCode: (appendText: string, codeLanguage?: string) => void,
+ *   updateDiff: (
+ *     originalCode: string,
+ *     modifiedCode: string,
+ *     codeLanguage?: string,
+ *   ) => void,
+ *   updateOriginal: (newCode: string, codeLanguage?: string) => void,
+ *   updateModified: (newCode: string, codeLanguage?: string) => void,
+ *   appendOriginal: (appendText: string, codeLanguage?: string) => void,
+ *   appendModified: (appendText: string, codeLanguage?: string) => void,
+ *   streamCode: (source: CodeStreamSource, options?: StreamCodeOptions) => Promise<StreamCodeResult>,
+ *   streamModified: (source: CodeStreamSource, options?: StreamCodeOptions) => Promise<StreamCodeResult>,
+ *   pauseAutoScroll: () => void,
+ *   trimmedLines: ComputedRef<number>,
+ *   loadEarlierLines: () => Promise<number>,
+ *   finalizeDiff: () => void,
+ *   diffStats: ComputedRef<DiffStats>,
+ *   goToNextChange: () => number,
+ *   goToPreviousChange: () => number,
+ *   acceptHunk: (index: number) => void,
+ *   rejectHunk: (index: number) => void,
+ *   getDiffHunks: () => DiffHunk[],
+ *   getResolvedText: () => string | null,
+ *   getResultModel: () => monaco.editor.ITextModel | null,
+ *   setTheme: (theme: MonacoTheme) => Promise<void>,
+ *   setLanguage: (language: MonacoLanguage) => void,
+ *   getCurrentTheme: () => string,
+ *   getEditor: () => typeof monaco.editor,
+ *   getEditorView: () => monaco.editor.IStandaloneCodeEditor | null,
+ *   getDiffEditorView: () => monaco.editor.IStandaloneDiffEditor | null,
+ *   getDiffModels: () => { original: monaco.editor.ITextModel | null, modified: monaco.editor.ITextModel | null },
+ * }} 返回对象包含以下方法和属性：
+ *
+ * @property {Function} createEditor - 创建并挂载 Monaco 编辑器到指定容器
+ * @property {Function} cleanupEditor - 销毁编辑器并清理容器
+ * @property {Function} updateCode - 更新编辑器内容和语言，必要时滚动到底部
+ * @property {Function} appendCode - 在编辑器末尾追加文本，必要时滚动到底部
+ * @property {Function} createDiffEditor - 创建并挂载 Diff 编辑器
+ * @property {Function} createDiffFromPatch - 解析 unified diff / git diff 文本并创建 Diff 编辑器
+ * @property {ComputedRef} patchFiles - patch 中的文件列表（路径、状态、两侧文本）
+ * @property {ComputedRef} activePatchFile - 当前显示的 patch 文件序号
+ * @property {Function} selectPatchFile - 按序号或路径切换显示的 patch 文件
+ * @property {Function} getDiffPatch - 将当前 Diff 导出为 unified diff 文本（可配置上下文行数与文件头）
+ * @property {Function} createMergeEditor - 创建三方合并编辑器：current / incoming 只读面板与可编辑的结果
+ * @property {ComputedRef} detectedLanguage - language 为 'auto' 时检测到的语言及置信度：{ language, confidence }
+ * @property {ComputedRef} fenceInfo - 当前应用的 fence info（语言、标题、高亮行）
+ * @property {Function} applyFenceInfo - 应用 markdown fence info string（如 ```ts title="a.ts" {1,3-5}）：语言、标题标签与行高亮
+ * @property {ComputedRef} mergeConflicts - 响应式合并状态：{ conflicts, currentConflict }
+ * @property {Function} goToNextConflict - 在结果面板中跳转到下一个冲突
+ * @property {Function} goToPreviousConflict - 在结果面板中跳转到上一个冲突
+ * @property {Function} takeOurs - 用 current 一侧解决冲突（默认当前冲突）
+ * @property {Function} takeTheirs - 用 incoming 一侧解决冲突（默认当前冲突）
+ * @property {Function} takeBoth - 保留两侧内容（current 在前）解决冲突
+ * @property {Function} getMergedText - 读取结果面板中的合并文本
+ * @property {Function} updateDiff - 更新 Diff 编辑器的 original/modified 内容（RAF 合并、增量更新）
+ * @property {Function} updateOriginal - 仅更新 Diff 的 original 内容（增量更新）
+ * @property {Function} updateModified - 仅更新 Diff 的 modified 内容（增量更新）
+ * @property {Function} appendOriginal - 在 Diff 的 original 末尾追加（显式流式场景）
+ * @property {Function} appendModified - 在 Diff 的 modified 末尾追加（显式流式场景）
+ * @property {Function} streamCode - 消费 AsyncIterable / ReadableStream / EventSource 并逐块追加到编辑器，支持 AbortSignal
+ * @property {Function} streamModified - 同 streamCode，但写入 Diff 的 modified 侧
+ * @property {Function} pauseAutoScroll - 暂停单编辑器的自动滚动并丢弃尚未执行的 reveal
+ * @property {ComputedRef} trimmedLines - 尾随模式（maxLines）下已从头部裁掉的行数
+ * @property {Function} loadEarlierLines - 尾随模式下通过 onLoadEarlier 加载更早的行，返回实际加载的行数
+ * @property {Function} finalizeDiff - 结束 streamingDiff 模式，切换为完整 diff
+ * @property {ComputedRef} diffStats - 响应式 Diff 统计：{ added, removed, hunks, currentHunk }
+ * @property {Function} goToNextChange - 跳转并在 modified 侧显示下一个变更块
+ * @property {Function} goToPreviousChange - 跳转并在 modified 侧显示上一个变更块
+ * @property {Function} acceptHunk - 接受指定 hunk，将其 modified 内容写入结果模型（需开启 diffHunkActions）
+ * @property {Function} rejectHunk - 拒绝指定 hunk，结果模型保留 original 内容
+ * @property {Function} getDiffHunks - 获取当前所有 hunk 及其处理状态
+ * @property {Function} getResolvedText - 获取按当前决定合并后的结果文本
+ * @property {Function} getResultModel - 获取结果模型
+ * @property {Function} setTheme - 切换编辑器主题，返回 Promise，在主题应用完成时 resolve
+ * @property {Function} setLanguage - 切换编辑器语言
+ * @property {Function} getCurrentTheme - 获取当前主题名称
+ * @property {Function} getEditor - 获取 Monaco 的静态 editor 对象（用于静态方法调用）
+ * @property {Function} getEditorView - 获取当前编辑器实例
+ * @property {Function} getDiffEditorView - 获取当前 Diff 编辑器实例
+ * @property {Function} getDiffModels - 获取 Diff 的 original/modified 两个模型
+ *
+ * @throws {Error} 当主题数组不是数组或长度小于2时抛出错误
+ *
+ * @example
+ * ```typescript
+ * import { useMonaco } from 'vue-use-monaco'
+ *
+ * const { createEditor, updateCode, setTheme } = useMonaco({
+ *   themes: ['vitesse-dark', 'vitesse-light'],
+ *   languages: ['javascript', 'typescript'],
+ *   readOnly: false
+ * })
+ *
+ * // 创建编辑器
+ * const editor = await createEditor(containerRef.value, 'console.log("hello")', 'javascript')
+ *
+ * // 更新代码
+ * updateCode('console.log("world")', 'javascript')
+ *
+ * // 切换主题
+ * setTheme('vitesse-light')
+ * ```
+ */
+export function useMonaco(monacoOptions: MonacoOptions = {}) {
+  // per-instance disposables (avoid cross-instance interference)
+  const disposals: monaco.IDisposable[] = []
+  // 清除之前在 onBeforeCreate 中注册的资源
+  if (monacoOptions.isCleanOnBeforeCreate ?? true)
+    disposals.forEach(d => d.dispose())
+  // 释放已处理的引用，避免数组无限增长
+  if (monacoOptions.isCleanOnBeforeCreate ?? true)
+    disposals.length = 0
+  let editorView: monaco.editor.IStandaloneCodeEditor | null = null
+  let editorMgr: EditorManager | null = null
+  // 新增：Diff Editor 相关引用（由 DiffEditorManager 管理）
+  let diffEditorView: monaco.editor.IStandaloneDiffEditor | null = null
+  let diffMgr: DiffEditorManager | null = null
+  // 三方合并编辑器（由 MergeEditorManager 管理）
+  let mergeMgr: MergeEditorManager | null = null
+  let originalModel: monaco.editor.ITextModel | null = null
+  let modifiedModel: monaco.editor.ITextModel | null = null
+  let _hasScrollBar = false
+
+  const themes = (monacoOptions.themes && monacoOptions.themes?.length) ? monacoOptions.themes : defaultThemes
+  if (!Array.isArray(themes) || themes.length < 2) {
+    throw new Error(
+      'Monaco themes must be an array with at least two themes: [darkTheme, lightTheme]',
+    )
+  }
+  // 按需加载的语言会追加到这里
+  const languages: string[] = [...(monacoOptions.languages ?? defaultLanguages)]
+  const MAX_HEIGHT = monacoOptions.MAX_HEIGHT ?? 500
+  const autoScrollOnUpdate = monacoOptions.autoScrollOnUpdate ?? true
+  const autoScrollInitial = monacoOptions.autoScrollInitial ?? true
+  const autoScrollThresholdPx = monacoOptions.autoScrollThresholdPx ?? 32
+  const autoScrollThresholdLines = monacoOptions.autoScrollThresholdLines ?? 2
+  const diffAutoScroll = monacoOptions.diffAutoScroll ?? true
+
+  // 处理 MAX_HEIGHT，转换为数值（用于高度比较）和CSS字符串
+  const { value: maxHeightValue, css: maxHeightCSS } = resolveMaxHeight(MAX_HEIGHT)
+  let lastContainer: HTMLElement | null = null
+  // 已写入模型的内容，增量记录，避免每次编辑后回读整个模型
+  const knownCode = createKnownContent()
+  // 合并同一帧内的多次 updateCode 调用，降低布局与 DOM 抖动
+  let pendingUpdate: { code: string, lang?: string } | null = null
+  // raf handled by rafScheduler
+  // 自动滚动控制：
+  // - 当用户向上滚动离开底部时，暂停 revealLine 的自动滚动
+  // - 当用户再次滚动回接近底部（阈值：两行高或 32px）时，恢复自动滚动
+  let shouldAutoScroll = true
+  // cached computed height (min(lineCount*lineHeight + padding, maxHeightValue))
+  // make mutable so it can be updated when layout/content changes
+  const cachedComputedHeight: number | null = null
+  // 追加立即写入模型，滚动合并到每帧一次：记录本帧第一次追加前的行数
+  let appendStartLine: number | null = null
+  // Diff 自动滚动控制由 DiffEditorManager 负责
+  // 记录上一次应用的主题，避免重复 setTheme 引发不必要的工作
+  let lastAppliedTheme: string | null = null
+  const currentTheme = computed<string>(() =>
+    monacoOptions.theme
+    ?? (isDark.value
+      ? typeof themes[0] === 'string'
+        ? themes[0]
+        : (themes[0] as any).name
+      : typeof themes[1] === 'string'
+        ? themes[1]
+        : (themes[1] as any).name),
+  )
+  let themeWatcher: WatchStopHandle | null = null
+  // Diff 统计（新增/删除行数、hunk 数量、当前 hunk），随 diff 重新计算而更新
+  const diffStats = shallowRef<DiffStats>(emptyDiffStats)
+  let diffStatsDisposable: monaco.IDisposable | null = null
+  // 尾随模式（maxLines）下已裁掉的行数
+  const trimmedLines = shallowRef(0)
+  let trimmedLinesDisposable: monaco.IDisposable | null = null
+  // createDiffFromPatch 解析出的文件及当前显示的文件序号
+  const patchFiles = shallowRef<PatchDiffFile[]>([])
+  const activePatchFile = shallowRef(-1)
+  let patchLanguage: string | undefined
+  const emptyMergeState: MergeConflictState = { conflicts: 0, currentConflict: -1 }
+  const mergeState = shallowRef<MergeConflictState>(emptyMergeState)
+  let mergeStateDisposable: monaco.IDisposable | null = null
+  // language: 'auto' 时的检测结果（带迟滞，流式增长时不会来回切换）
+  const detectedLanguage = shallowRef<DetectedLanguage | null>(null)
+  let languageTracker: ReturnType<typeof createLanguageTracker> | null = null
+  // 最近一次显式请求的语言，用于丢弃过时的按需加载结果
+  let requestedLanguage: string | null = null
+  // 正在按需加载 / 加载失败的语言：每种语言只加载一次，失败只报告一次
+  const loadingLanguages = new Set<string>()
+  const failedLanguages = new Set<string>()
+
+  const fenceInfo = shallowRef<FenceInfo | null>(null)
+  let fenceDecorator: FenceDecorator | null = null
+
+  // 与其他实例共享、按引用计数的主题 / 语法注册；cleanupEditor 时释放
+  let resources: MonacoResources | null = null
+  function useResources() {
+    return resources ??= acquireMonacoResources(themes, languages)
+  }
+
+  // per-instance RAF scheduler; the time source can be injected via options
+  const rafScheduler = createRafScheduler(monacoOptions.timeSource)
+
+  // Internal helper that applies a theme and invokes MonacoOptions.onThemeChange
+  // after the theme has been applied. Exposed internally so watchers can call
+  // the same logic and callers can await exported setTheme for completion.
+  async function setThemeInternal(theme: MonacoTheme, force = false): Promise<void> {
+    const themeName = typeof theme === 'string' ? theme : (theme as any).name
+
+    if (!force && themeName === lastAppliedTheme) {
+      return
+    }
+
+    const resources = useResources()
+    await resources.register().catch(() => undefined)
+
+    const availableNames = themes.map(t => (typeof t === 'string' ? t : (t as any).name))
+    if (!availableNames.includes(themeName)) {
+      try {
+        resources.addTheme(themeName)
+        const maybeHighlighter = await resources.register()
+        if (maybeHighlighter && typeof maybeHighlighter.setTheme === 'function') {
+          try {
+            await maybeHighlighter.setTheme(themeName)
+          }
+          catch { }
+        }
+      }
+      catch {
+        console.warn(`Theme "${themeName}" is not registered and automatic registration failed. Available themes: ${availableNames.join(', ')}`)
+        return
+      }
+    }
+
+    try {
+      resources.applyTheme(themeName)
+      lastAppliedTheme = themeName
+    }
+    catch {
+      try {
+        const maybeHighlighter = await resources.register()
+        resources.applyTheme(themeName)
+        lastAppliedTheme = themeName
+        if (maybeHighlighter && typeof maybeHighlighter.setTheme === 'function') {
+          await maybeHighlighter.setTheme(themeName).catch(() => undefined)
+        }
+      }
+      catch (err2) {
+        console.warn(`Failed to set theme "${themeName}":`, err2)
+        return
+      }
+    }
+
+    if (editorMgr?.isAnsiMode())
+      void applyAnsiPalette(themeName)
+
+    // call user callback if provided; await to allow callers to observe completion
+    try {
+      if (typeof monacoOptions.onThemeChange === 'function') {
+        await monacoOptions.onThemeChange(themeName as any)
+      }
+    }
+    catch (err) {
+      console.warn('onThemeChange callback threw an error:', err)
+    }
+  }
+
+  // ANSI 输出的 16 色取自当前 shiki 主题的 terminal.ansi* 颜色；主题未定义的使用默认色
+  async function applyAnsiPalette(themeName: string) {
+    const highlighter = await useResources().register().catch(() => null)
+    if (!editorMgr?.isAnsiMode() || themeName !== lastAppliedTheme)
+      return
+    let colors: Record<string, string> | undefined
+    try {
+      colors = highlighter?.getTheme(themeName).colors
+    }
+    catch { }
+    editorMgr.setAnsiPalette(ansiPalette(colors))
+  }
+
+  // 'ansi' 伪语言：切换单编辑器的 ANSI 模式；未传语言时保持当前模式。返回是否按 ANSI 输出处理
+  function useAnsiMode(language?: string) {
+    if (!editorMgr)
+      return false
+    if (language === undefined)
+      return editorMgr.isAnsiMode()
+    const enabled = language === ansiLanguage
+    if (enabled !== editorMgr.isAnsiMode()) {
+      editorMgr.setAnsiMode(enabled)
+      if (enabled && lastAppliedTheme)
+        void applyAnsiPalette(lastAppliedTheme)
+    }
+    return enabled
+  }
+
+  // height management is handled within EditorManager/DiffEditorManager
+
+  // 检查是否出现垂直滚动条
+  function hasVerticalScrollbar(): boolean {
+    if (!editorView)
+      return false
+    if (_hasScrollBar)
+      return true
+    const ch = cachedComputedHeight ?? computedHeight(editorView)
+    return _hasScrollBar = (editorView.getScrollHeight!() > ch + padding / 2)
+  }
+  // 在满足条件时滚动到底部，否则尊重用户滚动状态
+  // debounce id for reveal (module-scope for top-level helper)
+  let revealDebounceId: number | null = null
+  const revealDebounceMs = 75
+  function maybeScrollToBottom(targetLine?: number) {
+    if (autoScrollOnUpdate && shouldAutoScroll && hasVerticalScrollbar()) {
+      const model = editorView!.getModel()
+      const line = targetLine ?? model?.getLineCount() ?? 1
+
+      if (revealDebounceId != null) {
+        clearTimeout(revealDebounceId)
+        revealDebounceId = null
+      }
+      revealDebounceId = (setTimeout(() => {
+        revealDebounceId = null
+        rafScheduler.schedule('reveal', () => {
+          try {
+            const ScrollType: any = (monaco as any).ScrollType || (monaco as any).editor?.ScrollType
+            if (ScrollType && typeof ScrollType.Smooth !== 'undefined')
+              editorView!.revealLineInCenterIfOutsideViewport(line, ScrollType.Smooth)
+            else
+              editorView!.revealLineInCenterIfOutsideViewport(line)
+          }
+          catch {
+            // ignore reveal errors
+          }
+        })
+      }, revealDebounceMs) as unknown) as number
+    }
+  }
+
+  async function createEditor(
+    container: HTMLElement,
+    code: string,
+    language: string,
+  ) {
+    // 使用 EditorManager 重构
+    cleanupEditor()
+    lastContainer = container
+
+    if (monacoOptions.isCleanOnBeforeCreate ?? true) {
+      disposals.forEach(d => d.dispose())
+      disposals.length = 0
+    }
+    if (monacoOptions.onBeforeCreate) {
+      const ds = monacoOptions.onBeforeCreate(monaco)
+      if (ds)
+        disposals.push(...ds)
+    }
+
+    await useResources().register()
+
+    // Determine initial theme: prefer explicit option, otherwise use computed
+    const initialThemeName = monacoOptions.theme ?? currentTheme.value
+    lastAppliedTheme = initialThemeName
+
+    editorMgr = new EditorManager(
+      monacoOptions,
+      maxHeightValue,
+      maxHeightCSS,
+      autoScrollOnUpdate,
+      autoScrollInitial,
+      autoScrollThresholdPx,
+      autoScrollThresholdLines,
+      monacoOptions.revealDebounceMs,
+    )
+    trimmedLinesDisposable = editorMgr.onDidChangeTrimmedLines((trimmed) => {
+      trimmedLines.value = trimmed
+    })
+    if (language === ansiLanguage) {
+      editorView = await editorMgr.createEditor(container, '', 'plaintext', initialThemeName)
+      useAnsiMode(language)
+      editorMgr.appendAnsi(code)
+    }
+    else {
+      editorView = await editorMgr.createEditor(container, code, resolveLanguage(code, language) ?? 'plaintext', initialThemeName)
+    }
+    useResources().applyTheme(initialThemeName, container)
+    if (isFenceInfo(language))
+      applyFenceInfo(language)
+
+    if (typeof monacoOptions.onThemeChange === 'function') {
+      monacoOptions.onThemeChange(initialThemeName as any)
+    }
+    // Watch theme changes - use internal setter so onThemeChange is invoked
+    if (!monacoOptions.theme) {
+      themeWatcher = watch(
+        () => isDark.value,
+        () => {
+          const t = currentTheme.value
+          if (t !== lastAppliedTheme) {
+            void setThemeInternal(t)
+          }
+        },
+        { flush: 'post', immediate: true },
+      )
+    }
+
+    try {
+      if (editorView)
+        knownCode.set(editorView.getModel()!, editorView.getValue())
+    }
+    catch { }
+
+    return editorView
+  }
+  function computedHeight(editorView: monaco.editor.IStandaloneCodeEditor) {
+    const lineCount = editorView!.getModel()?.getLineCount() ?? 1
+    const lineHeight = editorView!.getOption(
+      monaco.editor.EditorOption.lineHeight,
+    )
+    return computeEditorHeight(lineCount, lineHeight, maxHeightValue)
+  }
+  // 新增：创建 Diff 编辑器
+  async function createDiffEditor(
+    container: HTMLElement,
+    originalCode: string,
+    modifiedCode: string,
+    language: string,
+  ) {
+    cleanupEditor()
+    lastContainer = container
+
+    // 在创建编辑器之前执行用户自定义逻辑（按需清理上一次的 disposables）
+    if (monacoOptions.isCleanOnBeforeCreate ?? true) {
+      disposals.forEach(d => d.dispose())
+      disposals.length = 0
+    }
+    if (monacoOptions.onBeforeCreate) {
+      const ds = monacoOptions.onBeforeCreate(monaco)
+      if (ds)
+        disposals.push(...ds)
+    }
+
+    await useResources().register()
+
+    const initialThemeName = monacoOptions.theme ?? currentTheme.value
+    try {
+      useResources().applyTheme(initialThemeName, container)
+      lastAppliedTheme = initialThemeName
+    }
+    catch {
+      // ignore
+    }
+
+    diffMgr = new DiffEditorManager(
+      monacoOptions,
+      maxHeightValue,
+      maxHeightCSS,
+      autoScrollOnUpdate,
+      autoScrollInitial,
+      autoScrollThresholdPx,
+      autoScrollThresholdLines,
+      diffAutoScroll,
+      monacoOptions.revealDebounceMs,
+    )
+    const diffLanguage = resolveLanguage(modifiedCode || originalCode, language) ?? 'plaintext'
+    diffEditorView = await diffMgr.createDiffEditor(container, originalCode, modifiedCode, diffLanguage, initialThemeName)
+
+    if (typeof monacoOptions.onThemeChange === 'function') {
+      monacoOptions.onThemeChange(initialThemeName as any)
+    }
+    // 主题监听 - use internal setter so onThemeChange is invoked
+    if (!monacoOptions.theme) {
+      themeWatcher = watch(
+        () => isDark.value,
+        () => {
+          const t = currentTheme.value
+          if (t !== lastAppliedTheme) {
+            void setThemeInternal(t)
+          }
+        },
+        { flush: 'post', immediate: true },
+      )
+    }
+
+    diffStatsDisposable = diffMgr.onDidChangeDiffStats((stats) => {
+      diffStats.value = stats
+    })
+
+    // cache models for getters
+    const models = diffMgr.getDiffModels()
+    originalModel = models.original
+    modifiedModel = models.modified
+
+    return diffEditorView
+  }
+
+  // 'auto' 开启检测；显式语言关闭检测；未传语言时沿用当前模式
+  function applyDetected(detected: DetectedLanguage) {
+    // 检测到未注册的语言（如默认 languages 之外的 shell、makefile）时按需加载，每次检测结果变化只请求一次
+    const { language } = detected
+    if (language !== detectedLanguage.value?.language && language !== 'plaintext' && !languages.includes(language))
+      ensureLanguage(language)
+    if (detected !== detectedLanguage.value)
+      detectedLanguage.value = detected
+    // 加载完成前（或加载失败时）按纯文本显示，detectedLanguage 仍保留检测结果
+    return languages.includes(language) ? language : 'plaintext'
+  }
+
+  // 返回 undefined 表示保持模型当前的语言（显式语言的语法尚未加载或加载失败）
+  function resolveLanguage(code: string, language?: string) {
+    if (language === 'auto')
+      languageTracker ??= createLanguageTracker(monacoOptions.languageDetection)
+    else if (language)
+      return explicitLanguage(language, code)
+    if (!languageTracker)
+      return language
+    return applyDetected(languageTracker.update(code))
+  }
+
+  function resolveAppendLanguage(appendText: string, language?: string) {
+    if (language === 'auto')
+      languageTracker ??= createLanguageTracker(monacoOptions.languageDetection)
+    else if (language)
+      return explicitLanguage(language, appendText)
+    if (!languageTracker)
+      return language
+    return applyDetected(languageTracker.append(appendText))
+  }
+
+  // 语法可用前不切换模型语言，由 ensureLanguage 在加载完成后应用
+  function explicitLanguage(language: string, code: string) {
+    const resolved = disableDetection(isLanguagePath(language) ? languageFromFile(language, code) : language)
+    return ensureLanguage(resolved) ? resolved : undefined
+  }
+
+  // 不在 languages 中的语言按需加载 shiki 语法；加载完成时若仍是最近请求的语言则应用。
+  // 返回该语言当前是否可以直接使用
+  function ensureLanguage(language: string) {
+    const lang = processedLanguage(language)
+    requestedLanguage = lang
+    if (!lang || lang === 'plaintext' || languages.includes(lang))
+      return true
+    if (loadingLanguages.has(lang) || failedLanguages.has(lang))
+      return false
+    loadingLanguages.add(lang)
+    useResources().loadLanguage(lang).then(() => {
+      loadingLanguages.delete(lang)
+      if (!languages.includes(lang))
+        languages.push(lang)
+      if (requestedLanguage === lang)
+        setLanguage(lang)
+    }, (error) => {
+      loadingLanguages.delete(lang)
+      failedLanguages.add(lang)
+      if (monacoOptions.onLanguageLoadError)
+        monacoOptions.onLanguageLoadError(lang, error)
+      else
+        console.warn(`Failed to load language "${lang}":`, error)
+    })
+  }
+
+  // original 一侧不参与检测，'auto' 时跟随当前检测结果
+  function currentLanguage(language?: string) {
+    if (language !== 'auto')
+      return language
+    return languageTracker ? applyDetected(languageTracker.current()) : 'plaintext'
+  }
+
+  function disableDetection(language: string) {
+    languageTracker = null
+    detectedLanguage.value = null
+    return language
+  }
+
+  // 应用 markdown fence info string：语言、标题标签与高亮行（作用于代码编辑器或 Diff 的 modified 侧）
+  function applyFenceInfo(info: string | FenceInfo) {
+    const parsed = typeof info === 'string' ? parseFenceInfo(info) : info
+    const target = editorView ?? diffEditorView?.getModifiedEditor() ?? null
+    if (!target)
+      return null
+    if (languageTracker)
+      disableDetection(parsed.language)
+    const model = target.getModel()
+    const language = processedLanguage(parsed.language)
+    if (model && model.getLanguageId() !== language)
+      monaco.editor.setModelLanguage(model, language)
+    fenceDecorator ??= new FenceDecorator(target)
+    fenceDecorator.apply(parsed)
+    fenceInfo.value = parsed
+    return parsed
+  }
+
+  // 设置语言；未注册的语言先按需加载，加载完成后再应用
+  function setLanguage(language: MonacoLanguage) {
+    // 也接受文件路径 / URI
+    if (isLanguagePath(language))
+      language = languageFromFile(language, editorView?.getValue() ?? modifiedModel?.getValue() ?? getMergedText() ?? undefined)
+    if (!languages.includes(language)) {
+      const lang = processedLanguage(language)
+      if (lang !== 'plaintext' && !languages.includes(lang)) {
+        ensureLanguage(lang)
+        return
+      }
+      language = lang
+    }
+    requestedLanguage = language
+    if (editorMgr) {
+      editorMgr.setLanguage(language, languages as any)
+      return
+    }
+    if (diffMgr) {
+      diffMgr.setLanguage(language, languages as any)
+      return
+    }
+    if (mergeMgr) {
+      mergeMgr.setLanguage(language, languages as any)
+      return
+    }
+    if (editorView) {
+      const model = editorView.getModel()
+      if (model && model.getLanguageId() !== language)
+        monaco.editor.setModelLanguage(model, language)
+    }
+    if (originalModel && originalModel.getLanguageId() !== language)
+      monaco.editor.setModelLanguage(originalModel, language)
+    if (modifiedModel && modifiedModel.getLanguageId() !== language)
+      monaco.editor.setModelLanguage(modifiedModel, language)
+  }
+
+  // 新增：创建三方合并编辑器（current / incoming 只读面板 + 可编辑的结果）
+  async function createMergeEditor(container: HTMLElement, options: CreateMergeEditorOptions) {
+    cleanupEditor()
+    lastContainer = container
+
+    if (monacoOptions.isCleanOnBeforeCreate ?? true) {
+      disposals.forEach(d => d.dispose())
+      disposals.length = 0
+    }
+    if (monacoOptions.onBeforeCreate) {
+      const ds = monacoOptions.onBeforeCreate(monaco)
+      if (ds)
+        disposals.push(...ds)
+    }
+
+    await useResources().register()
+
+    const initialThemeName = monacoOptions.theme ?? currentTheme.value
+    lastAppliedTheme = initialThemeName
+
+    mergeMgr = new MergeEditorManager(monacoOptions, maxHeightValue)
+    mergeStateDisposable = mergeMgr.onDidChangeConflicts((state) => {
+      mergeState.value = state
+    })
+    const editors = mergeMgr.createMergeEditor(container, options, initialThemeName)
+    useResources().applyTheme(initialThemeName, container)
+
+    if (typeof monacoOptions.onThemeChange === 'function') {
+      monacoOptions.onThemeChange(initialThemeName as any)
+    }
+    if (!monacoOptions.theme) {
+      themeWatcher = watch(
+        () => isDark.value,
+        () => {
+          const t = currentTheme.value
+          if (t !== lastAppliedTheme) {
+            void setThemeInternal(t)
+          }
+        },
+        { flush: 'post', immediate: true },
+      )
+    }
+
+    return editors
+  }
+
+  // 合并冲突导航与解决（index 默认为当前冲突）
+  function goToNextConflict() {
+    return mergeMgr ? mergeMgr.goToNextConflict() : -1
+  }
+
+  function goToPreviousConflict() {
+    return mergeMgr ? mergeMgr.goToPreviousConflict() : -1
+  }
+
+  function takeOurs(index?: number) {
+    return mergeMgr ? mergeMgr.resolveConflict('ours', index) : false
+  }
+
+  function takeTheirs(index?: number) {
+    return mergeMgr ? mergeMgr.resolveConflict('theirs', index) : false
+  }
+
+  function takeBoth(index?: number) {
+    return mergeMgr ? mergeMgr.resolveConflict('both', index) : false
+  }
+
+  function getMergedText() {
+    return mergeMgr ? mergeMgr.getMergedText() : null
+  }
+
+  // 从 unified diff / git diff 文本创建 Diff 编辑器；多文件 patch 通过 selectPatchFile 切换
+  async function createDiffFromPatch(
+    container: HTMLElement,
+    patchText: string,
+    options: CreateDiffFromPatchOptions = {},
+  ) {
+    const parsed = parsePatch(patchText)
+    if (!parsed.length)
+      throw new Error('No file diffs found in patch text')
+    const files = parsed.map((file): PatchDiffFile => {
+      const path = patchFilePath(file)
+      const base = typeof options.baseText === 'string'
+        ? (parsed.length === 1 ? options.baseText : undefined)
+        : options.baseText?.[file.oldPath ?? ''] ?? options.baseText?.[path]
+      const { original, modified } = file.status === 'added'
+        ? reconstructPatchFile(file)
+        : reconstructPatchFile(file, base)
+      return { path, oldPath: file.oldPath, newPath: file.newPath, status: file.status, binary: file.binary, original, modified }
+    })
+    const initial = Math.max(0, findPatchFile(files, options.file ?? 0))
+    const view = await createDiffEditor(container, files[initial].original, files[initial].modified, options.language ?? patchFileLanguage(files[initial]))
+    patchFiles.value = files
+    activePatchFile.value = initial
+    patchLanguage = options.language
+    return view
+  }
+
+  // 未指定语言时按文件路径（及内容）逐个文件解析
+  function patchFileLanguage(file: PatchDiffFile) {
+    return languageFromFile(file.path, file.modified || file.original)
+  }
+
+  function findPatchFile(files: readonly PatchDiffFile[], file: number | string) {
+    if (typeof file === 'number')
+      return file >= 0 && file < files.length ? file : -1
+    return files.findIndex(f => f.path === file || f.oldPath === file)
+  }
+
+  // 切换 patch 中显示的文件；modified 侧的编辑会保留在对应文件上
+  function selectPatchFile(file: number | string) {
+    const index = findPatchFile(patchFiles.value, file)
+    if (index === -1 || !diffMgr)
+      return false
+    if (index === activePatchFile.value)
+      return true
+    const files = patchFiles.value.slice()
+    const current = files[activePatchFile.value]
+    if (current && modifiedModel)
+      files[activePatchFile.value] = { ...current, modified: modifiedModel.getValue() }
+    diffMgr.setDiffContent(files[index].original, files[index].modified, patchLanguage ?? patchFileLanguage(files[index]))
+    patchFiles.value = files
+    activePatchFile.value = index
+    return true
+  }
+
+  // 将当前 Diff（包括 modified 侧的编辑）导出为 unified diff；来自 patch 时默认沿用文件路径
+  function getDiffPatch(options: CreatePatchOptions = {}) {
+    if (!originalModel || !modifiedModel)
+      return ''
+    const file = patchFiles.value[activePatchFile.value]
+    return createPatch(originalModel.getValue(), modifiedModel.getValue(), {
+      ...(file ? { oldFile: file.oldPath, newFile: file.newPath } : {}),
+      ...options,
+    })
+  }
+
+  // onUnmounted(cleanupEditor)
+
+  // Ensure cleanup stops the watcher
+  function cleanupEditor() {
+    if (editorMgr) {
+      editorMgr.cleanup()
+      editorMgr = null
+    }
+    if (trimmedLinesDisposable) {
+      trimmedLinesDisposable.dispose()
+      trimmedLinesDisposable = null
+    }
+    trimmedLines.value = 0
+    if (diffStatsDisposable) {
+      diffStatsDisposable.dispose()
+      diffStatsDisposable = null
+    }
+    diffStats.value = emptyDiffStats
+    patchFiles.value = []
+    activePatchFile.value = -1
+    patchLanguage = undefined
+    languageTracker = null
+    detectedLanguage.value = null
+    requestedLanguage = null
+    if (resources) {
+      resources.release()
+      resources = null
+    }
+    if (fenceDecorator) {
+      fenceDecorator.dispose()
+      fenceDecorator = null
+    }
+    fenceInfo.value = null
+    if (mergeStateDisposable) {
+      mergeStateDisposable.dispose()
+      mergeStateDisposable = null
+    }
+    mergeState.value = emptyMergeState
+    if (mergeMgr) {
+      mergeMgr.cleanup()
+      mergeMgr = null
+    }
+    if (diffMgr) {
+      diffMgr.cleanup()
+      diffMgr = null
+    }
+    // cancel rafs and pending updates
+    rafScheduler.cancel('update')
+    pendingUpdate = null
+    // cancel any pending append flushes and clear buffers for single editor
+    rafScheduler.cancel('append')
+    appendStartLine = null
+    // If an EditorManager was active it already disposed the editor instance.
+    // Only dispose the module-level editorView when there is no editorMgr to avoid
+    // double-dispose races (which can throw in some Monaco builds).
+    if (!editorMgr && editorView) {
+      editorView.dispose()
+      editorView = null
+    }
+    knownCode.invalidate()
+    if (lastContainer) {
+      lastContainer.innerHTML = ''
+      lastContainer = null
+    }
+    if (themeWatcher) {
+      themeWatcher()
+      themeWatcher = null
+    }
+
+    // height managers are managed by the respective managers
+
+    // Diff 相关释放由 diffMgr 处理，清空本地引用
+    diffEditorView = null
+    originalModel = null
+    modifiedModel = null
+  }
+
+  // 将 updateCode 和 appendCode 提升为闭包内函数，便于相互调用且避免 this 绑定问题
+  function appendCode(appendText: string, codeLanguage?: string) {
+    if (useAnsiMode(codeLanguage)) {
+      editorMgr!.appendAnsi(appendText)
+      return
+    }
+    appendToEditor(appendText, resolveAppendLanguage(appendText, codeLanguage))
+  }
+
+  function appendToEditor(appendText: string, codeLanguage?: string) {
+    if (editorMgr) {
+      editorMgr.appendCode(appendText, codeLanguage)
+    }
+    else {
+      if (!editorView)
+        return
+      const model = editorView.getModel()
+      if (!model)
+        return
+      const processedCodeLanguage = codeLanguage
+        ? processedLanguage(codeLanguage)
+        : model.getLanguageId()
+      if (processedCodeLanguage && model.getLanguageId() !== processedCodeLanguage)
+        monaco.editor.setModelLanguage(model, processedCodeLanguage)
+      if (!appendText)
+        return
+      appendStartLine ??= model.getLineCount()
+      const lastLine = model.getLineCount()
+      const lastColumn = model.getLineMaxColumn(lastLine)
+      const range = new monaco.Range(lastLine, lastColumn, lastLine, lastColumn)
+      const versionBefore = model.getVersionId()
+      const isReadOnly = editorView.getOption(monaco.editor.EditorOption.readOnly)
+      if (isReadOnly)
+        model.applyEdits([{ range, text: appendText, forceMoveMarkers: true }])
+      else editorView.executeEdits('append', [{ range, text: appendText, forceMoveMarkers: true }])
+      knownCode.append(model, appendText, versionBefore)
+      rafScheduler.schedule('append', flushAppendScroll)
+    }
+  }
+
+  // 按行 diff 构造若干互不重叠的最小替换编辑，未改动的行保持不变（折叠、装饰、选区等不受影响）
+  function applyMinimalEdit(prev: string, next: string) {
+    if (!editorView)
+      return
+    const model = editorView.getModel()
+    if (!model)
+      return
+
+    const edit = computeMinimalEdits(prev, next).map(({ start, endPrevIncl, replaceText }) => {
+      const rangeStart = model.getPositionAt(start)
+      const rangeEnd = model.getPositionAt(endPrevIncl + 1)
+      const range = new monaco.Range(
+        rangeStart.lineNumber,
+        rangeStart.column,
+        rangeEnd.lineNumber,
+        rangeEnd.column,
+      )
+      return { range, text: replaceText, forceMoveMarkers: true }
+    })
+    // 完全相同无需处理
+    if (!edit.length)
+      return
+
+    const isReadOnly = editorView.getOption(monaco.editor.EditorOption.readOnly)
+    if (isReadOnly)
+      model.applyEdits(edit)
+    else editorView.executeEdits('minimal-replace', edit)
+  }
+
+  // Diff 模型编辑由 DiffEditorManager 负责
+
+  function flushPendingUpdate() {
+    // scheduled via rafScheduler
+    if (!pendingUpdate)
+      return
+    if (!editorView)
+      return
+    const model = editorView.getModel()
+    if (!model)
+      return
+    const { code: newCode, lang: codeLanguage } = pendingUpdate
+    pendingUpdate = null
+    const languageId = model.getLanguageId()
+    const processedCodeLanguage = codeLanguage ? processedLanguage(codeLanguage) : languageId
+
+    // 语言不同：切换语言并全量写入（避免增量带来的 tokenization 错配）
+    if (languageId !== processedCodeLanguage) {
+      if (processedCodeLanguage)
+        monaco.editor.setModelLanguage(model, processedCodeLanguage)
+      const prevLineCount = model.getLineCount()
+      model.setValue(newCode)
+      knownCode.set(model, newCode)
+      const newLineCount = model.getLineCount()
+      if (newLineCount !== prevLineCount) {
+        maybeScrollToBottom(newLineCount)
+      }
+      return
+    }
+
+    const prevCode = knownCode.get(model)
+    if (prevCode === newCode)
+      return
+
+    // 仅追加（流式场景最常见）
+    if (newCode.startsWith(prevCode) && prevCode.length < newCode.length) {
+      appendToEditor(newCode.slice(prevCode.length), codeLanguage)
+      return
+    }
+
+    // 中间最小替换，减少 DOM 变动范围
+    const prevLineCount = model.getLineCount()
+    applyMinimalEdit(prevCode, newCode)
+    knownCode.set(model, newCode)
+    const newLineCount = model.getLineCount()
+    if (newLineCount !== prevLineCount) {
+      maybeScrollToBottom(newLineCount)
+    }
+  }
+
+  // 每帧一次：追加导致行数变化时滚动到底部
+  function flushAppendScroll() {
+    const startLine = appendStartLine
+    appendStartLine = null
+    const model = editorView?.getModel()
+    if (!model || startLine == null)
+      return
+    const newLineCount = model.getLineCount()
+    if (startLine !== newLineCount)
+      maybeScrollToBottom(newLineCount)
+  }
+
+  function updateCode(newCode: string, codeLanguage: string) {
+    if (useAnsiMode(codeLanguage)) {
+      editorMgr!.updateAnsi(newCode)
+      return
+    }
+    const lang = resolveLanguage(newCode, codeLanguage)
+    if (editorMgr) {
+      editorMgr.updateCode(newCode, lang)
+    }
+    else {
+      pendingUpdate = { code: newCode, lang }
+      rafScheduler.schedule('update', () => flushPendingUpdate())
+    }
+  }
+
+  // Diff RAF 更新由 DiffEditorManager 负责
+
+  // Diff 追加批处理由 DiffEditorManager 负责
+
+  // 更新 Diff（合并同帧，增量写入）
+  function updateDiff(originalCode: string, modifiedCode: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.updateDiff(originalCode, modifiedCode, resolveLanguage(modifiedCode, codeLanguage))
+  }
+
+  // 分别更新 original/modified（即时增量）
+  function updateOriginal(newCode: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.updateOriginal(newCode, currentLanguage(codeLanguage))
+  }
+
+  function updateModified(newCode: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.updateModified(newCode, resolveLanguage(newCode, codeLanguage))
+  }
+
+  // 显式在 Diff 的 original 末尾追加
+  function appendOriginal(appendText: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.appendOriginal(appendText, currentLanguage(codeLanguage))
+  }
+
+  // 显式在 Diff 的 modified 末尾追加，并在需要时滚动
+  function appendModified(appendText: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.appendModified(appendText, resolveAppendLanguage(appendText, codeLanguage))
+  }
+
+  // 在 modified 侧跳转到下一个/上一个变更块，返回其序号（无变更时为 -1）
+  function goToNextChange() {
+    return diffMgr ? diffMgr.goToNextChange() : -1
+  }
+
+  function goToPreviousChange() {
+    return diffMgr ? diffMgr.goToPreviousChange() : -1
+  }
+
+  // 逐个 hunk 接受/拒绝（需开启 diffHunkActions）
+  function acceptHunk(index: number) {
+    if (diffMgr)
+      diffMgr.acceptHunk(index)
+  }
+
+  function rejectHunk(index: number) {
+    if (diffMgr)
+      diffMgr.rejectHunk(index)
+  }
+
+  // 结束 Diff 流式改写模式，把完整 original 放回模型以得到真实的完整 diff
+  function finalizeDiff() {
+    if (diffMgr)
+      diffMgr.finalizeStreamingDiff()
+  }
+
+  // 暂停自动滚动（例如流结束后），用户滚回底部附近时会自动恢复
+  function pauseAutoScroll() {
+    if (editorMgr) {
+      editorMgr.pauseAutoScroll()
+      return
+    }
+    shouldAutoScroll = false
+    rafScheduler.cancel('reveal')
+    if (revealDebounceId != null) {
+      clearTimeout(revealDebounceId)
+      revealDebounceId = null
+    }
+  }
+
+  // 尾随模式：向 onLoadEarlier 请求被裁掉的更早内容并插入到顶部
+  function loadEarlierLines() {
+    return editorMgr?.loadEarlierLines() ?? Promise.resolve(0)
+  }
+
+  // 将流式数据源逐块写入单编辑器，结束（或取消）时返回统计信息
+  function streamCode(source: CodeStreamSource, options: StreamCodeOptions = {}): Promise<StreamCodeResult> {
+    return consumeCodeStream(source, text => appendCode(text, options.language), options)
+  }
+
+  // 将流式数据源逐块写入 Diff 的 modified 侧
+  function streamModified(source: CodeStreamSource, options: StreamCodeOptions = {}): Promise<StreamCodeResult> {
+    return consumeCodeStream(source, text => appendModified(text, options.language), options)
+  }
+
+  return {
+    createEditor,
+    createDiffEditor,
+    createDiffFromPatch,
+    patchFiles: computed(() => patchFiles.value),
+    activePatchFile: computed(() => activePatchFile.value),
+    selectPatchFile,
+    getDiffPatch,
+    createMergeEditor,
+    detectedLanguage: computed(() => detectedLanguage.value),
+    fenceInfo: computed(() => fenceInfo.value),
+    applyFenceInfo,
+    mergeConflicts: computed(() => mergeState.value),
+    goToNextConflict,
+    goToPreviousConflict,
+    takeOurs,
+    takeTheirs,
+    takeBoth,
+    getMergedText,
+    cleanupEditor,
+    safeClean() {
+      // cancel any pending rafs and pending payloads
+      rafScheduler.cancel('update')
+      pendingUpdate = null
+      // diff raf queues are managed by diffMgr
+
+      // 单编辑器由管理器处理临时清理
+      if (editorMgr) {
+        try {
+          editorMgr.safeClean()
+        }
+        catch { }
+      }
+      // Diff 编辑器临时清理
+      if (diffMgr) {
+        try {
+          diffMgr.safeClean()
+        }
+        catch { }
+      }
+      // reset transient scroll-related state so next stream starts clean
+      _hasScrollBar = false
+      shouldAutoScroll = !!autoScrollInitial
+
+      // height managers are managed by the respective managers
+    },
+    updateCode,
+    appendCode,
+    updateDiff,
+    updateOriginal,
+    updateModified,
+    appendOriginal,
+    appendModified,
+    streamCode,
+    streamModified,
+    pauseAutoScroll,
+    trimmedLines: computed(() => trimmedLines.value),
+    loadEarlierLines,
+    finalizeDiff,
+    diffStats: computed(() => diffStats.value),
+    goToNextChange,
+    goToPreviousChange,
+    acceptHunk,
+    rejectHunk,
+    getDiffHunks() {
+      return diffMgr?.getDiffHunks() ?? []
+    },
+    getResolvedText() {
+      return diffMgr?.getResolvedText() ?? null
+    },
+    getResultModel() {
+      return diffMgr?.getResultModel() ?? null
+    },
+    setTheme: setThemeInternal,
+    setLanguage,
+    getCurrentTheme() {
+      return currentTheme.value
+    },
+    getEditor() {
+      return monaco.editor
+    },
+    getEditorView() {
+      return editorView
+    },
+    // 新增导出：获取 Diff Editor
+    getDiffEditorView() {
+      return diffEditorView
+    },
+    // 新增导出：获取 Diff 两侧模型
+    getDiffModels() {
+      return { original: originalModel, modified: modifiedModel }
+    },
+    getMonacoInstance() {
+      return monaco
+    },
+  }
+}
@@ -0,0 +1,181 @@
+import type { WatchStopHandle } from 'vue'
+import type * as monaco from './monaco-shim'
+import type { MonacoOptions, MonacoTheme } from './type'
+import { computed, markRaw, shallowReactive, watch } from 'vue'
+import { defaultThemes } from './constant'
+import { isDark } from './isDark'
+import { useMonaco } from './useMonaco'
+import { themeName } from './utils/highlighter'
+
+export type MonacoGroupEditor = ReturnType<typeof useMonaco>
+
+export interface UseMonacoGroupOptions extends MonacoOptions {}
+
+/**
+ * 用一个 composable 管理多个按 key 区分的编辑器，例如聊天记录中的每个代码块。
+ *
+ * - 每个 key 对应一个独立的 `useMonaco()` 实例（可通过 `get(key)` 访问其全部 API）
+ * - 主题/语法注册由所有实例共享并按引用计数，暗色模式只由分组内的一个 watcher 跟随
+ * - `setTheme` / `disposeAll` 等批量操作作用于所有编辑器
+ *
+ * @example
+ * ```ts
+ * const group = useMonacoGroup({ themes: ['vitesse-dark', 'vitesse-light'] })
+ * await group.create('msg-1', el, 'const a = 1', 'typescript')
+ * group.appendCode('msg-1', '\nconst b = 2')
+ * await group.setTheme('vitesse-light')
+ * group.dispose('msg-1')
+ * ```
+ */
+export function useMonacoGroup(options: UseMonacoGroupOptions = {}) {
+  const { onThemeChange, ...sharedOptions } = options
+  const themes = sharedOptions.themes?.length ? sharedOptions.themes : defaultThemes
+  const editors = shallowReactive(new Map<string, MonacoGroupEditor>())
+  // explicitly set theme of the group; until then every editor follows isDark
+  let explicitTheme: string | null = sharedOptions.theme ?? null
+  let darkWatcher: WatchStopHandle | null = null
+
+  function autoTheme() {
+    return themeName(isDark.value ? themes[0] : themes[1])
+  }
+
+  function currentTheme() {
+    return explicitTheme ?? autoTheme()
+  }
+
+  function ensureDarkWatcher() {
+    if (darkWatcher || sharedOptions.theme)
+      return
+    darkWatcher = watch(
+      () => isDark.value,
+      () => {
+        if (explicitTheme == null)
+          void applyTheme(autoTheme())
+      },
+      { flush: 'post' },
+    )
+  }
+
+  async function applyTheme(next: MonacoTheme) {
+    // members get the theme as a fixed option, so none of them installs its own watcher
+    await Promise.all([...editors.values()].map(editor => editor.setTheme(next)))
+    try {
+      await onThemeChange?.(themeName(next) as any)
+    }
+    catch (err) {
+      console.warn('onThemeChange callback threw an error:', err)
+    }
+  }
+
+  function add(key: string, editorOptions: MonacoOptions) {
+    dispose(key)
+    ensureDarkWatcher()
+    const editor = markRaw(useMonaco({ ...sharedOptions, ...editorOptions, theme: currentTheme() }))
+    editors.set(key, editor)
+    return editor
+  }
+
+  /** 为 key 创建编辑器；同一 key 已存在时会先销毁旧的编辑器 */
+  async function create(key: string, container: HTMLElement, code: string, language: string, editorOptions: MonacoOptions = {}) {
+    const editor = add(key, editorOptions)
+    try {
+      return await editor.createEditor(container, code, language)
+    }
+    catch (err) {
+      if (editors.get(key) === editor)
+        dispose(key)
+      throw err
+    }
+  }
+
+  /** 为 key 创建 Diff 编辑器；同一 key 已存在时会先销毁旧的编辑器 */
+  async function createDiff(key: string, container: HTMLElement, original: string, modified: string, language: string, editorOptions: MonacoOptions = {}) {
+    const editor = add(key, editorOptions)
+    try {
+      return await editor.createDiffEditor(container, original, modified, language)
+    }
+    catch (err) {
+      if (editors.get(key) === editor)
+        dispose(key)
+      throw err
+    }
+  }
+
+  function get(key: string) {
+    return editors.get(key)
+  }
+
+  function has(key: string) {
+    return editors.has(key)
+  }
+
+  function getEditorView(key: string): monaco.editor.IStandaloneCodeEditor | null {
+    return editors.get(key)?.getEditorView() ?? null
+  }
+
+  function updateCode(key: string, code: string, language: string) {
+    const editor = editors.get(key)
+    if (!editor)
+      return false
+    editor.updateCode(code, language)
+    return true
+  }
+
+  function appendCode(key: string, text: string, language?: string) {
+    const editor = editors.get(key)
+    if (!editor)
+      return false
+    editor.appendCode(text, language)
+    return true
+  }
+
+  function setLanguage(key: string, language: string) {
+    const editor = editors.get(key)
+    if (!editor)
+      return false
+    editor.setLanguage(language)
+    return true
+  }
+
+  /** 销毁 key 对应的编辑器并释放其主题 / 语法引用 */
+  function dispose(key: string) {
+    const editor = editors.get(key)
+    if (!editor)
+      return false
+    editors.delete(key)
+    editor.cleanupEditor()
+    return true
+  }
+
+  /** 销毁分组内的全部编辑器，并停止暗色模式监听 */
+  function disposeAll() {
+    for (const key of [...editors.keys()])
+      dispose(key)
+    darkWatcher?.()
+    darkWatcher = null
+  }
+
+  /** 为分组内全部编辑器切换主题；之后不再跟随 isDark */
+  function setTheme(next: MonacoTheme) {
+    explicitTheme = themeName(next)
+    return applyTheme(next)
+  }
+
+  return {
+    editors,
+    size: computed(() => editors.size),
+    keys: () => [...editors.keys()],
+    create,
+    createDiff,
+    get,
+    has,
+    getEditorView,
+    updateCode,
+    appendCode,
+    setLanguage,
+    dispose,
+    disposeAll,
+    setTheme,
+    getCurrentTheme: currentTheme,
+  }
+}
@@ -0,0 +1,126 @@
+import type { MaybeRefOrGetter, Ref, WatchStopHandle } from 'vue'
+import type * as monaco from './monaco-shim'
+import type { MonacoOptions } from './type'
+import { toValue, watch } from 'vue'
+import { useMonaco } from './useMonaco'
+
+export interface UseMonacoModelOptions extends Omit<MonacoOptions, 'language'> {
+  /**
+   * 绑定的语言，可以是字符串、ref 或 getter；变化时会同步到编辑器。
+   * 默认 'plaintext'。
+   */
+  language?: MaybeRefOrGetter<string>
+  /**
+   * 编辑器内容 -> ref 的回写防抖时间（ms）。默认 50。
+   */
+  debounceMs?: number
+}
+
+/**
+ * 将一个 `Ref<string>`（以及可选的语言 ref）与编辑器模型双向绑定。
+ *
+ * - ref -> 编辑器：复用 `updateCode` 的 RAF 合并 + 最小替换路径
+ * - 编辑器 -> ref：对用户输入做防抖回写
+ * - 通过记录最后一次同步的值避免两侧互相回写造成的循环
+ *
+ * @example
+ * ```ts
+ * const code = ref('const a = 1')
+ * const { createEditor } = useMonacoModel(code, { language: 'typescript', readOnly: false })
+ * await createEditor(container)
+ * ```
+ */
+export function useMonacoModel(value: Ref<string>, options: UseMonacoModelOptions = {}) {
+  const { language, debounceMs = 50, ...monacoOptions } = options
+  const api = useMonaco(monacoOptions)
+
+  // the value both sides agreed on most recently; used to drop echoes
+  let lastSynced: string | null = null
+  let syncTimer: ReturnType<typeof setTimeout> | null = null
+  let contentListener: monaco.IDisposable | null = null
+  const stopHandles: WatchStopHandle[] = []
+
+  function currentLanguage() {
+    return toValue(language) || 'plaintext'
+  }
+
+  function flush() {
+    if (syncTimer != null) {
+      clearTimeout(syncTimer)
+      syncTimer = null
+    }
+    const editorView = api.getEditorView()
+    if (!editorView)
+      return
+    const next = editorView.getValue()
+    if (next === lastSynced)
+      return
+    lastSynced = next
+    value.value = next
+  }
+
+  function unbind() {
+    if (syncTimer != null) {
+      clearTimeout(syncTimer)
+      syncTimer = null
+    }
+    if (contentListener) {
+      contentListener.dispose()
+      contentListener = null
+    }
+    stopHandles.forEach(stop => stop())
+    stopHandles.length = 0
+    lastSynced = null
+  }
+
+  async function createEditor(container: HTMLElement) {
+    unbind()
+    const editorView = await api.createEditor(container, value.value, currentLanguage())
+    lastSynced = editorView.getValue()
+
+    contentListener = editorView.onDidChangeModelContent(() => {
+      if (syncTimer != null)
+        clearTimeout(syncTimer)
+      syncTimer = setTimeout(flush, debounceMs)
+    })
+
+    stopHandles.push(
+      watch(value, (next) => {
+        if (next === lastSynced)
+          return
+        // the ref wins over any not-yet-flushed editor edits
+        if (syncTimer != null) {
+          clearTimeout(syncTimer)
+          syncTimer = null
+        }
+        lastSynced = next
+        api.updateCode(next, currentLanguage())
+      }),
+      watch(currentLanguage, (lang) => {
+        api.updateCode(api.getEditorView()?.getValue() ?? value.value, lang)
+      }),
+    )
+
+    // the ref may have changed while the editor was being created
+    if (value.value !== lastSynced) {
+      lastSynced = value.value
+      api.updateCode(value.value, currentLanguage())
+    }
+
+    return editorView
+  }
+
+  function cleanupEditor() {
+    flush()
+    unbind()
+    api.cleanupEditor()
+  }
+
+  return {
+    ...api,
+    createEditor,
+    cleanupEditor,
+    /** 立即把编辑器中尚未回写的内容同步到 ref（跳过防抖） */
+    flush,
+  }
+}
@@ -0,0 +1,34 @@
+export interface InlineAction {
+  label: string
+  title?: string
+  run: () => void
+}
+
+/**
+ * Row of small buttons rendered inside an editor view zone. Mouse events are
+ * stopped so Monaco does not treat the click as a caret move.
+ */
+export function createActionBar(className: string, actions: readonly InlineAction[]) {
+  const domNode = document.createElement('div')
+  domNode.className = className
+  domNode.style.display = 'flex'
+  domNode.style.gap = '6px'
+  domNode.style.alignItems = 'center'
+  domNode.style.zIndex = '10'
+  for (const action of actions) {
+    const el = document.createElement('button')
+    el.type = 'button'
+    el.textContent = action.label
+    if (action.title)
+      el.title = action.title
+    el.style.cursor = 'pointer'
+    el.style.fontSize = '12px'
+    el.addEventListener('mousedown', e => e.stopPropagation())
+    el.addEventListener('click', (e) => {
+      e.stopPropagation()
+      action.run()
+    })
+    domNode.append(el)
+  }
+  return domNode
+}
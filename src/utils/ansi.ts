@@ -0,0 +1,332 @@
+/** Pseudo-language that routes `appendCode` / `updateCode` through the ANSI renderer. */
+export const ansiLanguage = 'ansi'
+
+/**
+ * Text attributes set by SGR (Select Graphic Rendition) sequences. Colors are
+ * palette indexes (0-15 follow the theme, 16-255 the xterm palette) or
+ * `#rrggbb` for 24-bit colors.
+ */
+export interface AnsiStyle {
+  fg?: number | string
+  bg?: number | string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+  strikethrough?: boolean
+  inverse?: boolean
+}
+
+/** A styled run of a line, 0-based UTF-16 columns, `end` exclusive. */
+export interface AnsiSpan {
+  start: number
+  end: number
+  style: AnsiStyle
+}
+
+export interface AnsiLine {
+  text: string
+  /** Runs with at least one attribute; unstyled text has no span. */
+  spans: AnsiSpan[]
+}
+
+export interface AnsiWriteResult {
+  /**
+   * Lines completed by this chunk. The first one is the line that was open
+   * before the chunk, so it replaces that line rather than following it.
+   */
+  lines: AnsiLine[]
+  /** The line still open (holding the cursor) after this chunk. */
+  tail: AnsiLine
+}
+
+const plain: AnsiStyle = Object.freeze({})
+
+// an OSC sequence this long without its terminator is dropped instead of buffered
+const maxPendingLength = 4096
+
+function isPlain(style: AnsiStyle) {
+  return style === plain || Object.keys(style).length === 0
+}
+
+function hex(r: number, g: number, b: number) {
+  return `#${[r, g, b].map(c => Math.max(0, Math.min(255, c || 0)).toString(16).padStart(2, '0')).join('')}`
+}
+
+/** The xterm 256-color palette beyond the 16 theme colors. */
+export function xtermColor(index: number) {
+  if (index < 232) {
+    const steps = [0, 95, 135, 175, 215, 255]
+    const i = index - 16
+    return hex(steps[Math.floor(i / 36)], steps[Math.floor(i / 6) % 6], steps[i % 6])
+  }
+  const level = 8 + (index - 232) * 10
+  return hex(level, level, level)
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params ? params.split(/[;:]/).map(p => Number.parseInt(p, 10) || 0) : [0]
+  const next: AnsiStyle = { ...style }
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code >= 30 && code <= 37) {
+      next.fg = code - 30
+      continue
+    }
+    if (code >= 90 && code <= 97) {
+      next.fg = code - 90 + 8
+      continue
+    }
+    if (code >= 40 && code <= 47) {
+      next.bg = code - 40
+      continue
+    }
+    if (code >= 100 && code <= 107) {
+      next.bg = code - 100 + 8
+      continue
+    }
+    switch (code) {
+      case 0:
+        for (const key of Object.keys(next) as (keyof AnsiStyle)[])
+          delete next[key]
+        break
+      case 1:
+        next.bold = true
+        break
+      case 2:
+        next.dim = true
+        break
+      case 3:
+        next.italic = true
+        break
+      case 4:
+        next.underline = true
+        break
+      case 7:
+        next.inverse = true
+        break
+      case 9:
+        next.strikethrough = true
+        break
+      case 21:
+      case 22:
+        delete next.bold
+        delete next.dim
+        break
+      case 23:
+        delete next.italic
+        break
+      case 24:
+        delete next.underline
+        break
+      case 27:
+        delete next.inverse
+        break
+      case 29:
+        delete next.strikethrough
+        break
+      case 39:
+        delete next.fg
+        break
+      case 49:
+        delete next.bg
+        break
+      case 38:
+      case 48: {
+        // extended colors: 5;n (256-color palette) or 2;r;g;b
+        const key = code === 38 ? 'fg' : 'bg'
+        if (codes[i + 1] === 5) {
+          const index = codes[i + 2] ?? 0
+          next[key] = index < 16 ? index : xtermColor(index)
+          i += 2
+        }
+        else if (codes[i + 1] === 2) {
+          next[key] = hex(codes[i + 2], codes[i + 3], codes[i + 4])
+          i += 4
+        }
+        break
+      }
+    }
+  }
+  return next
+}
+
+/**
+ * Incremental parser for terminal output. Escape sequences are stripped, SGR
+ * attributes become spans, and cursor controls that stay on the current line
+ * (`\r`, `\b`, erase in line, cursor left/right/column) are applied to the
+ * open line, so a `\r` progress bar keeps rewriting one line. Sequences split
+ * across chunks are completed by the next chunk. Controls that move to other
+ * lines (cursor up, clear screen) are ignored.
+ *
+ * `initialLine` is plain text already on the open line (e.g. text written
+ * before switching to ANSI output).
+ */
+export function createAnsiParser(initialLine = '') {
+  let style = plain
+  let chars: string[] = []
+  let styles: AnsiStyle[] = []
+  let cursor = 0
+  let pending = ''
+
+  function reset(line = '') {
+    style = plain
+    chars = Array.from(line)
+    styles = chars.map(() => plain)
+    cursor = chars.length
+    pending = ''
+  }
+  reset(initialLine)
+
+  function put(ch: string) {
+    while (chars.length < cursor) {
+      chars.push(' ')
+      styles.push(plain)
+    }
+    chars[cursor] = ch
+    styles[cursor] = style
+    cursor++
+  }
+
+  function snapshot(): AnsiLine {
+    const spans: AnsiSpan[] = []
+    let column = 0
+    let runStart = 0
+    for (let i = 0; i <= chars.length; i++) {
+      if (i > 0 && (i === chars.length || styles[i] !== styles[i - 1])) {
+        if (!isPlain(styles[i - 1]))
+          spans.push({ start: runStart, end: column, style: styles[i - 1] })
+        runStart = column
+      }
+      if (i < chars.length)
+        column += chars[i].length
+    }
+    return { text: chars.join(''), spans }
+  }
+
+  function eraseInLine(mode: number) {
+    if (mode === 0) {
+      chars.length = Math.min(chars.length, cursor)
+      styles.length = chars.length
+    }
+    else if (mode === 1) {
+      for (let i = 0; i < Math.min(cursor + 1, chars.length); i++) {
+        chars[i] = ' '
+        styles[i] = plain
+      }
+    }
+    else if (mode === 2) {
+      chars = []
+      styles = []
+    }
+  }
+
+  function csi(params: string, final: string) {
+    const n = Number.parseInt(params, 10)
+    switch (final) {
+      case 'm':
+        style = applySgr(style, params)
+        if (isPlain(style))
+          style = plain
+        break
+      case 'K':
+        eraseInLine(Number.isNaN(n) ? 0 : n)
+        break
+      case 'G':
+        cursor = Math.max(0, (n || 1) - 1)
+        break
+      case 'C':
+        cursor += n || 1
+        break
+      case 'D':
+        cursor = Math.max(0, cursor - (n || 1))
+        break
+    }
+  }
+
+  /** Feed a chunk of output. */
+  function write(chunk: string): AnsiWriteResult {
+    const text = pending + chunk
+    pending = ''
+    const lines: AnsiLine[] = []
+    let i = 0
+    while (i < text.length) {
+      const ch = text[i]
+      if (ch === '\x1B') {
+        const kind = text[i + 1]
+        if (kind === undefined) {
+          pending = text.slice(i)
+          break
+        }
+        if (kind === '[') {
+          let j = i + 2
+          while (j < text.length && text.charCodeAt(j) >= 0x20 && text.charCodeAt(j) <= 0x3F)
+            j++
+          if (j >= text.length) {
+            pending = text.slice(i)
+            break
+          }
+          csi(text.slice(i + 2, j), text[j])
+          i = j + 1
+        }
+        else if (kind === ']') {
+          const bel = text.indexOf('\x07', i + 2)
+          const st = text.indexOf('\x1B\\', i + 2)
+          const end = bel === -1 ? st : st === -1 ? bel : Math.min(bel, st)
+          if (end === -1) {
+            if (text.length - i <= maxPendingLength)
+              pending = text.slice(i)
+            break
+          }
+          i = end + (end === st ? 2 : 1)
+        }
+        else {
+          // two-character escapes, plus charset selections such as ESC ( B
+          let j = i + 1
+          while (j < text.length && text.charCodeAt(j) >= 0x20 && text.charCodeAt(j) <= 0x2F)
+            j++
+          if (j >= text.length) {
+            pending = text.slice(i)
+            break
+          }
+          i = j + 1
+        }
+        continue
+      }
+      if (ch === '\n') {
+        lines.push(snapshot())
+        chars = []
+        styles = []
+        cursor = 0
+      }
+      else if (ch === '\r') {
+        cursor = 0
+      }
+      else if (ch === '\b') {
+        cursor = Math.max(0, cursor - 1)
+      }
+      else if (ch === '\t' || ch.charCodeAt(0) >= 0x20) {
+        put(ch)
+      }
+      i++
+    }
+    return { lines, tail: snapshot() }
+  }
+
+  return { write, reset }
+}
+
+export type AnsiParser = ReturnType<typeof createAnsiParser>
+
+const paletteNames = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White']
+
+/**
+ * The 16 terminal colors of a theme (`terminal.ansiRed`, ...
+ * `terminal.ansiBrightWhite`); entries the theme does not define are undefined.
+ */
+export function ansiPalette(colors: Record<string, string> = {}): (string | undefined)[] {
+  return [
+    ...paletteNames.map(name => colors[`terminal.ansi${name}`]),
+    ...paletteNames.map(name => colors[`terminal.ansiBright${name}`]),
+  ]
+}
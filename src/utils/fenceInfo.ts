@@ -0,0 +1,189 @@
+/** Parsed markdown fence info string, e.g. ```ts title="a.ts" {1,3-5} */
+export interface FenceInfo {
+  /** 编辑器语言（已做别名映射）；`diff-<lang>` 时为 'diff' */
+  language: string
+  /** `diff-<lang>` 中的 <lang>（已做别名映射） */
+  diffLanguage?: string
+  /** 标题：`title="…"` / `filename="…"`，或 `lang:title` 写法 */
+  title?: string
+  /** 需要高亮的行，1-based 闭区间，已排序合并 */
+  highlightLines: [start: number, end: number][]
+  /** 其余 `key=value` 属性，以及不带值的标记（值为 ''） */
+  attributes: Record<string, string>
+}
+
+/** Common fence language names that differ from the Monaco / shiki language id */
+export const fenceLanguageAliases: Record<string, string> = {
+  'js': 'javascript',
+  'mjs': 'javascript',
+  'cjs': 'javascript',
+  'node': 'javascript',
+  'ts': 'typescript',
+  'mts': 'typescript',
+  'py': 'python',
+  'python3': 'python',
+  'rb': 'ruby',
+  'rs': 'rust',
+  'kt': 'kotlin',
+  'cs': 'csharp',
+  'c#': 'csharp',
+  'c++': 'cpp',
+  'golang': 'go',
+  'yml': 'yaml',
+  'md': 'markdown',
+  'sh': 'shell',
+  'bash': 'shell',
+  'zsh': 'shell',
+  'shellscript': 'shell',
+  'console': 'shellsession',
+  'ps1': 'powershell',
+  'pwsh': 'powershell',
+  'docker': 'dockerfile',
+  'make': 'makefile',
+  'objc': 'objective-c',
+  'tf': 'terraform',
+  'text': 'plaintext',
+  'txt': 'plaintext',
+  'plain': 'plaintext',
+}
+
+const titleAttributes = ['title', 'filename', 'file']
+const highlightAttributes = ['highlight', 'hl_lines', 'lines']
+
+function normalizeFenceLanguage(name: string) {
+  const lower = name.toLowerCase()
+  return fenceLanguageAliases[lower] ?? lower
+}
+
+/**
+ * Parse a line list like `1,3-5` or `1 3-5` into sorted, merged ranges.
+ * Malformed parts are ignored.
+ */
+export function parseLineRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = []
+  for (const part of text.split(/[\s,]+/)) {
+    const m = /^(\d+)(?:-(\d+))?$/.exec(part)
+    if (!m)
+      continue
+    const a = Number(m[1])
+    const b = m[2] ? Number(m[2]) : a
+    if (a < 1 || b < 1)
+      continue
+    ranges.push([Math.min(a, b), Math.max(a, b)])
+  }
+  ranges.sort((x, y) => x[0] - y[0])
+  const merged: [number, number][] = []
+  for (const range of ranges) {
+    const last = merged.at(-1)
+    if (last && range[0] <= last[1] + 1)
+      last[1] = Math.max(last[1], range[1])
+    else
+      merged.push(range)
+  }
+  return merged
+}
+
+/**
+ * Whether a language argument is a full fence info string (has metadata
+ * after the language, or a `diff-<lang>` marker) rather than a language id.
+ */
+export function isFenceInfo(info: string) {
+  const trimmed = info.trim()
+  return /[\s{]/.test(trimmed) || /^diff-\w/i.test(trimmed)
+}
+
+/**
+ * Parse the info string of a markdown code fence.
+ *
+ * Supports `lang`, `lang:title`, `diff-<lang>`, `{1,3-5}` line ranges,
+ * `key="value"` / `key='value'` / `key=value` attributes and bare flags.
+ */
+export function parseFenceInfo(info: string): FenceInfo {
+  const text = info.trim()
+  const attributes: Record<string, string> = {}
+  let highlight = ''
+
+  // language token: everything up to whitespace or `{`
+  const head = /^[^\s{]*/.exec(text)![0]
+  let pos = head.length
+  let lang = head
+  let title: string | undefined
+  const colon = head.indexOf(':')
+  if (colon > 0) {
+    lang = head.slice(0, colon)
+    title = head.slice(colon + 1) || undefined
+  }
+
+  while (pos < text.length) {
+    const ch = text[pos]
+    if (/\s/.test(ch)) {
+      pos++
+      continue
+    }
+    if (ch === '{') {
+      const close = text.indexOf('}', pos)
+      const end = close === -1 ? text.length : close
+      highlight += ` ${text.slice(pos + 1, end)}`
+      pos = end + 1
+      continue
+    }
+    const key = /^[^\s={]*/.exec(text.slice(pos))![0]
+    if (!key) {
+      // stray `=`
+      pos++
+      continue
+    }
+    pos += key.length
+    let value = ''
+    if (text[pos] === '=') {
+      pos++
+      const quote = text[pos]
+      if (quote === '"' || quote === '\'') {
+        const close = text.indexOf(quote, pos + 1)
+        const end = close === -1 ? text.length : close
+        value = text.slice(pos + 1, end)
+        pos = end + 1
+      }
+      else {
+        value = /^\S*/.exec(text.slice(pos))![0]
+        pos += value.length
+      }
+    }
+    attributes[key] = value
+  }
+
+  for (const key of titleAttributes) {
+    if (key in attributes) {
+      title ??= attributes[key] || undefined
+      delete attributes[key]
+    }
+  }
+  for (const key of highlightAttributes) {
+    if (key in attributes) {
+      highlight += ` ${attributes[key]}`
+      delete attributes[key]
+    }
+  }
+
+  const result: FenceInfo = {
+    language: normalizeFenceLanguage(lang || 'plaintext'),
+    highlightLines: parseLineRanges(highlight),
+    attributes,
+  }
+  const diff = /^diff-(.+)$/i.exec(lang)
+  if (diff) {
+    result.language = 'diff'
+    result.diffLanguage = normalizeFenceLanguage(diff[1])
+  }
+  if (title)
+    result.title = title
+  return result
+}
+
+/** Header text for a fence: the title, the language, or both for `diff-<lang>` */
+export function fenceLabel(info: FenceInfo) {
+  const language = info.diffLanguage ? `${info.diffLanguage} diff` : ''
+  if (info.title)
+    return language ? `${info.title} · ${language}` : info.title
+  return language
+}
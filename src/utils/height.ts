@@ -1,3 +1,22 @@
+import { padding } from '../constant'
+
+/**
+ * Resolve `MAX_HEIGHT` into the number used for height comparisons and the
+ * CSS value applied to containers. For strings such as '50vh' the numeric
+ * part is used for comparisons.
+ */
+export function resolveMaxHeight(maxHeight: number | string = 500) {
+  if (typeof maxHeight === 'number')
+    return { value: maxHeight, css: `${maxHeight}px` }
+  const match = maxHeight.match(/^(\d+(?:\.\d+)?)/)
+  return { value: match ? Number.parseFloat(match[1]) : 500, css: maxHeight }
+}
+
+/** Height of an editor showing `lineCount` lines: all lines plus padding, capped at the maximum height. */
+export function computeEditorHeight(lineCount: number, lineHeight: number, maxHeightValue: number) {
+  return Math.min(lineCount * lineHeight + padding, maxHeightValue)
+}
+
 export function createHeightManager(container: HTMLElement, computeNext: () => number) {
   let raf: number | null = null
   let lastApplied = -1
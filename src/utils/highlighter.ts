@@ -0,0 +1,110 @@
+// Shiki highlighter cache shared by Monaco registration and static rendering.
+// Kept free of monaco imports so it can run during server-side rendering.
+import type { SpecialTheme, ThemeInput } from 'shiki'
+import type { ShikiHighlighter } from '../type'
+import { createHighlighter } from 'shiki'
+
+interface HighlighterEntry {
+  // promise that resolves to a shiki highlighter
+  promise: Promise<any>
+  // set of languages this highlighter was created with
+  languages: Set<string>
+}
+
+const highlighterCache = new Map<string, HighlighterEntry>()
+
+/** Drop every cached highlighter. */
+export function clearHighlighters() {
+  highlighterCache.clear()
+}
+
+/** The cached highlighter entry for a themes combination, if any. */
+export function getHighlighterEntry(themes: (ThemeInput | string | SpecialTheme)[]) {
+  return highlighterCache.get(serializeThemes(themes))
+}
+
+/**
+ * Return number of entries currently in the highlighter cache.
+ * Helpful for tests and debugging.
+ */
+export function getHighlighterCacheSize() {
+  return highlighterCache.size
+}
+
+/** Name of a theme given by name or as a theme object; nameless objects fall back to their JSON. */
+export function themeName(theme: ThemeInput | string | SpecialTheme): string {
+  return typeof theme === 'string' ? theme : (theme as any).name ?? JSON.stringify(theme)
+}
+
+export function serializeThemes(themes: (ThemeInput | string | SpecialTheme)[]) {
+  return JSON.stringify(themes.map(themeName).sort())
+}
+
+export async function getOrCreateHighlighter(
+  themes: (ThemeInput | string | SpecialTheme)[],
+  languages: string[],
+): Promise<ShikiHighlighter> {
+  const key = serializeThemes(themes)
+  const requestedSet = new Set(languages)
+  let existing = highlighterCache.get(key)
+
+  if (existing) {
+    // if existing entry already covers requested languages, reuse
+    let allIncluded = true
+    for (const l of requestedSet) {
+      if (!existing.languages.has(l)) {
+        allIncluded = false
+        break
+      }
+    }
+    if (allIncluded) {
+      return existing.promise
+    }
+
+    // double-check cache in case a concurrent request already replaced/expanded the entry
+    const prev = existing
+    const current = highlighterCache.get(key)
+    if (current && current !== prev) {
+      // if the current cached entry already covers requested languages, reuse it
+      let allIncludedCurrent = true
+      for (const l of requestedSet) {
+        if (!current.languages.has(l)) {
+          allIncludedCurrent = false
+          break
+        }
+      }
+      if (allIncludedCurrent) {
+        return current.promise
+      }
+      // otherwise prefer the most recent cached entry for the union creation
+      existing = current
+    }
+
+    // otherwise create a new highlighter with the union of languages
+    const union = new Set<string>([...existing.languages, ...requestedSet])
+    const langsArray = Array.from(union)
+    const p = createHighlighter({ themes, langs: langsArray })
+    const newEntry: HighlighterEntry = { promise: p, languages: union }
+    highlighterCache.set(key, newEntry)
+
+    // if creation fails, try to restore previous entry (prev)
+    p.catch(() => {
+      if (highlighterCache.get(key) === newEntry && prev) {
+        highlighterCache.set(key, prev)
+      }
+    })
+
+    return p
+  }
+
+  // no cached entry, create and cache
+  const p = createHighlighter({ themes, langs: Array.from(requestedSet) })
+  const entry: HighlighterEntry = { promise: p, languages: requestedSet }
+  highlighterCache.set(key, entry)
+  p.catch(() => {
+    if (highlighterCache.get(key) === entry) {
+      highlighterCache.delete(key)
+    }
+  })
+  return p
+}
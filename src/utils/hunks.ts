@@ -0,0 +1,125 @@
+import type * as monaco from '../monaco-shim'
+
+export type HunkDecision = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * A single change region of a diff, using Monaco's `ILineChange` convention:
+ * an `...EndLineNumber` of 0 means that side is empty and the change sits
+ * right after `...StartLineNumber` on that side.
+ */
+export interface DiffHunk {
+  index: number
+  originalStartLineNumber: number
+  originalEndLineNumber: number
+  modifiedStartLineNumber: number
+  modifiedEndLineNumber: number
+  decision: HunkDecision
+}
+
+type LineChange = Pick<
+  monaco.editor.ILineChange,
+  'originalStartLineNumber' | 'originalEndLineNumber' | 'modifiedStartLineNumber' | 'modifiedEndLineNumber'
+>
+
+function splitLines(text: string) {
+  return text.split(/\r?\n/)
+}
+
+/**
+ * Stable identity of a change across re-diffs: its original position plus the
+ * text on both sides. Used to keep decisions while the diff is recomputed.
+ */
+export function hunkKey(change: LineChange, originalLines: readonly string[], modifiedLines: readonly string[]) {
+  const o = change.originalEndLineNumber === 0
+    ? ''
+    : originalLines.slice(change.originalStartLineNumber - 1, change.originalEndLineNumber).join('\n')
+  const m = change.modifiedEndLineNumber === 0
+    ? ''
+    : modifiedLines.slice(change.modifiedStartLineNumber - 1, change.modifiedEndLineNumber).join('\n')
+  return `${change.originalStartLineNumber}\u0000${o}\u0000${m}`
+}
+
+/**
+ * Build the result text: original lines everywhere except for accepted hunks,
+ * which take the modified lines. Pending hunks keep the original.
+ */
+export function applyHunkDecisions(
+  original: string,
+  modified: string,
+  changes: readonly LineChange[],
+  decisions: readonly HunkDecision[],
+): string {
+  const originalLines = splitLines(original)
+  const modifiedLines = splitLines(modified)
+  const out: string[] = []
+  // next original line (1-based) not yet copied
+  let next = 1
+  const order = changes
+    .map((change, i) => ({ change, decision: decisions[i] ?? 'pending' }))
+    .sort((a, b) => a.change.originalStartLineNumber - b.change.originalStartLineNumber)
+
+  for (const { change, decision } of order) {
+    const isInsertion = change.originalEndLineNumber === 0
+    // last original line before the hunk
+    const before = isInsertion ? change.originalStartLineNumber : change.originalStartLineNumber - 1
+    for (; next <= before; next++)
+      out.push(originalLines[next - 1])
+    if (decision === 'accepted') {
+      if (change.modifiedEndLineNumber !== 0)
+        out.push(...modifiedLines.slice(change.modifiedStartLineNumber - 1, change.modifiedEndLineNumber))
+    }
+    else if (!isInsertion) {
+      out.push(...originalLines.slice(change.originalStartLineNumber - 1, change.originalEndLineNumber))
+    }
+    if (!isInsertion)
+      next = change.originalEndLineNumber + 1
+  }
+  for (; next <= originalLines.length; next++)
+    out.push(originalLines[next - 1])
+  return out.join('\n')
+}
+
+export interface DiffStats {
+  /** modified 侧新增的行数 */
+  added: number
+  /** original 侧删除的行数 */
+  removed: number
+  /** 变更块数量 */
+  hunks: number
+  /** 当前定位到的变更块序号，未定位时为 -1 */
+  currentHunk: number
+}
+
+export const emptyDiffStats: DiffStats = Object.freeze({ added: 0, removed: 0, hunks: 0, currentHunk: -1 })
+
+/**
+ * Count added/removed lines from Monaco line changes. A modified line counts
+ * as one removal plus one addition, matching `git diff --stat`.
+ */
+export function computeDiffStats(changes: readonly LineChange[], currentHunk = -1): DiffStats {
+  let added = 0
+  let removed = 0
+  for (const c of changes) {
+    if (c.modifiedEndLineNumber !== 0)
+      added += c.modifiedEndLineNumber - c.modifiedStartLineNumber + 1
+    if (c.originalEndLineNumber !== 0)
+      removed += c.originalEndLineNumber - c.originalStartLineNumber + 1
+  }
+  return { added, removed, hunks: changes.length, currentHunk }
+}
+
+/**
+ * Index of the hunk that contains `lineNumber` on the modified side, or the
+ * last hunk starting before it. Returns -1 when the line is above all hunks.
+ */
+export function findHunkAtLine(changes: readonly LineChange[], lineNumber: number): number {
+  let found = -1
+  for (let i = 0; i < changes.length; i++) {
+    const c = changes[i]
+    const start = c.modifiedEndLineNumber === 0 ? c.modifiedStartLineNumber + 1 : c.modifiedStartLineNumber
+    if (start > lineNumber)
+      break
+    found = i
+  }
+  return found
+}
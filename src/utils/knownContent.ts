@@ -0,0 +1,54 @@
+import type * as monaco from '../monaco-shim'
+
+/**
+ * Tracks the text of a model we wrote to without reading it back after every
+ * edit. Appends are recorded as chunks in O(1); the full string is only joined
+ * when a caller needs it (e.g. a non-append `updateCode` comparing old and new
+ * text). The model version id tells whether the chunks still describe the
+ * model: after edits we did not record (user typing, undo) the text is read
+ * from the model once and tracking continues from there.
+ */
+export function createKnownContent() {
+  let chunks: string[] = []
+  // version id of the model the chunks describe; null when unknown
+  let version: number | null = null
+
+  /** Record the full text of the model right after it was set. */
+  function set(model: monaco.editor.ITextModel, value: string) {
+    chunks = [value]
+    version = model.getVersionId()
+  }
+
+  /**
+   * Record text appended at the end of the model. `versionBefore` is the model
+   * version before the edit; when it does not match, the tracked text is stale
+   * and is dropped instead of extended.
+   */
+  function append(model: monaco.editor.ITextModel, text: string, versionBefore: number) {
+    if (version !== versionBefore) {
+      invalidate()
+      return
+    }
+    if (text)
+      chunks.push(text)
+    version = model.getVersionId()
+  }
+
+  /** The current text of the model; joins pending chunks or re-reads the model if it changed. */
+  function get(model: monaco.editor.ITextModel) {
+    if (version !== model.getVersionId())
+      set(model, model.getValue())
+    else if (chunks.length > 1)
+      chunks = [chunks.join('')]
+    return chunks[0] ?? ''
+  }
+
+  function invalidate() {
+    chunks = []
+    version = null
+  }
+
+  return { set, append, get, invalidate }
+}
+
+export type KnownContent = ReturnType<typeof createKnownContent>
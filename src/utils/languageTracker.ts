@@ -0,0 +1,104 @@
+import type { DetectedLanguage } from '../code.detect'
+import { rankMonacoLanguages } from '../code.detect'
+
+export interface LanguageTrackerOptions {
+  /** characters the sample has to grow by before detection runs again, default 80 */
+  minGrowth?: number
+  /** how much more confident than the current language a different one has to be to replace it, default 0.15 */
+  switchMargin?: number
+  /** consecutive evaluations a different language has to win before switching, default 2 */
+  confirmations?: number
+  /** only the first `sampleSize` characters are analyzed, default 4000 */
+  sampleSize?: number
+}
+
+const plaintext: DetectedLanguage = Object.freeze({ language: 'plaintext', confidence: 0 })
+
+/**
+ * Language detection for content that grows over time (streaming).
+ *
+ * Detection only looks at the head of the content and re-runs when that head
+ * has grown enough. A different language has to beat the current one by
+ * `switchMargin` for `confirmations` evaluations in a row, so the result does
+ * not flip back and forth on every chunk. Leaving plaintext is immediate.
+ *
+ * `update`/`append` return the same object until the result changes.
+ */
+export function createLanguageTracker(options: LanguageTrackerOptions = {}) {
+  const {
+    minGrowth = 80,
+    switchMargin = 0.15,
+    confirmations = 2,
+    sampleSize = 4000,
+  } = options
+  let sample = ''
+  let evaluatedLength = -1
+  let current = plaintext
+  let candidate: string | null = null
+  let streak = 0
+
+  function evaluate() {
+    const full = sample.length >= sampleSize
+    if (evaluatedLength !== -1 && (sample.length - evaluatedLength < minGrowth) && !(full && evaluatedLength < sampleSize))
+      return current
+    evaluatedLength = sample.length
+    const ranked = rankMonacoLanguages(sample)
+    const next = ranked[0] ?? plaintext
+    if (next.language === current.language) {
+      candidate = null
+      streak = 0
+      if (next.confidence !== current.confidence)
+        current = next
+      return current
+    }
+    // compare against how the current language scores on the same text
+    const incumbent = ranked.find(c => c.language === current.language)?.confidence ?? 0
+    if (current.language !== 'plaintext' && next.confidence < incumbent + switchMargin) {
+      candidate = null
+      streak = 0
+      return current
+    }
+    streak = candidate === next.language ? streak + 1 : 1
+    candidate = next.language
+    if (current.language === 'plaintext' || streak >= confirmations) {
+      current = next
+      candidate = null
+      streak = 0
+    }
+    return current
+  }
+
+  /** Content was replaced; unrelated content starts over. */
+  function update(code: string) {
+    const head = code.slice(0, sampleSize)
+    if (head === sample)
+      return current
+    if (!head.startsWith(sample))
+      reset()
+    sample = head
+    return evaluate()
+  }
+
+  /** Content was appended to. */
+  function append(text: string) {
+    if (sample.length >= sampleSize || !text)
+      return current
+    sample += text.slice(0, sampleSize - sample.length)
+    return evaluate()
+  }
+
+  function reset() {
+    sample = ''
+    evaluatedLength = -1
+    current = plaintext
+    candidate = null
+    streak = 0
+  }
+
+  return {
+    update,
+    append,
+    reset,
+    current: () => current,
+  }
+}
@@ -0,0 +1,105 @@
+/** One changed region, 0-based: `oldLength` lines at `oldStart` became `newLength` lines at `newStart`. */
+export interface LineDiffChange {
+  oldStart: number
+  oldLength: number
+  newStart: number
+  newLength: number
+}
+
+/**
+ * Past this many edits the Myers trace (which grows quadratically) is not
+ * worth it; the remaining middle part is reported as a single change.
+ */
+export const defaultMaxEditDistance = 2000
+
+/**
+ * Line diff (Myers' O(ND) algorithm) after trimming the common prefix and
+ * suffix. Returns the changed regions in order.
+ */
+export function diffLines(
+  a: readonly string[],
+  b: readonly string[],
+  maxEditDistance = defaultMaxEditDistance,
+): LineDiffChange[] {
+  const minLength = Math.min(a.length, b.length)
+  let prefix = 0
+  while (prefix < minLength && a[prefix] === b[prefix])
+    prefix++
+  let suffix = 0
+  while (suffix < minLength - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix])
+    suffix++
+
+  const n = a.length - prefix - suffix
+  const m = b.length - prefix - suffix
+  if (n === 0 && m === 0)
+    return []
+  const whole = [{ oldStart: prefix, oldLength: n, newStart: prefix, newLength: m }]
+  if (n === 0 || m === 0)
+    return whole
+
+  const max = Math.min(n + m, maxEditDistance)
+  const offset = n + m + 1
+  const v = new Int32Array(2 * offset + 1)
+  // trace[d][k + d]: furthest x on diagonal k after d edits
+  const trace: Int32Array[] = []
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[prefix + x] === b[prefix + y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+  }
+  if (!found)
+    return whole
+
+  // walk back through the trace marking deleted/inserted lines
+  const deleted = new Uint8Array(n)
+  const inserted = new Uint8Array(m)
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1]
+    const k = x - y
+    const down = k === -d || (k !== d && prev[k - 1 + d - 1] < prev[k + 1 + d - 1])
+    const prevK = down ? k + 1 : k - 1
+    const prevX = prev[prevK + d - 1]
+    const prevY = prevX - prevK
+    if (down)
+      inserted[prevY] = 1
+    else
+      deleted[prevX] = 1
+    x = prevX
+    y = prevY
+  }
+
+  const changes: LineDiffChange[] = []
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && !deleted[i] && !inserted[j]) {
+      i++
+      j++
+      continue
+    }
+    const oldStart = i
+    const newStart = j
+    while (i < n && deleted[i])
+      i++
+    while (j < m && inserted[j])
+      j++
+    changes.push({ oldStart: prefix + oldStart, oldLength: i - oldStart, newStart: prefix + newStart, newLength: j - newStart })
+  }
+  return changes
+}
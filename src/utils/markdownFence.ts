@@ -0,0 +1,153 @@
+export interface FenceBlockStart {
+  /** 代码块在流中的序号（从 0 开始） */
+  index: number
+  /** 开始 fence 之后的原始 info string，例如 'ts title="a.ts"' */
+  info: string
+}
+
+export interface MarkdownFenceHandlers {
+  /** 代码块之外的普通文本（保留换行） */
+  onProse?: (text: string) => void
+  onBlockStart?: (block: FenceBlockStart) => void
+  /** 代码块内容增量；行与行之间以 '\n' 连接，结尾不包含 fence 前的换行 */
+  onBlockText?: (index: number, text: string) => void
+  /** 遇到闭合 fence，或流结束时代码块仍未闭合 */
+  onBlockEnd?: (index: number, closed: boolean) => void
+}
+
+// an opening fence: up to 3 spaces, then 3+ backticks (info without backticks) or 3+ tildes
+const openFenceRE = /^ {0,3}(`{3,}(?=[^`]*$)|~{3,}(?!~))(.*)$/
+// a line that may still turn into an opening fence once more text arrives
+const maybeOpenFenceRE = /^ {0,3}(?:`{0,2}|~{0,2}|`{3,}[^`]*|~{3}.*)$/
+
+/**
+ * Incrementally split a streamed markdown document into prose and fenced code
+ * blocks. Text is forwarded as early as possible: only the current line is
+ * held back while it could still become an opening or closing fence, so code
+ * inside a block streams character by character.
+ */
+export function createMarkdownFenceSplitter(handlers: MarkdownFenceHandlers) {
+  // current incomplete line
+  let buffer = ''
+  // number of chars of the current line already forwarded
+  let emitted = 0
+  let block: { index: number, char: string, size: number, hasLine: boolean } | null = null
+  let blockCount = 0
+
+  function isClosingFence(line: string) {
+    if (!block)
+      return false
+    const m = /^ {0,3}(`+|~+)[ \t]*$/.exec(line)
+    return !!m && m[1][0] === block.char && m[1].length >= block.size
+  }
+
+  function mayBeClosingFence(line: string) {
+    if (!block)
+      return false
+    const m = /^ {0,3}(`*|~*)[ \t]*$/.exec(line)
+    if (!m)
+      return false
+    // indentation only, or fence chars of the right kind so far
+    if (!m[1])
+      return /^ {0,3}$/.test(line)
+    return m[1][0] === block.char
+  }
+
+  function forward(text: string) {
+    if (!block) {
+      if (text)
+        handlers.onProse?.(text)
+      return
+    }
+    if (emitted === 0 && block.hasLine)
+      text = `\n${text}`
+    block.hasLine = true
+    if (text)
+      handlers.onBlockText?.(block.index, text)
+  }
+
+  function handleLine(line: string) {
+    if (emitted > 0) {
+      // already known not to be a fence: forward the remainder
+      const rest = line.slice(emitted)
+      if (block)
+        handlers.onBlockText?.(block.index, rest)
+      else
+        handlers.onProse?.(`${rest}\n`)
+      emitted = 0
+      return
+    }
+    if (!block) {
+      const m = openFenceRE.exec(line)
+      if (m) {
+        block = { index: blockCount++, char: m[1][0], size: m[1].length, hasLine: false }
+        handlers.onBlockStart?.({ index: block.index, info: m[2].trim() })
+        return
+      }
+      handlers.onProse?.(`${line}\n`)
+      return
+    }
+    if (isClosingFence(line)) {
+      const index = block.index
+      block = null
+      handlers.onBlockEnd?.(index, true)
+      return
+    }
+    forward(line)
+  }
+
+  function handlePartial() {
+    if (!buffer)
+      return
+    if (emitted === 0) {
+      const held = block ? mayBeClosingFence(buffer) : maybeOpenFenceRE.test(buffer)
+      if (held)
+        return
+    }
+    forward(buffer.slice(emitted))
+    emitted = buffer.length
+  }
+
+  function push(chunk: string) {
+    if (!chunk)
+      return
+    buffer += chunk
+    let idx = buffer.indexOf('\n')
+    while (idx !== -1) {
+      const line = buffer.slice(0, idx).replace(/\r$/, '')
+      buffer = buffer.slice(idx + 1)
+      handleLine(line)
+      idx = buffer.indexOf('\n')
+    }
+    handlePartial()
+  }
+
+  function end() {
+    if (buffer) {
+      const line = buffer
+      buffer = ''
+      if (emitted > 0) {
+        forward(line.slice(emitted))
+        emitted = 0
+      }
+      else if (block && isClosingFence(line)) {
+        const index = block.index
+        block = null
+        handlers.onBlockEnd?.(index, true)
+      }
+      else if (!block && openFenceRE.test(line)) {
+        handleLine(line)
+      }
+      else {
+        forward(line)
+      }
+    }
+    if (block) {
+      const index = block.index
+      block = null
+      handlers.onBlockEnd?.(index, false)
+    }
+  }
+
+  return { push, end }
+}
@@ -0,0 +1,166 @@
+import { arraysEqual } from './arraysEqual'
+import { diffLines } from './lineDiff'
+
+/**
+ * A section of a three-way merge: either settled text (unchanged, changed on
+ * one side only, or changed identically on both) or a conflict.
+ */
+export type MergeRegion
+  = | { type: 'stable', lines: string[] }
+    | { type: 'conflict', base: string[], ours: string[], theirs: string[] }
+
+interface SideChange {
+  side: 'ours' | 'theirs'
+  oldStart: number
+  oldLength: number
+  newLength: number
+}
+
+/**
+ * diff3-style merge of `ours` and `theirs` against their common `base`.
+ *
+ * Changes from both sides that overlap or touch in the base are grouped; a
+ * group touched by only one side (or by identical edits) merges cleanly,
+ * anything else becomes a conflict region.
+ */
+export function merge3(base: readonly string[], ours: readonly string[], theirs: readonly string[]): MergeRegion[] {
+  const changes: SideChange[] = [
+    ...diffLines(base, ours).map(c => ({ side: 'ours' as const, ...c })),
+    ...diffLines(base, theirs).map(c => ({ side: 'theirs' as const, ...c })),
+  ].sort((a, b) => a.oldStart - b.oldStart || (a.side === b.side ? 0 : a.side === 'ours' ? -1 : 1))
+
+  const regions: MergeRegion[] = []
+  const pushStable = (lines: readonly string[]) => {
+    if (!lines.length)
+      return
+    const last = regions.at(-1)
+    if (last?.type === 'stable')
+      last.lines.push(...lines)
+    else
+      regions.push({ type: 'stable', lines: [...lines] })
+  }
+
+  // line offset of each side relative to the base before the current group
+  let oursDelta = 0
+  let theirsDelta = 0
+  let pos = 0
+  let i = 0
+  while (i < changes.length) {
+    const start = changes[i].oldStart
+    let end = start + changes[i].oldLength
+    let j = i + 1
+    while (j < changes.length && changes[j].oldStart <= end) {
+      end = Math.max(end, changes[j].oldStart + changes[j].oldLength)
+      j++
+    }
+
+    pushStable(base.slice(pos, start))
+    const oursStart = start + oursDelta
+    const theirsStart = start + theirsDelta
+    let touchedOurs = false
+    let touchedTheirs = false
+    for (let k = i; k < j; k++) {
+      const c = changes[k]
+      if (c.side === 'ours') {
+        oursDelta += c.newLength - c.oldLength
+        touchedOurs = true
+      }
+      else {
+        theirsDelta += c.newLength - c.oldLength
+        touchedTheirs = true
+      }
+    }
+    const oursLines = ours.slice(oursStart, end + oursDelta)
+    const theirsLines = theirs.slice(theirsStart, end + theirsDelta)
+
+    if (!touchedTheirs)
+      pushStable(oursLines)
+    else if (!touchedOurs || arraysEqual(oursLines, theirsLines))
+      pushStable(theirsLines)
+    else
+      regions.push({ type: 'conflict', base: base.slice(start, end), ours: oursLines, theirs: theirsLines })
+
+    pos = end
+    i = j
+  }
+  pushStable(base.slice(pos))
+  return regions
+}
+
+export const conflictMarkers = {
+  ours: '<<<<<<<',
+  base: '|||||||',
+  separator: '=======',
+  theirs: '>>>>>>>',
+} as const
+
+/** A `<<<<<<<` … `>>>>>>>` block in merged text; line numbers are 1-based. */
+export interface ConflictBlock {
+  startLineNumber: number
+  separatorLineNumber: number
+  endLineNumber: number
+  ours: string[]
+  theirs: string[]
+}
+
+/**
+ * Lines of the merge result: settled text as is and conflicts wrapped in
+ * git-style markers.
+ */
+export function renderMergeRegions(regions: readonly MergeRegion[], labels: { ours?: string, theirs?: string } = {}): string[] {
+  const out: string[] = []
+  for (const region of regions) {
+    if (region.type === 'stable') {
+      out.push(...region.lines)
+      continue
+    }
+    out.push(labels.ours ? `${conflictMarkers.ours} ${labels.ours}` : conflictMarkers.ours)
+    out.push(...region.ours)
+    out.push(conflictMarkers.separator)
+    out.push(...region.theirs)
+    out.push(labels.theirs ? `${conflictMarkers.theirs} ${labels.theirs}` : conflictMarkers.theirs)
+  }
+  return out
+}
+
+function isMarker(line: string, marker: string) {
+  return line.startsWith(marker) && (line.length === marker.length || line[marker.length] === ' ')
+}
+
+/**
+ * Find conflict marker blocks in (possibly hand-edited) merged text. Blocks
+ * with missing markers are ignored, so a conflict counts as resolved as soon
+ * as its markers are gone. A diff3 `|||||||` base section is skipped.
+ */
+export function findConflictBlocks(lines: readonly string[]): ConflictBlock[] {
+  const blocks: ConflictBlock[] = []
+  let start = -1
+  let baseLine = -1
+  let separator = -1
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (isMarker(line, conflictMarkers.ours)) {
+      start = i
+      baseLine = -1
+      separator = -1
+    }
+    else if (start !== -1 && separator === -1 && isMarker(line, conflictMarkers.base)) {
+      baseLine = i
+    }
+    else if (start !== -1 && separator === -1 && line === conflictMarkers.separator) {
+      separator = i
+    }
+    else if (separator !== -1 && isMarker(line, conflictMarkers.theirs)) {
+      blocks.push({
+        startLineNumber: start + 1,
+        separatorLineNumber: separator + 1,
+        endLineNumber: i + 1,
+        ours: lines.slice(start + 1, baseLine === -1 ? separator : baseLine),
+        theirs: lines.slice(separator + 1, i),
+      })
+      start = -1
+      separator = -1
+    }
+  }
+  return blocks
+}
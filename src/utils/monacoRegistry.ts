@@ -0,0 +1,184 @@
+import type { SpecialTheme, ThemeInput } from 'shiki'
+import type { ShikiHighlighter } from '../type'
+import * as monaco from '../monaco-shim'
+import { themeName } from './highlighter'
+import { loadMonacoLanguage, registerMonacoThemes, setThemeRegisterPromise } from './registerMonacoThemes'
+import { setContainerTheme } from './scopedThemes'
+
+type ThemeLike = ThemeInput | string | SpecialTheme
+
+// reference counts of what live instances need; themes keep their original input
+const themeCounts = new Map<string, { theme: ThemeLike, count: number }>()
+const languageCounts = new Map<string, number>()
+// what the shared highlighter was last registered with
+let registeredThemeInputs: ThemeLike[] = []
+let registeredThemes = new Set<string>()
+let registeredLanguages = new Set<string>()
+let registration: Promise<ShikiHighlighter | null> | null = null
+// theme requests of live instances, most recent last; Monaco's global theme follows the latest
+let themeRequests: { owner: object, theme: string }[] = []
+
+function unionThemes() {
+  return [...themeCounts.values()].map(e => e.theme)
+}
+
+function unionLanguages() {
+  return [...languageCounts.keys()]
+}
+
+function covered() {
+  for (const key of themeCounts.keys()) {
+    if (!registeredThemes.has(key))
+      return false
+  }
+  for (const lang of languageCounts.keys()) {
+    if (!registeredLanguages.has(lang))
+      return false
+  }
+  return true
+}
+
+/**
+ * Register the union of everything live instances need into one shared
+ * highlighter. Re-registers only when the union grows: themes and grammars
+ * of released instances stay loaded until a larger union replaces them, so
+ * nothing another instance still uses is ever dropped.
+ */
+function registerUnion(): Promise<ShikiHighlighter | null> {
+  if (registration && covered())
+    return registration
+  const themes = unionThemes()
+  const languages = unionLanguages()
+  const p = registerMonacoThemes(themes, languages)
+  registration = p
+  registeredThemeInputs = themes
+  registeredThemes = new Set(themes.map(themeName))
+  registeredLanguages = new Set(languages)
+  p.catch(() => {
+    if (registration === p) {
+      registration = null
+      registeredThemeInputs = []
+      registeredThemes = new Set()
+      registeredLanguages = new Set()
+    }
+  })
+  return setThemeRegisterPromise(p)!
+}
+
+function retain(themes: readonly ThemeLike[], languages: readonly string[]) {
+  for (const theme of themes) {
+    const key = themeName(theme)
+    const entry = themeCounts.get(key)
+    if (entry)
+      entry.count++
+    else
+      themeCounts.set(key, { theme, count: 1 })
+  }
+  for (const lang of languages)
+    languageCounts.set(lang, (languageCounts.get(lang) ?? 0) + 1)
+}
+
+function releaseAll(themes: readonly ThemeLike[], languages: readonly string[]) {
+  for (const theme of themes) {
+    const key = themeName(theme)
+    const entry = themeCounts.get(key)
+    if (entry && --entry.count <= 0)
+      themeCounts.delete(key)
+  }
+  for (const lang of languages) {
+    const count = (languageCounts.get(lang) ?? 0) - 1
+    if (count <= 0)
+      languageCounts.delete(lang)
+    else
+      languageCounts.set(lang, count)
+  }
+}
+
+/**
+ * Shared, reference-counted theme / grammar registration for one editor
+ * instance.
+ *
+ * All live instances are served by a single highlighter holding the union of
+ * their themes and languages, so registering one instance's themes or
+ * grammars never unregisters another's. Each instance's theme is scoped to
+ * its editor container (see scopedThemes); Monaco's global theme, used by
+ * anything outside the containers, follows the most recent request and falls
+ * back to the latest remaining one when its owner is released.
+ */
+export function acquireMonacoResources(themes: readonly ThemeLike[], languages: readonly string[]) {
+  const owner = {}
+  let ownContainer: HTMLElement | null = null
+  const ownThemes = [...themes]
+  const ownLanguages = [...languages]
+  let released = false
+  retain(ownThemes, ownLanguages)
+
+  function addTheme(theme: ThemeLike) {
+    if (released || ownThemes.some(t => themeName(t) === themeName(theme)))
+      return
+    ownThemes.push(theme)
+    retain([theme], [])
+  }
+
+  function addLanguage(language: string) {
+    if (released || ownLanguages.includes(language))
+      return
+    ownLanguages.push(language)
+    retain([], [language])
+  }
+
+  /** Wait until every theme and grammar of live instances is registered with Monaco. */
+  function register() {
+    return registerUnion()
+  }
+
+  /** Load one more grammar on demand into the shared highlighter. */
+  async function loadLanguage(language: string) {
+    await registerUnion().catch(() => null)
+    // the grammar goes into the highlighter Monaco is currently using
+    await loadMonacoLanguage(registeredThemeInputs, language)
+    addLanguage(language)
+    registeredLanguages.add(language)
+  }
+
+  /** Show a theme in this instance's editors, inside `container`. */
+  function applyTheme(theme: string, container: HTMLElement | null = ownContainer) {
+    monaco.editor.setTheme(theme)
+    if (container !== ownContainer)
+      setContainerTheme(ownContainer, null)
+    ownContainer = container
+    setContainerTheme(container, theme)
+    themeRequests = themeRequests.filter(r => r.owner !== owner)
+    themeRequests.push({ owner, theme })
+  }
+
+  function release() {
+    if (released)
+      return
+    released = true
+    releaseAll(ownThemes, ownLanguages)
+    setContainerTheme(ownContainer, null)
+    ownContainer = null
+    const wasActive = themeRequests.at(-1)?.owner === owner
+    themeRequests = themeRequests.filter(r => r.owner !== owner)
+    const next = themeRequests.at(-1)
+    if (wasActive && next) {
+      try {
+        monaco.editor.setTheme(next.theme)
+      }
+      catch { }
+    }
+  }
+
+  return { register, loadLanguage, addTheme, addLanguage, applyTheme, release }
+}
+
+export type MonacoResources = ReturnType<typeof acquireMonacoResources>
+
+/** Themes and languages currently required by live instances (for debugging and tests). */
+export function getMonacoResourceUsage() {
+  return {
+    themes: [...themeCounts.entries()].map(([name, e]) => ({ name, count: e.count })),
+    languages: [...languageCounts.entries()].map(([name, count]) => ({ name, count })),
+  }
+}
@@ -0,0 +1,358 @@
+import { diffLines } from './lineDiff'
+
+export type PatchFileStatus = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied'
+
+export interface PatchHunkLine {
+  type: ' ' | '-' | '+'
+  text: string
+}
+
+export interface PatchHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  /** text after the closing `@@`, usually the enclosing function */
+  section: string
+  lines: PatchHunkLine[]
+}
+
+export interface PatchFile {
+  /** path before the change, `null` for added files (`/dev/null`) */
+  oldPath: string | null
+  /** path after the change, `null` for deleted files (`/dev/null`) */
+  newPath: string | null
+  status: PatchFileStatus
+  binary: boolean
+  hunks: PatchHunk[]
+  /** `\ No newline at end of file` was reported for the old side */
+  oldNoNewlineAtEnd: boolean
+  /** `\ No newline at end of file` was reported for the new side */
+  newNoNewlineAtEnd: boolean
+}
+
+const hunkHeaderRE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/
+
+function unquote(path: string) {
+  if (path.length >= 2 && path.startsWith('"') && path.endsWith('"'))
+    return path.slice(1, -1).replace(/\\(["\\])/g, '$1')
+  return path
+}
+
+// `--- a/src/x.ts\t2024-01-01 ...` -> `src/x.ts`; `/dev/null` -> null
+function headerPath(raw: string, prefix: 'a/' | 'b/') {
+  const tab = raw.indexOf('\t')
+  const path = unquote((tab === -1 ? raw : raw.slice(0, tab)).trim())
+  if (path === '/dev/null')
+    return null
+  return path.startsWith(prefix) ? path.slice(2) : path
+}
+
+// `diff --git a/x b/x`: paths may contain spaces, so prefer the split where
+// both halves name the same file and fall back to the last ` b/`.
+function gitHeaderPaths(rest: string): [string, string] {
+  const mid = (rest.length - 1) / 2
+  if (Number.isInteger(mid) && rest[mid] === ' ') {
+    const a = unquote(rest.slice(0, mid))
+    const b = unquote(rest.slice(mid + 1))
+    if (a.startsWith('a/') && b.startsWith('b/') && a.slice(2) === b.slice(2))
+      return [a.slice(2), b.slice(2)]
+  }
+  const idx = rest.lastIndexOf(' b/')
+  if (idx === -1)
+    return [rest, rest]
+  return [headerPath(rest.slice(0, idx), 'a/') ?? '', headerPath(rest.slice(idx + 1), 'b/') ?? '']
+}
+
+function createFile(oldPath: string | null = null, newPath: string | null = null): PatchFile {
+  return {
+    oldPath,
+    newPath,
+    status: 'modified',
+    binary: false,
+    hunks: [],
+    oldNoNewlineAtEnd: false,
+    newNoNewlineAtEnd: false,
+  }
+}
+
+/**
+ * Parse unified diff text (`diff -u` or `git diff`, single or multi-file).
+ *
+ * Anything outside of file headers and hunks (commit messages, `index` lines,
+ * mode changes) is ignored. Hunk bodies are read by the line counts in their
+ * `@@` header, so lines starting with `---`/`+++` inside a hunk are content.
+ */
+export function parsePatch(text: string): PatchFile[] {
+  const files: PatchFile[] = []
+  let file: PatchFile | null = null
+  // set once the `---` header of the current file has been read
+  let sawOldHeader = false
+  let hunk: PatchHunk | null = null
+  let oldRemaining = 0
+  let newRemaining = 0
+  let lastType: PatchHunkLine['type'] | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      // some tools strip the single space off empty context lines
+      const type = line === '' ? ' ' : line[0]
+      if (type === ' ' || type === '-' || type === '+') {
+        hunk.lines.push({ type, text: line.slice(1) })
+        if (type !== '+')
+          oldRemaining--
+        if (type !== '-')
+          newRemaining--
+        lastType = type
+        continue
+      }
+    }
+    if (line.startsWith('\\')) {
+      // `\ No newline at end of file` refers to the line right before it
+      if (file && lastType) {
+        if (lastType !== '+')
+          file.oldNoNewlineAtEnd = true
+        if (lastType !== '-')
+          file.newNoNewlineAtEnd = true
+      }
+      continue
+    }
+    lastType = null
+    hunk = null
+
+    if (line.startsWith('diff --git ')) {
+      const [oldPath, newPath] = gitHeaderPaths(line.slice('diff --git '.length))
+      file = createFile(oldPath, newPath)
+      files.push(file)
+      sawOldHeader = false
+      continue
+    }
+    if (line.startsWith('--- ')) {
+      if (!file || file.hunks.length || sawOldHeader) {
+        file = createFile()
+        files.push(file)
+      }
+      file.oldPath = headerPath(line.slice(4), 'a/')
+      sawOldHeader = true
+      continue
+    }
+    if (!file)
+      continue
+    if (line.startsWith('+++ ')) {
+      file.newPath = headerPath(line.slice(4), 'b/')
+    }
+    else if (line.startsWith('@@')) {
+      const m = hunkHeaderRE.exec(line)
+      if (!m)
+        continue
+      hunk = {
+        oldStart: Number(m[1]),
+        oldLines: m[2] == null ? 1 : Number(m[2]),
+        newStart: Number(m[3]),
+        newLines: m[4] == null ? 1 : Number(m[4]),
+        section: m[5],
+        lines: [],
+      }
+      file.hunks.push(hunk)
+      oldRemaining = hunk.oldLines
+      newRemaining = hunk.newLines
+    }
+    else if (line.startsWith('rename from ') || line.startsWith('copy from ')) {
+      file.oldPath = unquote(line.slice(line.indexOf(' from ') + 6))
+      file.status = line.startsWith('rename') ? 'renamed' : 'copied'
+    }
+    else if (line.startsWith('rename to ') || line.startsWith('copy to ')) {
+      file.newPath = unquote(line.slice(line.indexOf(' to ') + 4))
+    }
+    else if (line.startsWith('new file mode')) {
+      file.status = 'added'
+    }
+    else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted'
+    }
+    else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true
+    }
+  }
+
+  for (const f of files) {
+    if (f.oldPath == null)
+      f.status = 'added'
+    else if (f.newPath == null)
+      f.status = 'deleted'
+    else if (f.status === 'added')
+      f.oldPath = null
+    else if (f.status === 'deleted')
+      f.newPath = null
+    else if (f.status === 'modified' && f.oldPath !== f.newPath)
+      f.status = 'renamed'
+  }
+  return files
+}
+
+/** Display path of a parsed file: the new path, or the old one for deletions. */
+export function patchFilePath(file: PatchFile) {
+  return file.newPath ?? file.oldPath ?? ''
+}
+
+function joinLines(lines: readonly string[], noNewlineAtEnd: boolean) {
+  if (!lines.length)
+    return ''
+  const text = lines.join('\n')
+  return noNewlineAtEnd ? text : `${text}\n`
+}
+
+/**
+ * Rebuild the original and modified text of one file from its hunks.
+ *
+ * With `baseText` (the full old file) the hunks are applied to it and both
+ * sides are complete; a hunk whose context or removed lines do not match
+ * throws. Without it only the lines covered by the hunks are known, so each
+ * side is the concatenation of the hunks.
+ */
+export function reconstructPatchFile(file: PatchFile, baseText?: string): { original: string, modified: string } {
+  if (baseText == null) {
+    const original: string[] = []
+    const modified: string[] = []
+    for (const hunk of file.hunks) {
+      for (const { type, text } of hunk.lines) {
+        if (type !== '+')
+          original.push(text)
+        if (type !== '-')
+          modified.push(text)
+      }
+    }
+    return {
+      original: joinLines(original, file.oldNoNewlineAtEnd),
+      modified: joinLines(modified, file.newNoNewlineAtEnd),
+    }
+  }
+
+  const baseHasNewline = baseText.endsWith('\n')
+  const base = baseText === '' ? [] : baseText.split(/\r?\n/)
+  if (baseHasNewline)
+    base.pop()
+  const out: string[] = []
+  // next base line (0-based) not yet copied
+  let next = 0
+  for (const hunk of file.hunks) {
+    // a pure insertion's oldStart is the line it follows
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1
+    if (start < next || start > base.length)
+      throw new Error(`Patch hunk @@ -${hunk.oldStart},${hunk.oldLines} @@ is out of range for ${patchFilePath(file)}`)
+    for (; next < start; next++)
+      out.push(base[next])
+    for (const { type, text } of hunk.lines) {
+      if (type !== '+') {
+        if (base[next] !== text)
+          throw new Error(`Patch does not apply to ${patchFilePath(file)}: line ${next + 1} does not match`)
+        next++
+      }
+      if (type !== '-')
+        out.push(text)
+    }
+  }
+  for (; next < base.length; next++)
+    out.push(base[next])
+
+  // the last hunk only tells us about the end of file when it reaches it
+  const last = file.hunks.at(-1)
+  const lastEnd = last ? (last.oldLines === 0 ? last.oldStart : last.oldStart - 1 + last.oldLines) : 0
+  const touchesEnd = !!last && lastEnd >= base.length
+  const modifiedNoNewline = touchesEnd ? file.newNoNewlineAtEnd : !baseHasNewline
+  return {
+    original: baseText,
+    modified: joinLines(out, modifiedNoNewline),
+  }
+}
+
+export interface CreatePatchOptions {
+  /** unchanged lines around each hunk, default 3 */
+  context?: number
+  /** path for the `---` header; `null` writes `/dev/null` (added file) */
+  oldFile?: string | null
+  /** path for the `+++` header, defaults to `oldFile`; `null` writes `/dev/null` (deleted file) */
+  newFile?: string | null
+}
+
+const noNewlineMarker = '\\ No newline at end of file'
+
+function splitForPatch(text: string) {
+  if (text === '')
+    return { lines: [] as string[], keys: [] as string[] }
+  const lines = text.split('\n')
+  const keys = lines.slice()
+  if (lines.at(-1) === '') {
+    lines.pop()
+    keys.pop()
+  }
+  // a missing final newline makes the last line differ from the same text with one
+  else {
+    keys[keys.length - 1] += `\n${noNewlineMarker}`
+  }
+  return { lines, keys }
+}
+
+function hunkRange(start: number, length: number) {
+  if (length === 1)
+    return `${start + 1}`
+  return `${length === 0 ? start : start + 1},${length}`
+}
+
+/**
+ * Generate a unified diff (`git apply` / `patch -p1` compatible) between two
+ * texts. Returns an empty string when they are equal.
+ */
+export function createPatch(original: string, modified: string, options: CreatePatchOptions = {}): string {
+  const context = Math.max(0, options.context ?? 3)
+  const a = splitForPatch(original)
+  const b = splitForPatch(modified)
+  const changes = diffLines(a.keys, b.keys)
+  if (!changes.length)
+    return ''
+
+  const oldFile = options.oldFile === undefined ? 'original' : options.oldFile
+  const newFile = options.newFile === undefined ? oldFile : options.newFile
+  const out = [
+    `--- ${oldFile == null ? '/dev/null' : `a/${oldFile}`}`,
+    `+++ ${newFile == null ? '/dev/null' : `b/${newFile}`}`,
+  ]
+  const push = (prefix: string, side: { lines: string[], keys: string[] }, index: number) => {
+    out.push(prefix + side.lines[index])
+    if (side.keys[index] !== side.lines[index])
+      out.push(noNewlineMarker)
+  }
+
+  let g = 0
+  while (g < changes.length) {
+    // merge changes whose context would touch or overlap
+    let last = g
+    while (last + 1 < changes.length
+      && changes[last + 1].oldStart - (changes[last].oldStart + changes[last].oldLength) <= 2 * context) {
+      last++
+    }
+    const first = changes[g]
+    const end = changes[last]
+    const oldStart = Math.max(0, first.oldStart - context)
+    const oldEnd = Math.min(a.lines.length, end.oldStart + end.oldLength + context)
+    const newStart = first.newStart - (first.oldStart - oldStart)
+    const newEnd = end.newStart + end.newLength + (oldEnd - end.oldStart - end.oldLength)
+    out.push(`@@ -${hunkRange(oldStart, oldEnd - oldStart)} +${hunkRange(newStart, newEnd - newStart)} @@`)
+
+    let i = oldStart
+    for (let c = g; c <= last; c++) {
+      const change = changes[c]
+      for (; i < change.oldStart; i++)
+        push(' ', a, i)
+      for (let k = 0; k < change.oldLength; k++)
+        push('-', a, change.oldStart + k)
+      for (let k = 0; k < change.newLength; k++)
+        push('+', b, change.newStart + k)
+      i = change.oldStart + change.oldLength
+    }
+    for (; i < oldEnd; i++)
+      push(' ', a, i)
+    g = last + 1
+  }
+  return `${out.join('\n')}\n`
+}
@@ -2,29 +2,104 @@ export interface TimeSource {
   requestAnimationFrame: (cb: FrameRequestCallback) => number
   cancelAnimationFrame: (id: number) => void
 }
-const ids: Record<string, number | null> = {}
-const ts = ({
+
+const globalTimeSource: TimeSource = {
   requestAnimationFrame: (cb: FrameRequestCallback) => requestAnimationFrame(cb),
   cancelAnimationFrame: (id: number) => cancelAnimationFrame(id),
-})
-export function createRafScheduler() {
-  return { schedule, cancel }
 }
 
-function schedule(kind: string, cb: FrameRequestCallback) {
-  const existing = ids[kind]
-  if (existing != null) {
-    ts.cancelAnimationFrame(existing)
+/**
+ * Create a frame scheduler that coalesces callbacks by kind: scheduling a
+ * kind again replaces its pending frame. Every scheduler keeps its own ids,
+ * so managers of different editors never cancel each other's frames.
+ */
+export function createRafScheduler(ts: TimeSource = globalTimeSource) {
+  const ids: Record<string, number | null> = {}
+
+  function schedule(kind: string, cb: FrameRequestCallback) {
+    const existing = ids[kind]
+    if (existing != null) {
+      ts.cancelAnimationFrame(existing)
+    }
+    ids[kind] = ts.requestAnimationFrame((t) => {
+      ids[kind] = null
+      cb(t)
+    })
+  }
+
+  function cancel(kind: string) {
+    const id = ids[kind]
+    if (id != null) {
+      ts.cancelAnimationFrame(id)
+      ids[kind] = null
+    }
+  }
+
+  function cancelAll() {
+    for (const kind of Object.keys(ids))
+      cancel(kind)
   }
-  ids[kind] = ts.requestAnimationFrame((t) => {
-    ids[kind] = null
-    cb(t)
-  })
+
+  return { schedule, cancel, cancelAll }
 }
-function cancel(kind: string) {
-  const id = ids[kind]
-  if (id != null) {
-    ts.cancelAnimationFrame(id)
-    ids[kind] = null
+
+export type RafScheduler = ReturnType<typeof createRafScheduler>
+
+/**
+ * Deterministic time source for tests: frames only run when `tick()` or
+ * `flush()` is called, and the frame timestamp advances by `frameMs` per
+ * frame. Callbacks requested while a frame runs go into the next frame.
+ */
+export function createFakeTimeSource(frameMs = 16) {
+  let nextId = 1
+  let time = 0
+  let queue = new Map<number, FrameRequestCallback>()
+
+  function requestAnimationFrame(cb: FrameRequestCallback) {
+    const id = nextId++
+    queue.set(id, cb)
+    return id
+  }
+
+  function cancelAnimationFrame(id: number) {
+    queue.delete(id)
+  }
+
+  /** Run `frames` frames; returns how many callbacks ran. */
+  function tick(frames = 1) {
+    let ran = 0
+    for (let i = 0; i < frames; i++) {
+      time += frameMs
+      const current = queue
+      queue = new Map()
+      for (const cb of current.values()) {
+        cb(time)
+        ran++
+      }
+    }
+    return ran
+  }
+
+  /** Run frames until nothing is pending (at most `maxFrames`); returns the frames run. */
+  function flush(maxFrames = 100) {
+    let frames = 0
+    while (queue.size && frames < maxFrames) {
+      tick()
+      frames++
+    }
+    return frames
+  }
+
+  return {
+    requestAnimationFrame,
+    cancelAnimationFrame,
+    tick,
+    flush,
+    now: () => time,
+    get pending() {
+      return queue.size
+    },
   }
 }
+
+export type FakeTimeSource = ReturnType<typeof createFakeTimeSource>
@@ -1,8 +1,10 @@
 import type { SpecialTheme, ThemeInput } from 'shiki'
 import { shikiToMonaco } from '@shikijs/monaco'
-import { createHighlighter } from 'shiki'
+import { bundledLanguages } from 'shiki'
 import * as monaco from '../monaco-shim'
 import { arraysEqual } from './arraysEqual'
+import { clearHighlighters, getHighlighterCacheSize, getHighlighterEntry, getOrCreateHighlighter, serializeThemes } from './highlighter'
+import { registerScopedTokens } from './scopedThemes'
 
 let themesRegistered = false
 let languagesRegistered = false
@@ -17,14 +19,8 @@ export function setThemeRegisterPromise(p: Promise<import('../type').ShikiHighli
   return themeRegisterPromise = p
 }
 
-interface HighlighterEntry {
-  // promise that resolves to a shiki highlighter
-  promise: Promise<any>
-  // set of languages this highlighter was created with
-  languages: Set<string>
-}
-
-const highlighterCache = new Map<string, HighlighterEntry>()
+// in-flight / finished lazy grammar loads, per themes combination
+const languageLoads = new Map<string, Promise<void>>()
 
 /**
  * Clear all cached shiki highlighters.
@@ -34,93 +30,12 @@ const highlighterCache = new Map<string, HighlighterEntry>()
  * are no longer needed (for example on app shutdown) to free memory.
  */
 export function clearHighlighterCache() {
-  highlighterCache.clear()
-}
-
-/**
- * Return number of entries currently in the highlighter cache.
- * Helpful for tests and debugging.
- */
-export function getHighlighterCacheSize() {
-  return highlighterCache.size
+  clearHighlighters()
+  languageLoads.clear()
 }
 
-function serializeThemes(themes: (ThemeInput | string | SpecialTheme)[]) {
-  return JSON.stringify(
-    themes.map(t => typeof t === 'string' ? t : (t as any).name ?? JSON.stringify(t)).sort(),
-  )
-}
-
-async function getOrCreateHighlighter(
-  themes: (ThemeInput | string | SpecialTheme)[],
-  languages: string[],
-): Promise<import('../type').ShikiHighlighter> {
-  const key = serializeThemes(themes)
-  const requestedSet = new Set(languages)
-  let existing = highlighterCache.get(key)
-
-  if (existing) {
-    // if existing entry already covers requested languages, reuse
-    let allIncluded = true
-    for (const l of requestedSet) {
-      if (!existing.languages.has(l)) {
-        allIncluded = false
-        break
-      }
-    }
-    if (allIncluded) {
-      return existing.promise
-    }
-
-    // double-check cache in case a concurrent request already replaced/expanded the entry
-    const prev = existing
-    const current = highlighterCache.get(key)
-    if (current && current !== prev) {
-      // if the current cached entry already covers requested languages, reuse it
-      let allIncludedCurrent = true
-      for (const l of requestedSet) {
-        if (!current.languages.has(l)) {
-          allIncludedCurrent = false
-          break
-        }
-      }
-      if (allIncludedCurrent) {
-        return current.promise
-      }
-      // otherwise prefer the most recent cached entry for the union creation
-      existing = current
-    }
-
-    // otherwise create a new highlighter with the union of languages
-    const union = new Set<string>([...existing.languages, ...requestedSet])
-    const langsArray = Array.from(union)
-    const p = createHighlighter({ themes, langs: langsArray })
-    const newEntry: HighlighterEntry = { promise: p, languages: union }
-    highlighterCache.set(key, newEntry)
-
-    // if creation fails, try to restore previous entry (prev)
-    p.catch(() => {
-      if (highlighterCache.get(key) === newEntry && prev) {
-        highlighterCache.set(key, prev)
-      }
-    })
-
-    return p
-  }
-
-  // no cached entry, create and cache
-  const p = createHighlighter({ themes, langs: Array.from(requestedSet) })
-  const entry: HighlighterEntry = { promise: p, languages: requestedSet }
-  highlighterCache.set(key, entry)
-  p.catch(() => {
-    if (highlighterCache.get(key) === entry) {
-      highlighterCache.delete(key)
-    }
-  })
-  return p
-}
 // Exported for callers that need direct access to the shiki highlighter
-export { getOrCreateHighlighter }
+export { getHighlighterCacheSize, getOrCreateHighlighter }
 
 /**
  * Update the theme used by the shiki highlighter for a given themes+languages
@@ -144,13 +59,14 @@ export async function registerMonacoThemes(
     && arraysEqual(languages, currentLanguages)
   ) {
     // return existing highlighter if available
-    const existing = highlighterCache.get(serializeThemes(themes))
+    const existing = getHighlighterEntry(themes)
     return existing ? existing.promise : Promise.resolve(null)
   }
 
   const p = (async () => {
     const highlighter = await getOrCreateHighlighter(themes, languages)
     shikiToMonaco(highlighter, monaco)
+    registerScopedTokens(highlighter)
 
     themesRegistered = true
     currentThemes = themes
@@ -169,6 +85,46 @@ export async function registerMonacoThemes(
   }
 }
 
+/**
+ * Load a single shiki grammar into the cached highlighter for `themes` and
+ * re-register the highlighter with Monaco, so a language that was not part of
+ * the initial `languages` list can be used without recreating anything.
+ * Concurrent requests for the same language share one load; a failed load is
+ * forgotten so it can be retried.
+ */
+export function loadMonacoLanguage(
+  themes: (ThemeInput | string | SpecialTheme)[],
+  language: string,
+): Promise<void> {
+  const key = `${serializeThemes(themes)}:${language}`
+  const existing = languageLoads.get(key)
+  if (existing)
+    return existing
+
+  const p = (async () => {
+    if (!(language in bundledLanguages))
+      throw new Error(`Language "${language}" is not supported by shiki`)
+    // known to Monaco right away: models keep the id and get tokenized once the grammar arrives
+    if (!monaco.languages.getLanguages().some(l => l.id === language))
+      monaco.languages.register({ id: language })
+    // wait for a registration in progress so the grammar lands in its highlighter
+    await themeRegisterPromise?.catch(() => null)
+    const entry = getHighlighterEntry(themes)
+    const highlighter = entry ? await entry.promise : await getOrCreateHighlighter(themes, [])
+    if (!highlighter.getLoadedLanguages().includes(language))
+      await highlighter.loadLanguage(language)
+    getHighlighterEntry(themes)?.languages.add(language)
+    shikiToMonaco(highlighter, monaco)
+    registerScopedTokens(highlighter)
+  })()
+  languageLoads.set(key, p)
+  p.catch(() => {
+    if (languageLoads.get(key) === p)
+      languageLoads.delete(key)
+  })
+  return p
+}
+
 function registerMonacoLanguages(languages: string[]) {
   if (languagesRegistered && arraysEqual(languages, currentLanguages)) {
     return
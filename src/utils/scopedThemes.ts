@@ -0,0 +1,224 @@
+import type { IRawTheme, StateStack } from '@shikijs/vscode-textmate'
+import type * as _monaco from '../monaco-shim'
+import type { ShikiHighlighter } from '../type'
+import { INITIAL, Theme } from '@shikijs/vscode-textmate'
+import * as monaco from '../monaco-shim'
+
+// Monaco has a single global theme, and tokens normally carry colour ids of
+// that theme. So that every editor can show its own theme, the shiki tokens
+// carry a style id instead: one id per distinct combination of the styles the
+// registered themes give a token. A stylesheet maps the ids to each theme's
+// colours under a `monaco-theme-<name>` class put on the editor's container.
+
+// Style ids start above the colour ids of Monaco's own themes, so tokens of
+// Monaco's built-in tokenizers keep their colours. The foreground field of
+// the token metadata is 9 bits wide.
+const firstStyleId = 256
+const lastStyleId = 511
+const defaultForegroundId = 1
+const styleSheetId = 'vue-use-monaco-scoped-themes'
+const tokenizeMaxLineLength = 20000
+const tokenizeTimeLimit = 500
+
+// vscode-textmate's FontStyle is a const enum
+const fontStyleNotSet = -1
+const fontStyleItalic = 1
+const fontStyleBold = 2
+const fontStyleUnderline = 4
+const fontStyleStrikethrough = 8
+
+interface ScopedTheme {
+  name: string
+  className: string
+  theme: Theme
+  colors: Record<string, string>
+}
+
+interface TokenStyle {
+  color: string | undefined
+  fontStyle: number
+}
+
+let scopedThemes: ScopedTheme[] = []
+// combined styles of a token in every theme -> style id
+const styleIds = new Map<string, number>()
+// scope path of a token -> token type and style id bits of its metadata
+const tokenMetadata = new Map<string, number>()
+
+class TokenizerState implements _monaco.languages.IState {
+  constructor(readonly ruleStack: StateStack) {}
+
+  clone() {
+    return new TokenizerState(this.ruleStack)
+  }
+
+  equals(other: _monaco.languages.IState) {
+    return other instanceof TokenizerState && other.ruleStack === this.ruleStack
+  }
+}
+
+/** Class that applies `theme` to the editors inside an element. */
+export function themeClassName(theme: string) {
+  return `monaco-theme-${theme.replace(/[^\w-]/g, '-')}`
+}
+
+/**
+ * Show `theme` in the editors inside `container`, replacing the theme it had;
+ * `null` removes it again.
+ */
+export function setContainerTheme(container: HTMLElement | null, theme: string | null) {
+  // containers are plain objects outside the browser
+  if (!container?.classList)
+    return
+  for (const className of Array.from(container.classList)) {
+    if (className.startsWith('monaco-theme-'))
+      container.classList.remove(className)
+  }
+  if (theme)
+    container.classList.add(themeClassName(theme))
+}
+
+type ScopePath = Parameters<Theme['match']>[0]
+
+// Resolve the style of a token like the grammar does: each scope on the
+// path may override what its parents set.
+function resolveStyle(theme: Theme, scopes: string[]): TokenStyle {
+  const defaults = theme.getDefaults()
+  let foreground = defaults.foregroundId
+  let fontStyle = defaults.fontStyle
+  let path: ScopePath = null
+  for (const scopeName of scopes) {
+    // vscode-textmate only reads `parent` and `scopeName` of its (unexported) ScopeStack
+    path = { parent: path, scopeName } as unknown as ScopePath
+    const match = theme.match(path)
+    if (!match)
+      continue
+    if (match.foregroundId)
+      foreground = match.foregroundId
+    if (match.fontStyle !== fontStyleNotSet)
+      fontStyle = match.fontStyle
+  }
+  return { color: theme.getColorMap()[foreground], fontStyle }
+}
+
+function styleDeclarations({ color, fontStyle }: TokenStyle) {
+  const declarations = color ? [`color: ${color};`] : []
+  if (fontStyle & fontStyleItalic)
+    declarations.push('font-style: italic;')
+  if (fontStyle & fontStyleBold)
+    declarations.push('font-weight: bold;')
+  const decorations = [
+    fontStyle & fontStyleUnderline ? 'underline' : '',
+    fontStyle & fontStyleStrikethrough ? 'line-through' : '',
+  ].filter(Boolean)
+  if (decorations.length)
+    declarations.push(`text-decoration: ${decorations.join(' ')};`)
+  return declarations.join(' ')
+}
+
+function appendStyles(css: string) {
+  if (typeof document === 'undefined')
+    return
+  let style = document.getElementById(styleSheetId)
+  if (!style) {
+    style = document.createElement('style')
+    style.id = styleSheetId
+    document.head.append(style)
+  }
+  style.textContent += css
+}
+
+function resetStyles() {
+  if (typeof document !== 'undefined') {
+    const style = document.getElementById(styleSheetId)
+    if (style)
+      style.textContent = ''
+  }
+  // editor colours of each theme, as the CSS variables Monaco's widgets read
+  appendStyles(scopedThemes.map(({ className, colors }) => {
+    const variables = Object.entries(colors).map(([key, value]) => `--vscode-${key.replace(/\./g, '-')}: ${value};`)
+    return `.${className} .monaco-editor, .${className} .monaco-diff-editor { ${variables.join(' ')} }\n`
+  }).join(''))
+}
+
+function styleIdFor(scopes: string[]) {
+  const styles = scopedThemes.map(({ theme }) => resolveStyle(theme, scopes))
+  const key = styles.map(s => `${s.color}/${s.fontStyle}`).join('|')
+  let id = styleIds.get(key)
+  if (id === undefined) {
+    // out of ids: show the default colour of the global theme
+    if (firstStyleId + styleIds.size > lastStyleId)
+      return defaultForegroundId
+    id = firstStyleId + styleIds.size
+    styleIds.set(key, id)
+    appendStyles(scopedThemes.map(({ className }, i) => `.${className} .mtk${id} { ${styleDeclarations(styles[i])} }\n`).join(''))
+  }
+  return id
+}
+
+// comment / string / regex, as Monaco uses for brackets and auto-closing pairs
+function standardTokenType(scopes: string[]) {
+  let type = 0
+  for (const scope of scopes) {
+    const match = /\b(?:comment|string|regex|meta\.embedded)\b/.exec(scope)
+    if (match)
+      type = match[0] === 'comment' ? 1 : match[0] === 'string' ? 2 : match[0] === 'regex' ? 3 : 0
+  }
+  return type
+}
+
+function metadataFor(scopes: string[]) {
+  const key = scopes.join(' ')
+  let metadata = tokenMetadata.get(key)
+  if (metadata === undefined) {
+    metadata = ((standardTokenType(scopes) << 8) | (styleIdFor(scopes) << 15)) >>> 0
+    tokenMetadata.set(key, metadata)
+  }
+  return metadata
+}
+
+/**
+ * Tokenize the highlighter's languages into theme-independent style ids, so
+ * editors inside a `setContainerTheme` container show that theme whatever
+ * Monaco's global theme is. Call after `shikiToMonaco`, whose tokenizers
+ * this replaces.
+ */
+export function registerScopedTokens(highlighter: ShikiHighlighter) {
+  const themeNames: string[] = highlighter.getLoadedThemes()
+  if (themeNames.join('\n') !== scopedThemes.map(t => t.name).join('\n')) {
+    scopedThemes = themeNames.map((name) => {
+      const resolved = highlighter.getTheme(name)
+      return {
+        name,
+        className: themeClassName(name),
+        theme: Theme.createFromRawTheme(resolved as IRawTheme),
+        colors: resolved.colors ?? {},
+      }
+    })
+    styleIds.clear()
+    tokenMetadata.clear()
+    resetStyles()
+  }
+
+  const monacoLanguageIds = new Set(monaco.languages.getLanguages().map(l => l.id))
+  for (const lang of highlighter.getLoadedLanguages() as string[]) {
+    if (!monacoLanguageIds.has(lang))
+      continue
+    const languageId = monaco.languages.getEncodedLanguageId(lang)
+    monaco.languages.setTokensProvider(lang, {
+      getInitialState: () => new TokenizerState(INITIAL),
+      tokenizeEncoded(line: string, state: _monaco.languages.IState) {
+        const { ruleStack } = state as TokenizerState
+        if (line.length >= tokenizeMaxLineLength)
+          return { tokens: new Uint32Array([0, languageId]), endState: state }
+        const result = highlighter.getLanguage(lang).tokenizeLine(line, ruleStack, tokenizeTimeLimit)
+        const tokens = new Uint32Array(result.tokens.length * 2)
+        result.tokens.forEach((token: { startIndex: number, scopes: string[] }, i: number) => {
+          tokens[2 * i] = token.startIndex
+          tokens[2 * i + 1] = (metadataFor(token.scopes) | languageId) >>> 0
+        })
+        return { tokens, endState: new TokenizerState(result.ruleStack) }
+      },
+    })
+  }
+}
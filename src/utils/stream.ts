@@ -0,0 +1,205 @@
+/**
+ * Minimal shape of an `EventSource` (SSE) we rely on. Any object with the same
+ * listener API works, e.g. polyfills or custom fetch-based SSE clients.
+ */
+export interface EventSourceLike {
+  addEventListener: (type: string, listener: (event: any) => void) => void
+  removeEventListener: (type: string, listener: (event: any) => void) => void
+  close: () => void
+  /** 2 (CLOSED) when the source was closed on purpose; an `error` in any other state is a failure */
+  readonly readyState?: number
+}
+
+// EventSource.CLOSED
+const eventSourceClosed = 2
+
+export type CodeStreamChunk = string | Uint8Array
+
+export type CodeStreamSource
+  = | AsyncIterable<CodeStreamChunk>
+    | ReadableStream<CodeStreamChunk>
+    | EventSourceLike
+
+export interface StreamCodeOptions {
+  /** 流式写入时使用的语言，未传时保持编辑器当前语言 */
+  language?: string
+  /** 取消流：触发后停止读取并 resolve（`aborted: true`） */
+  signal?: AbortSignal
+  /**
+   * 对于 EventSource 类数据源，收到该 data 时视为流结束。
+   * 默认 '[DONE]'（与常见 LLM SSE 接口保持一致）。
+   */
+  doneMessage?: string
+}
+
+export interface StreamCodeResult {
+  /** 写入编辑器的非空文本块数量 */
+  chunks: number
+  /** 写入编辑器的字符数（UTF-16 code units） */
+  chars: number
+  /** 从开始读取到结束的耗时（ms） */
+  durationMs: number
+  /** 是否因 AbortSignal 提前结束 */
+  aborted: boolean
+}
+
+function isReadableStream(source: any): source is ReadableStream<CodeStreamChunk> {
+  return !!source && typeof source.getReader === 'function'
+}
+
+function isEventSourceLike(source: any): source is EventSourceLike {
+  return !!source
+    && typeof source.addEventListener === 'function'
+    && typeof source.close === 'function'
+    && typeof source[Symbol.asyncIterator] !== 'function'
+}
+
+async function* readableStreamToIterable(stream: ReadableStream<CodeStreamChunk>, signal?: AbortSignal) {
+  const reader = stream.getReader()
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined)
+  }
+  signal?.addEventListener('abort', onAbort)
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read()
+      if (done)
+        return
+      yield value
+    }
+  }
+  finally {
+    signal?.removeEventListener('abort', onAbort)
+    try {
+      reader.releaseLock()
+    }
+    catch { }
+  }
+}
+
+async function* eventSourceToIterable(source: EventSourceLike, doneMessage: string, signal?: AbortSignal) {
+  const queue: string[] = []
+  let finished = false
+  let failure: unknown = null
+  let wake: (() => void) | null = null
+  const notify = () => {
+    wake?.()
+    wake = null
+  }
+  const onMessage = (event: any) => {
+    const data = typeof event?.data === 'string' ? event.data : String(event?.data ?? '')
+    if (data === doneMessage)
+      finished = true
+    else
+      queue.push(data)
+    notify()
+  }
+  const onError = (event: any) => {
+    // there is nothing more to read either way; a native EventSource error
+    // event carries no `.error`, so a dropped connection is only recognizable
+    // by the source not having been closed on purpose
+    if (event?.error)
+      failure = event.error
+    else if (source.readyState !== eventSourceClosed)
+      failure = new Error('EventSource error')
+    finished = true
+    notify()
+  }
+  const onAbort = () => {
+    finished = true
+    notify()
+  }
+  source.addEventListener('message', onMessage)
+  source.addEventListener('error', onError)
+  signal?.addEventListener('abort', onAbort)
+  try {
+    while (true) {
+      while (queue.length)
+        yield queue.shift()!
+      if (failure)
+        throw failure
+      if (finished || signal?.aborted)
+        return
+      await new Promise<void>((resolve) => {
+        wake = resolve
+      })
+    }
+  }
+  finally {
+    source.removeEventListener('message', onMessage)
+    source.removeEventListener('error', onError)
+    signal?.removeEventListener('abort', onAbort)
+    source.close()
+  }
+}
+
+async function* asyncIterableWithSignal(source: AsyncIterable<CodeStreamChunk>, signal?: AbortSignal) {
+  const iterator = source[Symbol.asyncIterator]()
+  let onAbort: (() => void) | null = null
+  const aborted = new Promise<{ done: true, value: undefined }>((resolve) => {
+    onAbort = () => resolve({ done: true, value: undefined })
+    if (signal?.aborted)
+      onAbort()
+    else
+      signal?.addEventListener('abort', onAbort)
+  })
+  try {
+    while (true) {
+      // race against the signal so a stalled producer cannot block cancellation
+      const { done, value } = await Promise.race([iterator.next(), aborted])
+      if (done || signal?.aborted)
+        return
+      yield value
+    }
+  }
+  finally {
+    if (onAbort)
+      signal?.removeEventListener('abort', onAbort)
+    iterator.return?.()?.catch?.(() => undefined)
+  }
+}
+
+function toChunkIterable(source: CodeStreamSource, options: StreamCodeOptions): AsyncIterable<CodeStreamChunk> {
+  if (isReadableStream(source))
+    return readableStreamToIterable(source, options.signal)
+  if (isEventSourceLike(source))
+    return eventSourceToIterable(source, options.doneMessage ?? '[DONE]', options.signal)
+  return asyncIterableWithSignal(source, options.signal)
+}
+
+/**
+ * Read a code stream to completion, forwarding each decoded text chunk to
+ * `onText`. Byte chunks are decoded as UTF-8 with a streaming decoder so
+ * multi-byte characters split across chunk boundaries stay intact.
+ */
+export async function consumeCodeStream(
+  source: CodeStreamSource,
+  onText: (text: string) => void,
+  options: StreamCodeOptions = {},
+): Promise<StreamCodeResult> {
+  const startedAt = Date.now()
+  const decoder = new TextDecoder('utf-8')
+  let chunks = 0
+  let chars = 0
+  const emit = (text: string) => {
+    if (!text)
+      return
+    chunks++
+    chars += text.length
+    onText(text)
+  }
+
+  if (!options.signal?.aborted) {
+    for await (const chunk of toChunkIterable(source, options))
+      emit(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }))
+  }
+  // flush any incomplete trailing byte sequence
+  emit(decoder.decode())
+
+  return {
+    chunks,
+    chars,
+    durationMs: Date.now() - startedAt,
+    aborted: !!options.signal?.aborted,
+  }
+}
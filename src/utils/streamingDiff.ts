@@ -0,0 +1,45 @@
+/**
+ * How far ahead in the original we look for a line matching the streamed one.
+ * Beyond this the streamed line is treated as an insertion.
+ */
+export const defaultStreamingDiffWindow = 200
+
+/**
+ * Advance the "consumed original" cursor for one newly completed streamed line.
+ *
+ * The cursor is the number of original lines that the streamed rewrite has
+ * already moved past. When the streamed line matches an original line at or
+ * after the cursor (ignoring surrounding whitespace), everything up to and
+ * including that line counts as consumed; lines skipped over are real
+ * deletions. Blank or unmatched lines are insertions and leave the cursor alone.
+ */
+export function advanceStreamCursor(
+  originalLines: readonly string[],
+  cursor: number,
+  streamedLine: string,
+  window = defaultStreamingDiffWindow,
+): number {
+  const needle = streamedLine.trim()
+  if (!needle)
+    return cursor
+  const end = Math.min(originalLines.length, cursor + window)
+  for (let i = cursor; i < end; i++) {
+    if (originalLines[i].trim() === needle)
+      return i + 1
+  }
+  return cursor
+}
+
+/**
+ * The part of the original shown while streaming: the first `cursor` lines,
+ * each with its line break so it lines up with the streamed text. Once the
+ * cursor covers the whole original the exact original text is returned.
+ */
+export function visibleOriginal(originalLines: readonly string[], original: string, cursor: number): string {
+  if (cursor >= originalLines.length)
+    return original
+  let out = ''
+  for (let i = 0; i < cursor; i++)
+    out += `${originalLines[i]}\n`
+  return out
+}
@@ -0,0 +1,12 @@
+/**
+ * Inject a stylesheet into the document once; later calls with the same id
+ * are no-ops. Does nothing outside the browser.
+ */
+export function ensureStyle(id: string, css: string) {
+  if (typeof document === 'undefined' || document.getElementById(id))
+    return
+  const style = document.createElement('style')
+  style.id = id
+  style.textContent = css
+  document.head.append(style)
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ansiPalette, createAnsiParser, xtermColor } from '../src/utils/ansi'
+import { createFakeManager } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+describe('createAnsiParser', () => {
+  it('strips SGR sequences and reports styled spans', () => {
+    const parser = createAnsiParser()
+    const { lines, tail } = parser.write('\x1B[1;31mError:\x1B[0m file \x1B[4mmissing\x1B[24m\nnext')
+    expect(lines).toEqual([{
+      text: 'Error: file missing',
+      spans: [
+        { start: 0, end: 6, style: { bold: true, fg: 1 } },
+        { start: 12, end: 19, style: { underline: true } },
+      ],
+    }])
+    expect(tail).toEqual({ text: 'next', spans: [] })
+  })
+
+  it('overwrites the open line on carriage return and erase in line', () => {
+    const parser = createAnsiParser()
+    expect(parser.write('downloading 10%').tail.text).toBe('downloading 10%')
+    expect(parser.write('\rdownloading 55%').tail.text).toBe('downloading 55%')
+    expect(parser.write('\rdone\x1B[K').tail.text).toBe('done')
+    const { lines, tail } = parser.write('\x1B[2K\rok\n')
+    expect(lines.map(l => l.text)).toEqual(['ok'])
+    expect(tail.text).toBe('')
+  })
+
+  it('completes escape sequences split across chunks', () => {
+    const parser = createAnsiParser()
+    expect(parser.write('a\x1B').tail.text).toBe('a')
+    expect(parser.write('[3').tail.text).toBe('a')
+    expect(parser.write('2mb').tail).toEqual({ text: 'ab', spans: [{ start: 1, end: 2, style: { fg: 2 } }] })
+  })
+
+  it('maps 256-color and truecolor codes', () => {
+    const parser = createAnsiParser()
+    const { tail } = parser.write('\x1B[38;5;9ma\x1B[38;5;196mb\x1B[48;2;1;2;255mc')
+    expect(tail.spans.map(s => s.style)).toEqual([
+      { fg: 9 },
+      { fg: '#ff0000' },
+      { fg: '#ff0000', bg: '#0102ff' },
+    ])
+    expect(xtermColor(232)).toBe('#080808')
+  })
+
+  it('drops OSC sequences such as hyperlinks and window titles', () => {
+    const parser = createAnsiParser()
+    parser.write('\x1B]0;title\x07\x1B]8;;https://example.com\x1B')
+    expect(parser.write('\\link\x1B]8;;\x1B\\').tail.text).toBe('link')
+  })
+
+  it('reads the terminal colors of a theme', () => {
+    const palette = ansiPalette({ 'terminal.ansiRed': '#f00', 'terminal.ansiBrightWhite': '#fff' })
+    expect(palette).toHaveLength(16)
+    expect(palette[1]).toBe('#f00')
+    expect(palette[15]).toBe('#fff')
+    expect(palette[0]).toBeUndefined()
+  })
+})
+
+describe('editorManager ANSI mode', () => {
+  const styles = new Map<string, { id: string, textContent: string }>()
+
+  stubAnimationFrames()
+  beforeEach(() => {
+    styles.clear()
+    vi.stubGlobal('document', {
+      createElement: () => ({ style: {}, textContent: '', append() {}, addEventListener() {} }),
+      getElementById: (id: string) => styles.get(id) ?? null,
+      head: { append: (el: { id: string, textContent: string }) => styles.set(el.id, el) },
+    })
+  })
+
+  function decorationsOf(model: { decorations: Map<string, { range: any, options: any }> }) {
+    return [...model.decorations.values()].map(({ range, options }) =>
+      `${range.startLineNumber}:${range.startColumn}-${range.endColumn} ${options.inlineClassName}`)
+  }
+
+  it('writes plain text and decorates the styled runs', async () => {
+    const { mgr, model, clock } = await createFakeManager()
+    mgr.setAnsiMode(true)
+    mgr.appendAnsi('\x1B[32mPASS\x1B[0m a.test.ts\n\x1B[1;38;2;255;136;0m')
+    mgr.appendAnsi('warn\x1B[0m\n')
+    clock.flush()
+    expect(model.getValue()).toBe('PASS a.test.ts\nwarn\n')
+    expect(decorationsOf(model)).toEqual([
+      '1:1-5 monaco-ansi-fg-2',
+      '2:1-5 monaco-ansi-fg-ff8800 monaco-ansi-bold',
+    ])
+    expect(styles.get('vue-use-monaco-ansi-colors')!.textContent).toContain('.monaco-ansi-fg-ff8800 { color: #ff8800; }')
+  })
+
+  it('rewrites a progress line in place', async () => {
+    const { mgr, model } = await createFakeManager()
+    mgr.setAnsiMode(true)
+    mgr.appendAnsi('install\n\x1B[33m[#   ]\x1B[0m')
+    mgr.appendAnsi('\r\x1B[33m[### ]\x1B[0m')
+    mgr.appendAnsi('\r\x1B[2K\x1B[32mdone\x1B[0m\n')
+    expect(model.getValue()).toBe('install\ndone\n')
+    expect(decorationsOf(model)).toEqual(['2:1-5 monaco-ansi-fg-2'])
+  })
+
+  it('appends the new suffix on updateCode and restarts when the output was replaced', async () => {
+    const { mgr, model } = await createFakeManager()
+    mgr.setAnsiMode(true)
+    mgr.updateAnsi('\x1B[31ma\x1B[0m\n')
+    mgr.updateAnsi('\x1B[31ma\x1B[0m\nb')
+    expect(model.getValue()).toBe('a\nb')
+    mgr.updateAnsi('\x1B[34mc\x1B[0m')
+    expect(model.getValue()).toBe('c')
+    expect(decorationsOf(model)).toEqual(['1:1-2 monaco-ansi-fg-4'])
+  })
+
+  it('drops the decorations of lines trimmed in tail mode', async () => {
+    const { mgr, model, clock } = await createFakeManager('', { maxLines: 50 })
+    mgr.setAnsiMode(true)
+    for (let i = 0; i < 120; i++)
+      mgr.appendAnsi(`\x1B[32mline ${i}\x1B[0m\n`)
+    clock.flush()
+    expect(model.getLineCount()).toBe(50)
+    expect(model.getLineContent(1)).toBe('line 71')
+    expect(model.decorations.size).toBe(49)
+  })
+
+  it('applies the theme palette to the editor and clears it when switched off', async () => {
+    const { mgr, model, editor } = await createFakeManager()
+    mgr.setAnsiMode(true)
+    mgr.appendAnsi('\x1B[31mred\x1B[0m')
+    mgr.setAnsiPalette(ansiPalette({ 'terminal.ansiRed': '#e06c75' }))
+    expect(editor.containerStyle.get('--vue-use-monaco-ansi-1')).toBe('#e06c75')
+    expect(editor.containerStyle.has('--vue-use-monaco-ansi-0')).toBe(false)
+
+    mgr.setAnsiMode(false)
+    expect(mgr.isAnsiMode()).toBe(false)
+    expect(model.decorations.size).toBe(0)
+    expect(model.getValue()).toBe('red')
+  })
+})
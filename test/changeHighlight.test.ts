@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest'
+import { highlightChangesDuration } from '../src/core/ChangeHighlighter'
+import { createFakeManager } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+function describeDecorations(collection: { decorations: Array<{ range: any, options: any }> }) {
+  return collection.decorations.map(({ range, options }) =>
+    `${range.startLineNumber}:${range.startColumn}-${range.endLineNumber}:${range.endColumn} ${options.className}`)
+}
+
+describe('highlightChanges', () => {
+  stubAnimationFrames()
+
+  it('resolves the fade duration', () => {
+    expect(highlightChangesDuration(undefined)).toBe(0)
+    expect(highlightChangesDuration(false)).toBe(0)
+    expect(highlightChangesDuration(true)).toBe(1000)
+    expect(highlightChangesDuration({})).toBe(1000)
+    expect(highlightChangesDuration({ duration: 300 })).toBe(300)
+  })
+
+  it('decorates the appends of a frame once and fades them out in steps', async () => {
+    const { mgr, editor, clock } = await createFakeManager('a\n', { highlightChanges: { duration: 160 } })
+    const [collection] = editor.decorationCollections
+    mgr.appendCode('b\n')
+    mgr.appendCode('c')
+    mgr.appendCode('c\n')
+    expect(collection.sets).toBe(0)
+
+    clock.tick()
+    expect(collection.sets).toBe(1)
+    expect(describeDecorations(collection)).toEqual(['2:1-4:1 monaco-change-highlight-0'])
+
+    // 16ms frames, a step every 40ms
+    clock.tick(3)
+    expect(describeDecorations(collection)).toEqual(['2:1-4:1 monaco-change-highlight-1'])
+    mgr.appendCode('d\n')
+    clock.tick()
+    expect(describeDecorations(collection)).toEqual([
+      '2:1-4:1 monaco-change-highlight-1',
+      '4:1-5:1 monaco-change-highlight-0',
+    ])
+    const sets = collection.sets
+
+    clock.flush()
+    expect(collection.decorations).toEqual([])
+    // one update per step change, never one per frame
+    expect(collection.sets - sets).toBeLessThanOrEqual(8)
+    expect(clock.pending).toBe(0)
+  })
+
+  it('highlights only the text a mid-document update inserted', async () => {
+    const { mgr, editor, clock } = await createFakeManager('const a = 1\nconst b = 2\nconst c = 3\n', { highlightChanges: true })
+    mgr.updateCode('const a = 10\nconst b = 2\nconst c = 30\n', 'plaintext')
+    clock.tick(2)
+    expect(describeDecorations(editor.decorationCollections[0])).toEqual([
+      '1:12-1:13 monaco-change-highlight-0',
+      '3:12-3:13 monaco-change-highlight-0',
+    ])
+  })
+
+  it('is off by default', async () => {
+    const { mgr, editor, clock } = await createFakeManager('a\n')
+    mgr.appendCode('b\n')
+    clock.flush()
+    expect(editor.decorationCollections).toEqual([])
+  })
+})
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { h, nextTick, reactive } from 'vue'
+import { MonacoDiffEditor, MonacoEditor } from '../src/components'
+import { mount } from './fixtures/testRenderer'
+
+// Replace useMonaco with fakes that record what the components asked for;
+// useMonacoModel runs for real on top of them.
+const fake = vi.hoisted(() => ({
+  instances: [] as any[],
+  // when set, editor creation waits for it
+  gate: null as Promise<void> | null,
+}))
+
+vi.mock('../src/useMonaco', async () => {
+  const { vi } = await import('vitest')
+
+  function fakeCodeEditor(initial: string) {
+    let value = initial
+    const listeners: Array<() => void> = []
+    return {
+      getValue: () => value,
+      /** Replace the text like typing (or updateCode) would: content listeners fire. */
+      setValue(next: string) {
+        value = next
+        listeners.forEach(fn => fn())
+      },
+      onDidChangeModelContent(fn: () => void) {
+        listeners.push(fn)
+        return { dispose: () => listeners.splice(listeners.indexOf(fn), 1) }
+      },
+      onDidScrollChange: () => ({ dispose() {} }),
+      getScrollTop: () => 0,
+      updateOptions: vi.fn(),
+    }
+  }
+
+  return {
+    useMonaco: (options: any) => {
+      let view: ReturnType<typeof fakeCodeEditor> | null = null
+      let diff: { original: ReturnType<typeof fakeCodeEditor>, modified: ReturnType<typeof fakeCodeEditor>, view: any } | null = null
+      const instance = {
+        options,
+        createEditor: vi.fn(async (_el: unknown, code: string) => {
+          await fake.gate
+          view = fakeCodeEditor(code)
+          return view
+        }),
+        createDiffEditor: vi.fn(async (_el: unknown, original: string, modified: string) => {
+          await fake.gate
+          const sides = { original: fakeCodeEditor(original), modified: fakeCodeEditor(modified) }
+          diff = { ...sides, view: { getModifiedEditor: () => sides.modified, updateOptions: vi.fn() } }
+          return diff.view
+        }),
+        cleanupEditor: vi.fn(() => {
+          view = null
+          diff = null
+        }),
+        getEditorView: () => view,
+        getDiffEditorView: () => diff?.view ?? null,
+        getDiffModels: () => ({ original: diff?.original ?? null, modified: diff?.modified ?? null }),
+        updateCode: vi.fn((code: string) => view?.setValue(code)),
+        updateDiff: vi.fn(),
+        updateOriginal: vi.fn((code: string) => diff?.original.setValue(code)),
+        updateModified: vi.fn((code: string) => diff?.modified.setValue(code)),
+        setTheme: vi.fn(async () => {}),
+      }
+      fake.instances.push(instance)
+      return instance
+    },
+  }
+})
+
+// the components load the editor module with a dynamic import on mount
+async function settle() {
+  await vi.dynamicImportSettled()
+  for (let i = 0; i < 5; i++)
+    await Promise.resolve()
+  await nextTick()
+}
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>(r => (resolve = r))
+  return { promise, resolve }
+}
+
+beforeEach(() => {
+  fake.instances.length = 0
+  fake.gate = null
+  // render as on the client: no static server markup
+  vi.stubGlobal('window', {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('monacoEditor', () => {
+  function mountEditor() {
+    const state = reactive({
+      modelValue: 'const a = 1',
+      language: 'typescript',
+      theme: undefined as string | undefined,
+      options: { readOnly: false } as Record<string, any>,
+    })
+    const events = { ready: vi.fn(), change: vi.fn() }
+    const { root, unmount } = mount(() => h(MonacoEditor, {
+      ...state,
+      'onUpdate:modelValue': (value: string) => (state.modelValue = value),
+      'onReady': events.ready,
+      'onChange': events.change,
+    }))
+    return { state, events, root, unmount, api: () => fake.instances[0] }
+  }
+
+  it('creates the editor in its container on mount', async () => {
+    const { events, root, api } = mountEditor()
+    await settle()
+    const container = root.children[0]
+    expect(container.props.class).toBe('monaco-editor-container')
+    expect(api().createEditor).toHaveBeenCalledWith(container, 'const a = 1', 'typescript')
+    expect(events.ready).toHaveBeenCalledWith(api().getEditorView())
+  })
+
+  it('binds v-model both ways', async () => {
+    vi.useFakeTimers()
+    const { state, events, api } = mountEditor()
+    await settle()
+
+    state.modelValue = 'const a = 2'
+    await nextTick()
+    expect(api().updateCode).toHaveBeenLastCalledWith('const a = 2', 'typescript')
+
+    api().getEditorView().setValue('const a = 3')
+    expect(events.change).toHaveBeenLastCalledWith('const a = 3')
+    vi.advanceTimersByTime(50)
+    expect(state.modelValue).toBe('const a = 3')
+    await nextTick()
+    // the value written back is not pushed into the editor again
+    expect(api().updateCode).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows language, theme and options props', async () => {
+    const { state, api } = mountEditor()
+    await settle()
+
+    state.language = 'python'
+    await nextTick()
+    expect(api().updateCode).toHaveBeenLastCalledWith('const a = 1', 'python')
+
+    state.theme = 'vitesse-light'
+    await nextTick()
+    expect(api().setTheme).toHaveBeenCalledWith('vitesse-light')
+
+    state.options.readOnly = true
+    await nextTick()
+    expect(api().getEditorView().updateOptions).toHaveBeenLastCalledWith({ readOnly: true })
+  })
+
+  it('disposes the editor on unmount', async () => {
+    const { unmount, api } = mountEditor()
+    await settle()
+    unmount()
+    expect(api().cleanupEditor).toHaveBeenCalledTimes(1)
+  })
+
+  it('hands the last edit to v-model when unmounted within the debounce', async () => {
+    vi.useFakeTimers()
+    const { state, unmount, api } = mountEditor()
+    await settle()
+    api().getEditorView().setValue('const a = 2')
+    unmount()
+    expect(state.modelValue).toBe('const a = 2')
+  })
+
+  it('disposes an editor that finished creating after unmount', async () => {
+    const gate = deferred()
+    fake.gate = gate.promise
+    const { events, unmount, api } = mountEditor()
+    await settle()
+    unmount()
+    gate.resolve()
+    await settle()
+    expect(api().cleanupEditor).toHaveBeenCalledTimes(2)
+    expect(api().getEditorView()).toBeNull()
+    expect(events.ready).not.toHaveBeenCalled()
+  })
+})
+
+describe('monacoDiffEditor', () => {
+  function mountDiffEditor() {
+    const state = reactive({
+      original: 'a\nb',
+      modelValue: 'a\nB',
+      language: 'plaintext',
+      options: {} as Record<string, any>,
+    })
+    const events = { ready: vi.fn(), change: vi.fn() }
+    const { root, unmount } = mount(() => h(MonacoDiffEditor, {
+      ...state,
+      'onUpdate:modelValue': (value: string) => (state.modelValue = value),
+      'onReady': events.ready,
+      'onChange': events.change,
+    }))
+    return { state, events, root, unmount, api: () => fake.instances[0] }
+  }
+
+  it('creates the diff editor on mount and binds v-model to the modified side', async () => {
+    const { state, events, root, api } = mountDiffEditor()
+    await settle()
+    const container = root.children[0]
+    expect(container.props.class).toBe('monaco-diff-editor-container')
+    expect(api().createDiffEditor).toHaveBeenCalledWith(container, 'a\nb', 'a\nB', 'plaintext')
+    expect(events.ready).toHaveBeenCalledWith(api().getDiffEditorView())
+
+    api().getDiffModels().modified.setValue('a\nBB')
+    expect(state.modelValue).toBe('a\nBB')
+    expect(events.change).toHaveBeenLastCalledWith('a\nBB')
+    await nextTick()
+    // the echo from v-model matches the editor and is not written back
+    expect(api().updateModified).not.toHaveBeenCalled()
+  })
+
+  it('follows original, modelValue, language and options props', async () => {
+    const { state, api } = mountDiffEditor()
+    await settle()
+
+    state.original = 'a\nc'
+    await nextTick()
+    expect(api().updateOriginal).toHaveBeenCalledWith('a\nc', 'plaintext')
+
+    state.modelValue = 'a\nC'
+    await nextTick()
+    expect(api().updateModified).toHaveBeenCalledWith('a\nC', 'plaintext')
+
+    state.language = 'markdown'
+    await nextTick()
+    expect(api().updateDiff).toHaveBeenLastCalledWith('a\nc', 'a\nC', 'markdown')
+
+    state.options.renderSideBySide = false
+    await nextTick()
+    expect(api().getDiffEditorView().updateOptions).toHaveBeenLastCalledWith({ renderSideBySide: false })
+  })
+
+  it('disposes the diff editor on unmount', async () => {
+    const { unmount, api } = mountDiffEditor()
+    await settle()
+    unmount()
+    expect(api().cleanupEditor).toHaveBeenCalledTimes(1)
+  })
+})
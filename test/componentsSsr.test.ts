@@ -0,0 +1,94 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createSSRApp, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import { MonacoEditor } from '../src/components'
+
+// The editor module is replaced by a fake that records when it is first
+// loaded: rendering on the server must not load it at all.
+const fake = vi.hoisted(() => ({
+  loaded: false,
+  containers: [] as unknown[],
+}))
+
+vi.mock('../src/useMonaco', async () => {
+  const { vi } = await import('vitest')
+  fake.loaded = true
+  return {
+    useMonaco: () => {
+      let view: any = null
+      return {
+        createEditor: vi.fn(async (el: unknown, code: string) => {
+          fake.containers.push(el)
+          view = {
+            getValue: () => code,
+            onDidChangeModelContent: () => ({ dispose() {} }),
+            onDidScrollChange: () => ({ dispose() {} }),
+            getScrollTop: () => 0,
+            updateOptions() {},
+          }
+          return view
+        }),
+        cleanupEditor: vi.fn(() => {
+          view = null
+        }),
+        getEditorView: () => view,
+        updateCode: vi.fn(),
+        setTheme: vi.fn(async () => {}),
+      }
+    },
+  }
+})
+
+const props = {
+  modelValue: 'const a = 1\nconst b = 2',
+  language: 'typescript',
+  theme: 'vitesse-dark',
+  options: { lineHeight: 20, themes: ['vitesse-dark', 'vitesse-light'] },
+}
+
+async function renderOnServer() {
+  // the components tell the server from the client by the missing window
+  vi.stubGlobal('window', undefined)
+  try {
+    return await renderToString(createSSRApp(() => h(MonacoEditor, props)))
+  }
+  finally {
+    vi.unstubAllGlobals()
+  }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('monacoEditor server rendering', () => {
+  it('renders the static code without loading the editor module', async () => {
+    const html = await renderOnServer()
+    expect(fake.loaded).toBe(false)
+    expect(html).toContain('class="monaco-editor-container"')
+    expect(html).toContain('height:56px')
+    expect(html).toContain('class="monaco-ssr-overlay"')
+    expect(html).toContain('class="shiki vitesse-dark"')
+  })
+
+  it('hydrates the server markup and creates the editor under it', async () => {
+    const html = await renderOnServer()
+    const root = document.createElement('div')
+    root.innerHTML = html
+    const container = root.firstElementChild!
+    const overlay = container.querySelector('.monaco-ssr-overlay')
+    const warn = vi.spyOn(console, 'warn')
+    const error = vi.spyOn(console, 'error')
+
+    createSSRApp(() => h(MonacoEditor, props)).mount(root)
+    // the existing nodes are adopted, not replaced
+    expect(root.firstElementChild).toBe(container)
+    expect(container.querySelector('.monaco-ssr-overlay')).toBe(overlay)
+    expect([...warn.mock.calls, ...error.mock.calls].join('\n')).not.toMatch(/mismatch/i)
+
+    await vi.dynamicImportSettled()
+    await vi.waitFor(() => expect(fake.containers).toEqual([container]))
+    await vi.waitFor(() => expect(container.querySelector('.monaco-ssr-overlay')).toBeNull())
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { processedLanguage } from '../src/code.detect'
+import { fenceLabel, isFenceInfo, parseFenceInfo, parseLineRanges } from '../src/utils/fenceInfo'
+
+describe('parseFenceInfo', () => {
+  it('extracts language aliases, title and highlighted lines', () => {
+    expect(parseFenceInfo('ts title="a.ts" {1,3-5}')).toEqual({
+      language: 'typescript',
+      title: 'a.ts',
+      highlightLines: [[1, 1], [3, 5]],
+      attributes: {},
+    })
+    expect(parseFenceInfo('py').language).toBe('python')
+    expect(parseFenceInfo('YML').language).toBe('yaml')
+    expect(parseFenceInfo('').language).toBe('plaintext')
+  })
+
+  it('supports lang:title, bare flags and other attribute styles', () => {
+    expect(parseFenceInfo('js:src/main.js showLineNumbers')).toEqual({
+      language: 'javascript',
+      title: 'src/main.js',
+      highlightLines: [],
+      attributes: { showLineNumbers: '' },
+    })
+    const info = parseFenceInfo('python{2} filename=\'app.py\' hl_lines="4 5" linenums=1')
+    expect(info.title).toBe('app.py')
+    expect(info.highlightLines).toEqual([[2, 2], [4, 5]])
+    expect(info.attributes).toEqual({ linenums: '1' })
+  })
+
+  it('marks diff-<lang> fences', () => {
+    const info = parseFenceInfo('diff-ts title="patch"')
+    expect(info.language).toBe('diff')
+    expect(info.diffLanguage).toBe('typescript')
+    expect(fenceLabel(info)).toBe('patch · typescript diff')
+  })
+
+  it('tolerates unterminated quotes and braces', () => {
+    expect(parseFenceInfo('ts title="a.ts').title).toBe('a.ts')
+    expect(parseFenceInfo('ts {1,2').highlightLines).toEqual([[1, 2]])
+    expect(parseFenceInfo('ts = x').attributes).toEqual({ x: '' })
+  })
+})
+
+describe('parseLineRanges', () => {
+  it('sorts, merges and skips malformed parts', () => {
+    expect(parseLineRanges('7, 1-3,2 , 4, x, 0, 9-8')).toEqual([[1, 4], [7, 9]])
+  })
+})
+
+describe('fence info as language', () => {
+  it('is recognized and resolved by processedLanguage', () => {
+    expect(isFenceInfo('ts')).toBe(false)
+    expect(isFenceInfo('ts {1}')).toBe(true)
+    expect(isFenceInfo('diff-js')).toBe(true)
+    expect(processedLanguage('ts title="a.ts" {1,3-5}')).toBe('typescript')
+    expect(processedLanguage('sh title="install"')).toBe('shell')
+    expect(processedLanguage('diff-ts')).toBe('diff')
+  })
+})
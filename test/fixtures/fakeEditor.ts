@@ -0,0 +1,217 @@
+import type { MonacoOptions } from '../../src/type'
+import { EditorManager } from '../../src/core/EditorManager'
+import { createFakeTimeSource } from '../../src/utils/raf'
+
+// Test doubles for a Monaco text model and code editor, just enough for
+// EditorManager. Tests using them mock '../src/monaco-shim' with ./monacoShim.
+
+export const fakeLineHeight = 18
+export const fakeViewportHeight = 10 * fakeLineHeight
+
+// A text model that, like Monaco's piece tree, builds the string on every
+// getValue() call, so reading it back costs O(document size).
+export function createFakeModel(initial = '', languageId = 'plaintext') {
+  let chunks = [initial]
+  let lineCount = initial.split('\n').length
+  let lastLineLength = initial.length - initial.lastIndexOf('\n') - 1
+  let version = 1
+  let nextDecoration = 1
+  const listeners: Array<() => void> = []
+  // decorations keep the range they were created with; edits do not move them
+  const decorations = new Map<string, { range: any, options: any }>()
+  const stats = { getValue: 0 }
+
+  function text() {
+    return chunks.join('')
+  }
+  function offsetAt(lineNumber: number, column: number) {
+    const lines = text().split('\n')
+    let offset = 0
+    for (let i = 0; i < lineNumber - 1; i++)
+      offset += lines[i].length + 1
+    return offset + column - 1
+  }
+
+  return {
+    stats,
+    listeners,
+    decorations,
+    getValue() {
+      stats.getValue++
+      return text()
+    },
+    getVersionId: () => version,
+    getLineCount: () => lineCount,
+    getLineContent: (lineNumber: number) => text().split('\n')[lineNumber - 1],
+    getLinesContent: () => text().split('\n'),
+    getEOL: () => '\n',
+    getLineMaxColumn: (lineNumber: number) => lineNumber === lineCount ? lastLineLength + 1 : text().split('\n')[lineNumber - 1].length + 1,
+    getLanguageId: () => languageId,
+    /** What the shim's `editor.setModelLanguage` calls. */
+    setLanguageId(id: string) {
+      languageId = id
+    },
+    getPositionAt(offset: number) {
+      const before = text().slice(0, offset).split('\n')
+      return { lineNumber: before.length, column: before[before.length - 1].length + 1 }
+    },
+    setValue(value: string) {
+      chunks = [value]
+      lineCount = value.split('\n').length
+      lastLineLength = value.length - value.lastIndexOf('\n') - 1
+      version++
+      listeners.forEach(fn => fn())
+    },
+    deltaDecorations(oldIds: string[], next: Array<{ range: any, options: any }>) {
+      oldIds.forEach(id => decorations.delete(id))
+      return next.map((decoration) => {
+        const id = String(nextDecoration++)
+        decorations.set(id, decoration)
+        return id
+      })
+    },
+    applyEdits(edits: Array<{ range: any, text: string }>) {
+      for (const { range, text: value } of edits) {
+        const atEnd = range.startLineNumber === lineCount && range.startColumn === lastLineLength + 1
+          && range.endLineNumber === lineCount && range.endColumn === lastLineLength + 1
+        if (atEnd) {
+          chunks.push(value)
+        }
+        else {
+          const full = text()
+          const start = offsetAt(range.startLineNumber, range.startColumn)
+          const end = offsetAt(range.endLineNumber, range.endColumn)
+          chunks = [full.slice(0, start) + value + full.slice(end)]
+        }
+        const full = atEnd ? null : chunks[0]
+        const newLines = value.split('\n').length - 1
+        if (full != null) {
+          lineCount = full.split('\n').length
+          lastLineLength = full.length - full.lastIndexOf('\n') - 1
+        }
+        else if (newLines > 0) {
+          lineCount += newLines
+          lastLineLength = value.length - value.lastIndexOf('\n') - 1
+        }
+        else {
+          lastLineLength += value.length
+        }
+        version++
+      }
+      listeners.forEach(fn => fn())
+    },
+    onDidChangeContent(fn: () => void) {
+      listeners.push(fn)
+      return { dispose: () => listeners.splice(listeners.indexOf(fn), 1) }
+    },
+    dispose() {},
+  }
+}
+
+export type FakeModel = ReturnType<typeof createFakeModel>
+
+// Lines are fakeLineHeight tall, view zones are all placed above line 1.
+export function createFakeEditor(model: FakeModel) {
+  let scrollTop = 0
+  let position = { lineNumber: 1, column: 1 }
+  let options: Record<string, any> = {}
+  let nextZone = 1
+  const zones = new Map<string, { domNode: any }>()
+  const scrollListeners: Array<(e: { scrollTop: number }) => void> = []
+  const containerStyle = new Map<string, string>()
+  const decorationCollections: Array<{ decorations: Array<{ range: any, options: any }>, sets: number }> = []
+
+  const editor = {
+    zones,
+    containerStyle,
+    decorationCollections,
+    get options() {
+      return options
+    },
+    getModel: () => model,
+    getContainerDomNode: () => ({
+      style: {
+        setProperty: (name: string, value: string) => containerStyle.set(name, value),
+        removeProperty: (name: string) => containerStyle.delete(name),
+      },
+    }),
+    getValue: () => model.getValue(),
+    getOption: (option: string) => option === 'readOnly' ? true : fakeLineHeight,
+    updateOptions(next: Record<string, any>) {
+      options = { ...options, ...next }
+    },
+    // like the model decorations above, ranges stay where they were set
+    createDecorationsCollection(initial: Array<{ range: any, options: any }> = []) {
+      const collection = {
+        decorations: initial,
+        sets: 0,
+        set(next: Array<{ range: any, options: any }>) {
+          collection.decorations = next
+          collection.sets++
+        },
+        getRanges: () => collection.decorations.map(d => d.range),
+        clear() {
+          collection.decorations = []
+        },
+      }
+      decorationCollections.push(collection)
+      return collection
+    },
+    executeEdits: (_source: string, edits: any[]) => model.applyEdits(edits),
+    pushUndoStop: () => true,
+    getPosition: () => position,
+    setPosition(next: { lineNumber: number, column: number }) {
+      position = next
+    },
+    onDidChangeModelContent: (fn: () => void) => {
+      model.listeners.push(fn)
+      return { dispose: () => {} }
+    },
+    onDidContentSizeChange: () => ({ dispose: () => {} }),
+    onDidScrollChange: (fn: (e: { scrollTop: number }) => void) => {
+      scrollListeners.push(fn)
+      return { dispose: () => {} }
+    },
+    getTopForLineNumber: (lineNumber: number) => zones.size * fakeLineHeight + (lineNumber - 1) * fakeLineHeight,
+    getScrollHeight: () => zones.size * fakeLineHeight + model.getLineCount() * fakeLineHeight,
+    getScrollTop: () => scrollTop,
+    /** Scroll like the user would: scroll listeners are notified. */
+    setScrollTop(top: number) {
+      const max = Math.max(0, editor.getScrollHeight() - fakeViewportHeight)
+      const next = Math.min(Math.max(0, top), max)
+      if (next === scrollTop)
+        return
+      scrollTop = next
+      scrollListeners.forEach(fn => fn({ scrollTop }))
+    },
+    getVisibleRanges: () => [{ startLineNumber: Math.max(1, Math.floor((scrollTop - zones.size * fakeLineHeight) / fakeLineHeight) + 1) }],
+    getLayoutInfo: () => ({ height: fakeViewportHeight }),
+    changeViewZones(fn: (accessor: any) => void) {
+      fn({
+        addZone: (zone: { domNode: any }) => {
+          const id = String(nextZone++)
+          zones.set(id, zone)
+          return id
+        },
+        removeZone: (id: string) => zones.delete(id),
+      })
+    },
+    revealLine: (lineNumber: number) => editor.setScrollTop(editor.getTopForLineNumber(lineNumber) + fakeLineHeight - fakeViewportHeight),
+    revealLineInCenterIfOutsideViewport: (lineNumber: number) => editor.revealLine(lineNumber),
+    revealLinesInCenter: (startLineNumber: number) => editor.revealLine(startLineNumber),
+    dispose: () => {},
+  }
+  return editor
+}
+
+export async function createFakeManager(initial = '', options: MonacoOptions = {}) {
+  const monaco = await import('../../src/monaco-shim')
+  const model = createFakeModel(initial)
+  const editor = createFakeEditor(model)
+  ;(monaco.editor.create as any).mockReturnValue(editor)
+  const clock = createFakeTimeSource()
+  const mgr = new EditorManager({ timeSource: clock, ...options }, 500, '500px', true, true, 32, 2)
+  await mgr.createEditor({ style: {} } as any, initial, 'plaintext', 'vitesse-dark')
+  model.stats.getValue = 0
+  return { mgr, model, editor, clock }
+}
@@ -0,0 +1,50 @@
+import type { CodeLanguage } from '../../src/code.detect'
+
+/** Small, realistic snippets per language for the detection tests. */
+export const languageCorpus: [CodeLanguage, string][] = [
+  ['bash', '#!/usr/bin/env bash\nset -e\nif [ -z "$1" ]; then\n  echo "usage: $0 <dir>"\n  exit 1\nfi\nmkdir -p "$1"\n'],
+  ['bash', 'export NODE_ENV=production\npnpm install\ncd packages/app\npnpm build\n'],
+  ['html', '<!DOCTYPE html>\n<html>\n  <head>\n    <meta charset="utf-8">\n  </head>\n  <body>\n    <div class="app"></div>\n  </body>\n</html>\n'],
+  ['vue', '<template>\n  <button @click="count++">{{ count }}</button>\n  <p v-if="count > 3">many</p>\n</template>\n\n<script setup lang="ts">\nimport { ref } from \'vue\'\nconst count = ref(0)\n</script>\n'],
+  ['svelte', '<script>\n  let count = 0\n  $: doubled = count * 2\n</script>\n\n<button on:click={() => count++}>{count}</button>\n{#if doubled > 4}\n  <p>big</p>\n{/if}\n'],
+  ['http', 'GET /api/users HTTP/1.1\nHost: example.com\nAccept: application/json\n'],
+  ['js', 'const fs = require(\'fs\')\n\nfunction read(path) {\n  return fs.readFileSync(path, \'utf8\')\n}\n\nmodule.exports = { read }\n'],
+  ['js', 'export async function load(url) {\n  const res = await fetch(url)\n  const items = await res.json()\n  console.log(items.map(i => i.id).join(\',\'))\n}\n'],
+  ['ts', 'interface User {\n  id: number\n  name: string\n}\n\nexport function greet(user: User): string {\n  return \'hi \' + user.name\n}\n'],
+  ['ts', 'type Handler<T> = (value: T) => void\n\nexport class Bus {\n  private readonly handlers = new Map<string, Handler<unknown>[]>()\n  emit(name: string, value: unknown): void {\n    for (const h of this.handlers.get(name) ?? []) h(value)\n  }\n}\n'],
+  ['jsx', 'import React from \'react\'\n\nexport function List({ items }) {\n  return (\n    <ul className="list">\n      {items.map(item => <Item key={item.id} item={item} />)}\n    </ul>\n  )\n}\n'],
+  ['tsx', 'interface Props {\n  title: string\n}\n\nexport function Card({ title }: Props) {\n  return (\n    <Box className="card">\n      <Title>{title}</Title>\n    </Box>\n  )\n}\n'],
+  ['py', 'import os\n\ndef walk(root: str) -> list:\n    result = []\n    for name in os.listdir(root):\n        result.append(name)\n    return result\n\nif __name__ == "__main__":\n    print(walk("."))\n'],
+  ['py', 'class Stack:\n    def __init__(self):\n        self.items = []\n\n    def pop(self):\n        if not self.items:\n            return None\n        return self.items.pop()\n'],
+  ['rb', 'class Greeter\n  attr_reader :name\n\n  def initialize(name)\n    @name = name\n  end\n\n  def greet\n    puts "Hello #{name}"\n  end\nend\n\n[1, 2].each do |n|\n  puts n\nend\n'],
+  ['php', '<?php\n\nnamespace App\\Http;\n\nclass UserController\n{\n    public function show($id)\n    {\n        $user = $this->repo->find($id);\n        echo $user->name;\n    }\n}\n'],
+  ['sql', 'SELECT u.id, u.name, COUNT(o.id) AS orders\nFROM users u\nLEFT JOIN orders o ON o.user_id = u.id\nWHERE u.active = 1\nGROUP BY u.id, u.name;\n'],
+  ['pl', '#!/usr/bin/perl\nuse strict;\nuse warnings;\n\nmy @names = (\'a\', \'b\');\nforeach my $n (@names) {\n  print "$n\\n";\n}\n'],
+  ['lua', 'local function greet(name)\n  if name == nil then\n    return "hi"\n  end\n  return "hi " .. name\nend\n\nfor i, v in ipairs({1, 2}) do\n  print(greet(v))\nend\n'],
+  ['make', '.PHONY: all clean\n\nCC = gcc\n\nall: app\n\napp: main.o\n\t$(CC) -o $@ $^\n\nclean:\n\trm -f *.o app\n'],
+  ['cmake', 'cmake_minimum_required(VERSION 3.16)\nproject(app CXX)\n\nfind_package(Threads REQUIRED)\nadd_executable(app main.cpp)\ntarget_link_libraries(app Threads::Threads)\n'],
+  ['css', '.app {\n  display: flex;\n  margin: 0 auto;\n  padding: 8px;\n}\n\n@media (max-width: 600px) {\n  .app {\n    display: block;\n  }\n}\n'],
+  ['diff', 'diff --git a/a.txt b/a.txt\n--- a/a.txt\n+++ b/a.txt\n@@ -1,2 +1,2 @@\n-old line\n+new line\n context\n'],
+  ['md', '# Title\n\nSome **bold** text and a [link](https://example.com).\n\n- one\n- two\n\n```js\nconsole.log(1)\n```\n'],
+  ['docker', 'FROM node:20-alpine\nWORKDIR /app\nCOPY package.json .\nRUN npm install\nCOPY . .\nEXPOSE 3000\nCMD ["node", "server.js"]\n'],
+  ['nginx', 'server {\n    listen 80;\n    server_name example.com;\n\n    location /api/ {\n        proxy_pass http://127.0.0.1:3000;\n        proxy_set_header Host $host;\n    }\n}\n'],
+  ['xml', '<?xml version="1.0" encoding="UTF-8"?>\n<project>\n  <groupId>com.example</groupId>\n  <version>1.0</version>\n</project>\n'],
+  ['c', '#include <stdio.h>\n#include <stdlib.h>\n\nint main(void) {\n  int *p = malloc(sizeof(int));\n  printf("%d\\n", *p);\n  free(p);\n  return 0;\n}\n'],
+  ['cpp', '#include <iostream>\n#include <vector>\n\ntemplate <typename T>\nT sum(const std::vector<T>& v) {\n  T total{};\n  for (auto x : v) total += x;\n  return total;\n}\n\nint main() {\n  std::cout << sum(std::vector<int>{1, 2}) << std::endl;\n}\n'],
+  ['objc', '#import <Foundation/Foundation.h>\n\n@interface Greeter : NSObject\n@property (nonatomic, copy) NSString *name;\n@end\n\n@implementation Greeter\n- (void)greet {\n  NSLog(@"Hello %@", self.name);\n}\n@end\n'],
+  ['cs', 'using System;\nusing System.Collections.Generic;\n\nnamespace App\n{\n    public class User\n    {\n        public string Name { get; set; }\n\n        public void Greet()\n        {\n            Console.WriteLine($"Hello {Name}");\n        }\n    }\n}\n'],
+  ['rs', 'use std::collections::HashMap;\n\nfn main() {\n    let mut counts = HashMap::new();\n    for word in "a b a".split_whitespace() {\n        *counts.entry(word).or_insert(0) += 1;\n    }\n    println!("{:?}", counts);\n}\n'],
+  ['go', 'package main\n\nimport (\n\t"fmt"\n\t"strings"\n)\n\nfunc main() {\n\tparts := strings.Split("a,b", ",")\n\tfmt.Println(len(parts))\n}\n'],
+  ['java', 'import java.util.List;\n\npublic class Main {\n    public static void main(String[] args) {\n        List<String> names = List.of("a", "b");\n        System.out.println(names.size());\n    }\n}\n'],
+  ['kt', 'data class User(val id: Int, val name: String)\n\nfun main() {\n    val users = listOf(User(1, "a"))\n    val first = users.firstOrNull()?.name ?: "none"\n    println(first)\n}\n'],
+  ['scala', 'object Main extends App {\n  case class User(name: String)\n\n  def greet(user: User): String = s"Hello $user"\n\n  println(greet(User("a")))\n}\n'],
+  ['swift', 'import SwiftUI\n\nstruct ContentView: View {\n    var title: String = "Hi"\n\n    var body: some View {\n        Text(title)\n    }\n}\n\nfunc load(name: String?) {\n    guard let name = name else { return }\n    print(name)\n}\n'],
+  ['dart', 'import \'package:flutter/material.dart\';\n\nclass Counter extends StatelessWidget {\n  final int value = 0;\n\n  @override\n  Widget build(BuildContext context) {\n    return Text(\'$value\');\n  }\n}\n'],
+  ['erl', '-module(hello).\n-export([greet/1]).\n\ngreet(Name) ->\n    io:format("Hello ~s~n", [Name]).\n'],
+  ['ps1', 'param([string]$Path = ".")\n\nGet-ChildItem -Path $Path | Where-Object { $_.Length -gt 1000 } | ForEach-Object {\n    Write-Host $_.Name\n}\n'],
+  ['asm', 'section .text\nglobal main\nextern printf\n\nmain:\n\tmov rdi, msg\n\tcall printf\n\tret\n'],
+  ['json', '{\n  "name": "app",\n  "version": "1.0.0",\n  "private": true,\n  "scripts": {\n    "build": "vite build"\n  }\n}\n'],
+  ['yaml', 'name: ci\non:\n  push:\n    branches: [main]\njobs:\n  build:\n    steps:\n      - run: pnpm test\n'],
+  ['toml', '[package]\nname = "app"\nversion = "0.1.0"\n\n[dependencies]\nserde = "1"\n'],
+  ['mermaid', 'flowchart TD\n  A[Start] --> B{Ok?}\n  B -->|yes| C[Done]\n  B -->|no| A\n'],
+]
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, vi } from 'vitest'
+
+// Stand-in for '../src/monaco-shim', loaded with
+//   vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+// `editor.create` and `editor.createModel` are spies; createFakeManager makes
+// `create` return a fake editor.
+
+export class Range {
+  constructor(
+    public startLineNumber: number,
+    public startColumn: number,
+    public endLineNumber: number,
+    public endColumn: number,
+  ) {}
+}
+
+export const editor = {
+  create: vi.fn(),
+  createModel: vi.fn(),
+  setTheme: vi.fn(),
+  setModelLanguage: vi.fn((model: { setLanguageId?: (id: string) => void }, languageId: string) => model.setLanguageId?.(languageId)),
+  EditorOption: { lineHeight: 'lineHeight', readOnly: 'readOnly' },
+  TrackedRangeStickiness: { NeverGrowsWhenTypingAtEdges: 1 },
+}
+
+export const languages = { getLanguages: () => [], register: () => {} }
+
+export default { editor, languages, Range }
+
+/** Stub the global frame functions for every test; the managers under test run on a fake clock. */
+export function stubAnimationFrames() {
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', () => 0)
+    vi.stubGlobal('cancelAnimationFrame', () => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+}
@@ -0,0 +1,64 @@
+import type { Component, h } from 'vue'
+import { createRenderer } from 'vue'
+
+// A Vue renderer over plain objects, enough to mount the editor components in
+// node: elements record their props and children, nothing is laid out.
+
+export interface TestNode {
+  tag: string
+  text: string
+  props: Record<string, any>
+  style: Record<string, any>
+  children: TestNode[]
+}
+
+// kept out of the nodes so assertion diffs do not walk up into the app's vnodes
+const parents = new WeakMap<TestNode, TestNode>()
+
+function createNode(tag: string, text = ''): TestNode {
+  return { tag, text, props: {}, style: {}, children: [] }
+}
+
+function detach(node: TestNode) {
+  const parent = parents.get(node)
+  parent?.children.splice(parent.children.indexOf(node), 1)
+  parents.delete(node)
+}
+
+const { createApp } = createRenderer<TestNode, TestNode>({
+  createElement: tag => createNode(tag),
+  createText: text => createNode('#text', text),
+  createComment: text => createNode('#comment', text),
+  setText(node, text) {
+    node.text = text
+  },
+  setElementText(el, text) {
+    el.children = text ? [createNode('#text', text)] : []
+  },
+  insert(child, parent, anchor) {
+    detach(child)
+    const index = anchor ? parent.children.indexOf(anchor) : -1
+    parent.children.splice(index < 0 ? parent.children.length : index, 0, child)
+    parents.set(child, parent)
+  },
+  remove: detach,
+  parentNode: node => parents.get(node) ?? null,
+  nextSibling(node) {
+    const siblings = parents.get(node)?.children ?? []
+    return siblings[siblings.indexOf(node) + 1] ?? null
+  },
+  patchProp(el, key, _prev, next) {
+    if (key === 'style')
+      el.style = { ...next }
+    else
+      el.props[key] = next
+  },
+})
+
+/** Mount `render()` into a detached root; returns the root and an unmount function. */
+export function mount(render: () => ReturnType<typeof h>) {
+  const root = createNode('root')
+  const app = createApp({ render } as Component)
+  app.mount(root)
+  return { root, unmount: () => app.unmount() }
+}
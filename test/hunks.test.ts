@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { applyHunkDecisions, computeDiffStats, findHunkAtLine, hunkKey } from '../src/utils/hunks'
+
+const original = 'a\nb\nc\nd'
+const modified = 'a\nB\nc\nnew\nd\n'
+// changes as Monaco reports them: modify line 2, insert after line 3, append trailing empty line
+const changes = [
+  { originalStartLineNumber: 2, originalEndLineNumber: 2, modifiedStartLineNumber: 2, modifiedEndLineNumber: 2 },
+  { originalStartLineNumber: 3, originalEndLineNumber: 0, modifiedStartLineNumber: 4, modifiedEndLineNumber: 4 },
+]
+
+describe('applyHunkDecisions', () => {
+  it('keeps the original for pending and rejected hunks', () => {
+    expect(applyHunkDecisions(original, modified, changes, ['pending', 'rejected'])).toBe(original)
+  })
+
+  it('applies accepted hunks', () => {
+    expect(applyHunkDecisions(original, modified, changes, ['accepted', 'pending'])).toBe('a\nB\nc\nd')
+    expect(applyHunkDecisions(original, modified, changes, ['accepted', 'accepted'])).toBe('a\nB\nc\nnew\nd')
+  })
+
+  it('applies accepted deletions', () => {
+    const del = [{ originalStartLineNumber: 2, originalEndLineNumber: 3, modifiedStartLineNumber: 1, modifiedEndLineNumber: 0 }]
+    expect(applyHunkDecisions('a\nb\nc\nd', 'a\nd', del, ['accepted'])).toBe('a\nd')
+  })
+})
+
+describe('hunkKey', () => {
+  it('identifies hunks by position and content', () => {
+    const o = original.split('\n')
+    const m = modified.split('\n')
+    expect(hunkKey(changes[0], o, m)).toBe(hunkKey({ ...changes[0] }, o, m))
+    expect(hunkKey(changes[0], o, m)).not.toBe(hunkKey(changes[1], o, m))
+  })
+})
+
+describe('computeDiffStats', () => {
+  it('counts added and removed lines', () => {
+    const del = { originalStartLineNumber: 5, originalEndLineNumber: 6, modifiedStartLineNumber: 5, modifiedEndLineNumber: 0 }
+    expect(computeDiffStats([...changes, del], 1)).toEqual({ added: 2, removed: 3, hunks: 3, currentHunk: 1 })
+    expect(computeDiffStats([])).toEqual({ added: 0, removed: 0, hunks: 0, currentHunk: -1 })
+  })
+})
+
+describe('findHunkAtLine', () => {
+  it('finds the hunk at or before a modified line', () => {
+    expect(findHunkAtLine(changes, 1)).toBe(-1)
+    expect(findHunkAtLine(changes, 2)).toBe(0)
+    expect(findHunkAtLine(changes, 3)).toBe(0)
+    expect(findHunkAtLine(changes, 4)).toBe(1)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createKnownContent } from '../src/utils/knownContent'
+import { createFakeManager, createFakeModel } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+describe('createKnownContent', () => {
+  it('records appends without reading the model and joins chunks on demand', () => {
+    const model = createFakeModel('a')
+    const known = createKnownContent()
+    known.set(model as any, 'a')
+    for (const text of ['b', 'c', 'd']) {
+      const before = model.getVersionId()
+      model.applyEdits([{ range: { startLineNumber: 1, startColumn: model.getLineMaxColumn(1), endLineNumber: 1, endColumn: model.getLineMaxColumn(1) }, text }])
+      known.append(model as any, text, before)
+    }
+    expect(known.get(model as any)).toBe('abcd')
+    expect(model.stats.getValue).toBe(0)
+  })
+
+  it('re-reads the model once after edits it did not record', () => {
+    const model = createFakeModel('abc')
+    const known = createKnownContent()
+    known.set(model as any, 'abc')
+    model.applyEdits([{ range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 2 }, text: 'x' }])
+    expect(known.get(model as any)).toBe('xbc')
+    expect(known.get(model as any)).toBe('xbc')
+    expect(model.stats.getValue).toBe(1)
+  })
+
+  it('does not extend the tracked text past an edit it missed', () => {
+    const model = createFakeModel('a')
+    const known = createKnownContent()
+    known.set(model as any, 'a')
+    // typed by the user, not recorded
+    model.applyEdits([{ range: { startLineNumber: 1, startColumn: 2, endLineNumber: 1, endColumn: 2 }, text: 'b' }])
+    const before = model.getVersionId()
+    model.applyEdits([{ range: { startLineNumber: 1, startColumn: 3, endLineNumber: 1, endColumn: 3 }, text: 'c' }])
+    known.append(model as any, 'c', before)
+    expect(known.get(model as any)).toBe('abc')
+    expect(model.stats.getValue).toBe(1)
+  })
+})
+
+describe('editorManager append bookkeeping', () => {
+  stubAnimationFrames()
+
+  it('applies every append exactly once and never reads the model back', async () => {
+    const { mgr, model, clock } = await createFakeManager('start\n')
+    mgr.appendCode('a\n')
+    mgr.appendCode('b\n')
+    clock.flush()
+    mgr.updateCode('start\na\nb\nc\n', 'plaintext')
+    clock.flush()
+    expect(model.stats.getValue).toBe(0)
+    expect(model.getValue()).toBe('start\na\nb\nc\n')
+  })
+
+  it('materializes the tracked text for a non-append update', async () => {
+    const { mgr, model, clock } = await createFakeManager('const a = 1\n')
+    mgr.appendCode('const b = 2\n')
+    mgr.updateCode('const a = 3\nconst b = 2\n', 'plaintext')
+    clock.flush()
+    expect(model.stats.getValue).toBe(0)
+    expect(model.getValue()).toBe('const a = 3\nconst b = 2\n')
+  })
+
+  it('does the same model work per append however large the document grows', async () => {
+    const { mgr, model, clock } = await createFakeManager()
+    // count every call into the model, per method
+    const calls: Record<string, number> = {}
+    const methods = model as unknown as Record<string, unknown>
+    for (const [name, fn] of Object.entries(methods)) {
+      if (typeof fn !== 'function')
+        continue
+      methods[name] = (...args: unknown[]) => {
+        calls[name] = (calls[name] ?? 0) + 1
+        return fn(...args)
+      }
+    }
+    const chunk = `${'x'.repeat(63)}\n`
+
+    function callsPerBatch() {
+      for (const name of Object.keys(calls))
+        delete calls[name]
+      for (let i = 0; i < 200; i++) {
+        mgr.appendCode(chunk)
+        if (i % 50 === 49)
+          clock.tick()
+      }
+      clock.flush()
+      return { ...calls }
+    }
+
+    callsPerBatch() // settle scroll / height state
+    const early = callsPerBatch()
+    for (let i = 0; i < 20_000; i++)
+      mgr.appendCode(chunk)
+    clock.flush()
+    const late = callsPerBatch()
+
+    expect(model.getLineCount()).toBeGreaterThan(20_000)
+    expect(late).toEqual(early)
+    expect(model.stats.getValue).toBe(0)
+  })
+})
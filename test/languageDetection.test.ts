@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { codeLanguageToMonaco, detectLanguage, languages, patternScorer, rankLanguages } from '../src/code.detect'
+import { defaultLanguages } from '../src/constant'
+import { languageCorpus } from './fixtures/languageCorpus'
+
+describe('detectLanguage corpus', () => {
+  it.each(languageCorpus)('detects %s', (language, code) => {
+    expect(detectLanguage(code)).toBe(language)
+  })
+
+  it('covers the default Monaco languages', () => {
+    const detectable = new Set(Object.values(codeLanguageToMonaco))
+    // variants that can't be told apart from their base language by content alone
+    const undetectable = ['objective-cpp', 'angular-html', 'angular-ts']
+    expect(defaultLanguages.filter(l => !detectable.has(l) && !undetectable.includes(l))).toEqual([])
+  })
+
+  it('has one definition per language', () => {
+    const ids = languages.map(([id]) => id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+})
+
+describe('rankLanguages', () => {
+  it('ranks candidates with normalized confidence', () => {
+    const [, tsx] = languageCorpus.find(([l]) => l === 'tsx')!
+    const ranked = rankLanguages(tsx)
+    expect(ranked[0].language).toBe('tsx')
+    expect(ranked.map(c => c.language)).toContain('ts')
+    expect(ranked.every((c, i) => i === 0 || c.score <= ranked[i - 1].score)).toBe(true)
+    const total = ranked.reduce((acc, c) => acc + c.confidence, 0)
+    expect(total).toBeGreaterThan(0)
+    expect(total).toBeLessThanOrEqual(1)
+  })
+
+  it('is not sure about a single weak match', () => {
+    const [best] = rankLanguages('SELECT 1')
+    expect(best.language).toBe('sql')
+    expect(best.confidence).toBeLessThan(0.8)
+    expect(rankLanguages('hello world')).toEqual([])
+  })
+
+  it('accepts a custom scoring model', () => {
+    const code = 'fn main() {}'
+    expect(rankLanguages(code)[0].language).toBe('rs')
+    const onlyGo = rankLanguages(code, {
+      scorer: (code, features, language) => language === 'go' ? 100 : patternScorer(code, features, language) / 10,
+    })
+    expect(onlyGo.map(c => c.language)).toEqual(['go'])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { isLanguagePath, languageFromFile, processedLanguage } from '../src/code.detect'
+
+describe('languageFromFile', () => {
+  it('resolves well-known file names and extensions', () => {
+    expect(languageFromFile('Dockerfile')).toBe('dockerfile')
+    expect(languageFromFile('docker/Dockerfile.dev')).toBe('dockerfile')
+    expect(languageFromFile('src/components/App.vue')).toBe('vue')
+    expect(languageFromFile('.env')).toBe('dotenv')
+    expect(languageFromFile('config/.env.local')).toBe('dotenv')
+    expect(languageFromFile('CMakeLists.txt')).toBe('cmake')
+    expect(languageFromFile('notes.txt')).toBe('plaintext')
+    expect(languageFromFile('lib/Main.KT')).toBe('kotlin')
+  })
+
+  it('accepts URIs and Windows paths', () => {
+    expect(languageFromFile('file:///home/me/app.py')).toBe('python')
+    expect(languageFromFile('https://example.com/raw/main.rs?token=1#L3')).toBe('rust')
+    expect(languageFromFile('C:\\work\\Program.cs')).toBe('csharp')
+  })
+
+  it('reads the shebang line', () => {
+    expect(languageFromFile('bin/release', '#!/usr/bin/env node\nconsole.log(1)\n')).toBe('javascript')
+    expect(languageFromFile('scripts/run', '#!/usr/bin/python3.11\nprint(1)\n')).toBe('python')
+    expect(languageFromFile('tool', '#!/usr/bin/env -S deno run\n')).toBe('typescript')
+    expect(languageFromFile('install', '#!/bin/sh\nset -e\n')).toBe('shell')
+  })
+
+  it('reads Vim and Emacs modelines', () => {
+    expect(languageFromFile('README', '# vim: set ft=python :\nx = 1\n')).toBe('python')
+    expect(languageFromFile('build', '// -*- mode: c++; indent-tabs-mode: nil -*-\n')).toBe('cpp')
+    expect(languageFromFile('conf', ';; -*- lisp -*-\n')).toBe('common-lisp')
+    const long = `${'x\n'.repeat(20)}/* vim: syntax=javascript */\n`
+    expect(languageFromFile('bundle', long)).toBe('javascript')
+  })
+
+  it('falls back to content detection', () => {
+    expect(languageFromFile('snippet', 'package main\n\nfunc main() {\n\tfmt.Println(1)\n}\n')).toBe('go')
+    expect(languageFromFile('snippet')).toBe('plaintext')
+  })
+})
+
+describe('isLanguagePath', () => {
+  it('tells paths from language ids', () => {
+    expect(isLanguagePath('typescript')).toBe(false)
+    expect(isLanguagePath('objective-c')).toBe(false)
+    expect(isLanguagePath('ts:src/a.ts')).toBe(false)
+    expect(isLanguagePath('a.ts')).toBe(true)
+    expect(isLanguagePath('Makefile')).toBe(true)
+    expect(isLanguagePath('inmemory://model/1')).toBe(true)
+  })
+
+  it('lets processedLanguage accept paths', () => {
+    expect(processedLanguage('src/App.vue')).toBe('vue')
+    expect(processedLanguage('bash')).toBe('shell')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { detectMonacoLanguage } from '../src/code.detect'
+import { createLanguageTracker } from '../src/utils/languageTracker'
+
+const python = 'def greet(name):\n    print("hi", name)\n\nclass Greeter:\n    def run(self):\n        return lambda x: x or None\n'
+const go = 'package main\n\nimport "fmt"\n\nfunc main() {\n\tfmt.Println("hi")\n}\n'
+
+describe('detectMonacoLanguage', () => {
+  it('maps detector ids to Monaco language ids', () => {
+    expect(detectMonacoLanguage(python).language).toBe('python')
+    expect(detectMonacoLanguage(go).language).toBe('go')
+    expect(detectMonacoLanguage('#include <stdio.h>').language).toBe('c')
+  })
+
+  it('reports plaintext with zero confidence when nothing matches', () => {
+    expect(detectMonacoLanguage('hello world')).toEqual({ language: 'plaintext', confidence: 0 })
+  })
+
+  it('returns a confidence between 0 and 1', () => {
+    const { confidence } = detectMonacoLanguage(go)
+    expect(confidence).toBeGreaterThan(0)
+    expect(confidence).toBeLessThanOrEqual(1)
+  })
+})
+
+describe('createLanguageTracker', () => {
+  it('leaves plaintext as soon as a language is detected', () => {
+    const tracker = createLanguageTracker({ minGrowth: 1 })
+    expect(tracker.append('hello ').language).toBe('plaintext')
+    expect(tracker.append(go).language).toBe('go')
+  })
+
+  it('only re-evaluates after enough growth and keeps the result object stable', () => {
+    const tracker = createLanguageTracker({ minGrowth: 1000 })
+    const first = tracker.update(go)
+    expect(tracker.append(python)).toBe(first)
+  })
+
+  it('needs repeated, clearly better evidence before switching', () => {
+    const tracker = createLanguageTracker({ minGrowth: 1, confirmations: 2 })
+    tracker.update(go)
+    const mostlyPython = `${go}\n${python.repeat(20)}`
+    expect(tracker.update(mostlyPython).language).toBe('go')
+    expect(tracker.update(`${mostlyPython}${python}`).language).toBe('python')
+  })
+
+  it('starts over when the content is replaced', () => {
+    const tracker = createLanguageTracker({ minGrowth: 1 })
+    tracker.update(go)
+    expect(tracker.update(python).language).toBe('python')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { diffLines } from '../src/utils/lineDiff'
+
+function applyChanges(a: string[], b: string[], changes: ReturnType<typeof diffLines>) {
+  const out: string[] = []
+  let i = 0
+  for (const c of changes) {
+    out.push(...a.slice(i, c.oldStart))
+    out.push(...b.slice(c.newStart, c.newStart + c.newLength))
+    i = c.oldStart + c.oldLength
+  }
+  out.push(...a.slice(i))
+  return out
+}
+
+// small deterministic PRNG so failures are reproducible
+function lcg(seed: number) {
+  return () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296
+}
+
+describe('diffLines', () => {
+  it('returns nothing for equal input', () => {
+    expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([])
+  })
+
+  it('finds separate minimal changes', () => {
+    expect(diffLines(['a', 'b', 'c', 'd', 'e'], ['a', 'B', 'c', 'd', 'x', 'e'])).toEqual([
+      { oldStart: 1, oldLength: 1, newStart: 1, newLength: 1 },
+      { oldStart: 4, oldLength: 0, newStart: 4, newLength: 1 },
+    ])
+  })
+
+  it('handles insertions into and deletions of whole sides', () => {
+    expect(diffLines([], ['a'])).toEqual([{ oldStart: 0, oldLength: 0, newStart: 0, newLength: 1 }])
+    expect(diffLines(['a', 'b'], ['b'])).toEqual([{ oldStart: 0, oldLength: 1, newStart: 0, newLength: 0 }])
+  })
+
+  it('produces changes that transform a into b', () => {
+    const random = lcg(42)
+    for (let run = 0; run < 200; run++) {
+      const a = Array.from({ length: Math.floor(random() * 20) }, () => 'abcd'[Math.floor(random() * 4)])
+      const b = Array.from({ length: Math.floor(random() * 20) }, () => 'abcd'[Math.floor(random() * 4)])
+      expect(applyChanges(a, b, diffLines(a, b))).toEqual(b)
+    }
+  })
+
+  it('falls back to a single change past the edit limit', () => {
+    expect(diffLines(['a', 'x', 'b'], ['c', 'x', 'd'], 1)).toEqual([{ oldStart: 0, oldLength: 3, newStart: 0, newLength: 3 }])
+  })
+})
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const loaded = new Set<string>(['javascript'])
+const highlighter = {
+  getLoadedLanguages: () => [...loaded],
+  loadLanguage: vi.fn(async (lang: string) => {
+    loaded.add(lang)
+  }),
+}
+const registered: string[] = []
+
+vi.mock('shiki', () => ({
+  bundledLanguages: { javascript: {}, elixir: {}, ex: {} },
+  createHighlighter: vi.fn(async () => highlighter),
+}))
+vi.mock('@shikijs/monaco', () => ({ shikiToMonaco: vi.fn() }))
+vi.mock('../src/utils/scopedThemes', () => ({ registerScopedTokens: vi.fn() }))
+vi.mock('../src/monaco-shim', () => {
+  const languages = {
+    getLanguages: () => registered.map(id => ({ id })),
+    register: ({ id }: { id: string }) => registered.push(id),
+  }
+  return { default: { languages }, languages }
+})
+
+describe('loadMonacoLanguage', () => {
+  beforeEach(async () => {
+    const { clearHighlighterCache } = await import('../src/utils/registerMonacoThemes')
+    clearHighlighterCache()
+    loaded.clear()
+    loaded.add('javascript')
+    registered.length = 0
+    vi.clearAllMocks()
+  })
+
+  it('loads a single grammar and re-registers the highlighter with Monaco', async () => {
+    const { shikiToMonaco } = await import('@shikijs/monaco')
+    const { registerScopedTokens } = await import('../src/utils/scopedThemes')
+    const { getOrCreateHighlighter, loadMonacoLanguage } = await import('../src/utils/registerMonacoThemes')
+    await getOrCreateHighlighter(['vitesse-dark'], ['javascript'])
+    await Promise.all([
+      loadMonacoLanguage(['vitesse-dark'], 'elixir'),
+      loadMonacoLanguage(['vitesse-dark'], 'elixir'),
+    ])
+    expect(highlighter.loadLanguage).toHaveBeenCalledTimes(1)
+    expect(highlighter.loadLanguage).toHaveBeenCalledWith('elixir')
+    expect(registered).toEqual(['elixir'])
+    expect(shikiToMonaco).toHaveBeenCalledTimes(1)
+    expect(registerScopedTokens).toHaveBeenCalledWith(highlighter)
+  })
+
+  it('rejects languages shiki does not know and allows a retry', async () => {
+    const { loadMonacoLanguage } = await import('../src/utils/registerMonacoThemes')
+    await expect(loadMonacoLanguage(['vitesse-dark'], 'klingon')).rejects.toThrow(/not supported/)
+    await expect(loadMonacoLanguage(['vitesse-dark'], 'klingon')).rejects.toThrow(/not supported/)
+    expect(registered).toEqual([])
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { createMarkdownFenceSplitter } from '../src/utils/markdownFence'
+
+function run(chunks: string[]) {
+  const events: string[] = []
+  const prose: string[] = []
+  const blocks: Record<number, { info: string, code: string, closed?: boolean }> = {}
+  const splitter = createMarkdownFenceSplitter({
+    onProse: t => prose.push(t),
+    onBlockStart: ({ index, info }) => {
+      blocks[index] = { info, code: '' }
+      events.push(`start:${index}`)
+    },
+    onBlockText: (index, text) => {
+      blocks[index].code += text
+    },
+    onBlockEnd: (index, closed) => {
+      blocks[index].closed = closed
+      events.push(`end:${index}`)
+    },
+  })
+  chunks.forEach(c => splitter.push(c))
+  splitter.end()
+  return { events, prose: prose.join(''), blocks }
+}
+
+describe('createMarkdownFenceSplitter', () => {
+  it('splits prose and code blocks', () => {
+    const md = 'Hello\n\n```ts\nconst a = 1\nconst b = 2\n```\nBye\n'
+    const { prose, blocks, events } = run([md])
+    expect(prose).toBe('Hello\n\nBye\n')
+    expect(blocks[0]).toEqual({ info: 'ts', code: 'const a = 1\nconst b = 2', closed: true })
+    expect(events).toEqual(['start:0', 'end:0'])
+  })
+
+  it('handles fences split across chunk boundaries', () => {
+    const md = 'Intro\n```python\nprint(1)\n```\n~~~js\nlet x\n~~~\n'
+    // feed one character at a time
+    const { prose, blocks } = run(md.split(''))
+    expect(prose).toBe('Intro\n')
+    expect(blocks[0].info).toBe('python')
+    expect(blocks[0].code).toBe('print(1)')
+    expect(blocks[1].info).toBe('js')
+    expect(blocks[1].code).toBe('let x')
+  })
+
+  it('does not close a block on a shorter or different fence', () => {
+    const md = '````md\n```js\nx\n```\n````\n'
+    const { blocks } = run([md])
+    expect(blocks[0].code).toBe('```js\nx\n```')
+    expect(blocks[0].closed).toBe(true)
+  })
+
+  it('reports unterminated blocks at end of stream', () => {
+    const { blocks } = run(['```go\nfunc main() {', '\n'])
+    expect(blocks[0].code).toBe('func main() {')
+    expect(blocks[0].closed).toBe(false)
+  })
+
+  it('closes a block whose closing fence has no trailing newline', () => {
+    const { blocks, prose } = run(['a\n```\nb\n``', '`'])
+    expect(prose).toBe('a\n')
+    expect(blocks[0]).toEqual({ info: '', code: 'b', closed: true })
+  })
+})
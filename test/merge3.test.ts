@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { findConflictBlocks, merge3, renderMergeRegions } from '../src/utils/merge3'
+
+const base = ['a', 'b', 'c', 'd', 'e']
+
+describe('merge3', () => {
+  it('merges non-overlapping changes from both sides', () => {
+    const regions = merge3(base, ['A', 'b', 'c', 'd', 'e'], ['a', 'b', 'c', 'd', 'E', 'f'])
+    expect(regions).toEqual([{ type: 'stable', lines: ['A', 'b', 'c', 'd', 'E', 'f'] }])
+  })
+
+  it('accepts identical changes on both sides', () => {
+    expect(merge3(base, ['a', 'X', 'c', 'd', 'e'], ['a', 'X', 'c', 'd', 'e'])).toEqual([
+      { type: 'stable', lines: ['a', 'X', 'c', 'd', 'e'] },
+    ])
+  })
+
+  it('reports overlapping changes as conflicts', () => {
+    const regions = merge3(base, ['a', 'ours', 'c', 'd', 'e'], ['a', 'theirs', 'theirs2', 'c', 'd'])
+    expect(regions).toEqual([
+      { type: 'stable', lines: ['a'] },
+      { type: 'conflict', base: ['b'], ours: ['ours'], theirs: ['theirs', 'theirs2'] },
+      { type: 'stable', lines: ['c', 'd'] },
+    ])
+  })
+})
+
+describe('conflict markers', () => {
+  it('renders and finds conflict blocks', () => {
+    const regions = merge3(base, ['a', 'ours', 'c', 'd', 'e'], ['a', 'theirs', 'c', 'd', 'e'])
+    const lines = renderMergeRegions(regions, { ours: 'HEAD', theirs: 'feature' })
+    expect(lines).toEqual(['a', '<<<<<<< HEAD', 'ours', '=======', 'theirs', '>>>>>>> feature', 'c', 'd', 'e'])
+    expect(findConflictBlocks(lines)).toEqual([
+      { startLineNumber: 2, separatorLineNumber: 4, endLineNumber: 6, ours: ['ours'], theirs: ['theirs'] },
+    ])
+  })
+
+  it('skips diff3 base sections and incomplete blocks', () => {
+    const lines = ['<<<<<<<', 'x', '||||||| base', 'b', '=======', 'y', '>>>>>>>', '<<<<<<< dangling', 'z']
+    expect(findConflictBlocks(lines)).toEqual([
+      { startLineNumber: 1, separatorLineNumber: 5, endLineNumber: 7, ours: ['x'], theirs: ['y'] },
+    ])
+  })
+})
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { MergeEditorManager } from '../src/core/MergeEditorManager'
+import { useMonaco } from '../src/index'
+import * as monaco from '../src/monaco-shim'
+import { createFakeTimeSource } from '../src/utils/raf'
+import { createFakeEditor, createFakeModel } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+vi.mock('../src/utils/monacoRegistry', () => ({
+  acquireMonacoResources: () => ({
+    register: async () => null,
+    loadLanguage: async () => {},
+    addTheme() {},
+    addLanguage() {},
+    applyTheme() {},
+    release() {},
+  }),
+}))
+
+// Two conflicting hunks: line 2 and the last line were changed on both sides.
+const input = {
+  base: 'a\nb\nc\nd\ne',
+  ours: 'a\nours\nc\nd\nours-end',
+  theirs: 'a\ntheirs\nc\nd\ntheirs-end',
+}
+
+// the panes and action bars are plain elements; nothing reads them back
+function stubDocument() {
+  beforeEach(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ style: {}, textContent: '', append() {}, addEventListener() {} }),
+      getElementById: () => null,
+      head: { append() {} },
+    })
+  })
+}
+
+function container() {
+  return { style: {}, innerHTML: '', append() {} } as unknown as HTMLElement
+}
+
+function fakeEditors() {
+  const editors: Array<ReturnType<typeof createFakeEditor>> = []
+  ;(monaco.editor.createModel as any).mockImplementation((value: string) => createFakeModel(value))
+  ;(monaco.editor.create as any).mockImplementation((_el: HTMLElement, opts: { model: ReturnType<typeof createFakeModel> }) => {
+    const editor = createFakeEditor(opts.model)
+    editors.push(editor)
+    return editor
+  })
+  return editors
+}
+
+function createManager() {
+  const editors = fakeEditors()
+  const clock = createFakeTimeSource()
+  const mgr = new MergeEditorManager({ timeSource: clock }, 500)
+  const states: Array<{ conflicts: number, currentConflict: number }> = []
+  mgr.onDidChangeConflicts(state => states.push(state))
+  mgr.createMergeEditor(container(), input, 'vitesse-dark')
+  const [, , result] = editors
+  return { mgr, clock, result, states }
+}
+
+describe('mergeEditorManager', () => {
+  stubAnimationFrames()
+  stubDocument()
+
+  it('starts the result as the merge with conflict markers', () => {
+    const { mgr, result, states } = createManager()
+    expect(mgr.getMergedText()).toBe([
+      'a',
+      '<<<<<<< Current',
+      'ours',
+      '=======',
+      'theirs',
+      '>>>>>>> Incoming',
+      'c',
+      'd',
+      '<<<<<<< Current',
+      'ours-end',
+      '=======',
+      'theirs-end',
+      '>>>>>>> Incoming',
+    ].join('\n'))
+    expect(mgr.getConflictState()).toEqual({ conflicts: 2, currentConflict: -1 })
+    expect(states.at(-1)).toEqual({ conflicts: 2, currentConflict: -1 })
+    // one action bar per conflict
+    expect(result.zones.size).toBe(2)
+  })
+
+  it('navigates between conflicts and wraps around', () => {
+    const { mgr, result, states } = createManager()
+    expect(mgr.goToNextConflict()).toBe(0)
+    expect(result.getPosition().lineNumber).toBe(2)
+    expect(mgr.goToNextConflict()).toBe(1)
+    expect(result.getPosition().lineNumber).toBe(9)
+    expect(mgr.goToNextConflict()).toBe(0)
+    expect(mgr.goToPreviousConflict()).toBe(1)
+    expect(mgr.goToPreviousConflict()).toBe(0)
+    expect(states.at(-1)).toEqual({ conflicts: 2, currentConflict: 0 })
+  })
+
+  it('accepts current, incoming or both sides', () => {
+    const { mgr, states } = createManager()
+    expect(mgr.resolveConflict('theirs', 1)).toBe(true)
+    expect(mgr.getMergedText()).toBe('a\n<<<<<<< Current\nours\n=======\ntheirs\n>>>>>>> Incoming\nc\nd\ntheirs-end')
+    expect(states.at(-1)!.conflicts).toBe(1)
+
+    expect(mgr.resolveConflict('both')).toBe(true)
+    expect(mgr.getMergedText()).toBe('a\nours\ntheirs\nc\nd\ntheirs-end')
+    expect(states.at(-1)).toEqual({ conflicts: 0, currentConflict: -1 })
+    expect(mgr.resolveConflict('ours')).toBe(false)
+  })
+
+  it('accepts the current side of the last lines', () => {
+    const { mgr } = createManager()
+    mgr.resolveConflict('ours', 1)
+    mgr.resolveConflict('ours', 0)
+    expect(mgr.getMergedText()).toBe(input.ours)
+  })
+
+  it('re-reads conflicts after manual edits', () => {
+    const { mgr, clock, result, states } = createManager()
+    // resolve the first conflict by hand: keep "ours" and drop the markers
+    result.executeEdits('test', [{ range: new monaco.Range(2, 1, 7, 1), text: 'manual\n' }])
+    expect(mgr.getConflictState().conflicts).toBe(2)
+    clock.flush()
+    expect(mgr.getConflictState().conflicts).toBe(1)
+    expect(states.at(-1)!.conflicts).toBe(1)
+    expect(result.zones.size).toBe(1)
+  })
+})
+
+describe('useMonaco().createMergeEditor', () => {
+  stubAnimationFrames()
+  stubDocument()
+
+  it('exposes the conflict state and the merged text', async () => {
+    fakeEditors()
+    const api = useMonaco({ timeSource: createFakeTimeSource(), themes: ['vitesse-dark', 'vitesse-light'] })
+    expect(api.getMergedText()).toBeNull()
+    await api.createMergeEditor(container(), input)
+    expect(api.mergeConflicts.value).toEqual({ conflicts: 2, currentConflict: -1 })
+
+    expect(api.goToNextConflict()).toBe(0)
+    expect(api.mergeConflicts.value).toEqual({ conflicts: 2, currentConflict: 0 })
+    expect(api.takeOurs()).toBe(true)
+    expect(api.takeTheirs()).toBe(true)
+    expect(api.mergeConflicts.value).toEqual({ conflicts: 0, currentConflict: -1 })
+    expect(api.getMergedText()).toBe('a\nours\nc\nd\ntheirs-end')
+    expect(api.takeBoth()).toBe(false)
+
+    api.cleanupEditor()
+    expect(api.mergeConflicts.value).toEqual({ conflicts: 0, currentConflict: -1 })
+    expect(api.getMergedText()).toBeNull()
+  })
+})
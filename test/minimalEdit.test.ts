@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { computeMinimalEdit } from '../src/minimalEdit'
+import { computeMinimalEdit, computeMinimalEdits } from '../src/minimalEdit'
 
 describe('computeMinimalEdit', () => {
   it('no-op when equal', () => {
@@ -46,3 +46,70 @@ describe('computeMinimalEdit', () => {
     expect(res.replaceText).toBe(' there')
   })
 })
+
+function applyEdits(prev: string, edits: ReturnType<typeof computeMinimalEdits>) {
+  let out = ''
+  let i = 0
+  for (const e of edits) {
+    out += prev.slice(i, e.start) + e.replaceText
+    i = e.endPrevIncl + 1
+  }
+  return out + prev.slice(i)
+}
+
+// small deterministic PRNG so failures are reproducible
+function lcg(seed: number) {
+  return () => (seed = (seed * 1664525 + 1013904223) % 4294967296) / 4294967296
+}
+
+describe('computeMinimalEdits', () => {
+  const lines = Array.from({ length: 1000 }, (_, i) => `line ${i}\n`)
+  const prev = lines.join('')
+
+  it('no edits when equal', () => {
+    expect(computeMinimalEdits(prev, prev)).toEqual([])
+  })
+
+  it('touches only the changed lines', () => {
+    const next = prev.replace('line 2\n', 'line two\n').replace('line 899\n', 'line 899!\n')
+    const edits = computeMinimalEdits(prev, next)
+    expect(edits).toEqual([
+      { start: prev.indexOf('2\n'), endPrevIncl: prev.indexOf('2\n'), endNextIncl: next.indexOf('two') + 2, replaceText: 'two' },
+      { start: prev.indexOf('899\n') + 3, endPrevIncl: prev.indexOf('899\n') + 2, endNextIncl: next.indexOf('899!') + 3, replaceText: '!' },
+    ])
+    expect(applyEdits(prev, edits)).toBe(next)
+  })
+
+  it('keeps the single replacement for one changed region', () => {
+    const next = prev.replace('line 5\n', 'line 5\nnew\n')
+    expect(computeMinimalEdits(prev, next)).toEqual([computeMinimalEdit(prev, next)])
+  })
+
+  it('falls back to the single replacement above the size cutoff', () => {
+    const next = prev.replace('line 2\n', 'line two\n').replace('line 899\n', 'line 899!\n')
+    expect(computeMinimalEdits(prev, next, 100)).toEqual([computeMinimalEdit(prev, next)])
+  })
+
+  it('replaces a change at offset 0 when the text starts with a blank line', () => {
+    const prev = '\nabc\nX\n'
+    const next = 'Y\nabc\nZ\n'
+    const edits = computeMinimalEdits(prev, next)
+    expect(edits).toHaveLength(2)
+    expect(edits[0].start).toBe(0)
+    expect(applyEdits(prev, edits)).toBe(next)
+  })
+
+  it('reproduces the new text for random line edits', () => {
+    const rand = lcg(7)
+    for (let round = 0; round < 50; round++) {
+      const next = lines.filter(() => rand() > 0.02).map(l => rand() < 0.02 ? `changed ${l}` : l)
+      if (rand() < 0.5)
+        next.splice(Math.floor(rand() * next.length), 0, 'inserted\n')
+      const text = next.join('').slice(0, rand() < 0.3 ? -1 : undefined)
+      const edits = computeMinimalEdits(prev, text)
+      for (let i = 1; i < edits.length; i++)
+        expect(edits[i].start).toBeGreaterThan(edits[i - 1].endPrevIncl)
+      expect(applyEdits(prev, edits)).toBe(text)
+    }
+  })
+})
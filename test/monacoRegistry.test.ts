@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const setTheme = vi.fn()
+const registerMonacoThemes = vi.fn(async () => ({}))
+const loadMonacoLanguage = vi.fn(async () => undefined)
+const setContainerTheme = vi.fn()
+
+vi.mock('../src/monaco-shim', () => ({ default: { editor: { setTheme } }, editor: { setTheme } }))
+vi.mock('../src/utils/registerMonacoThemes', () => ({
+  registerMonacoThemes,
+  loadMonacoLanguage,
+  setThemeRegisterPromise: (p: unknown) => p,
+}))
+vi.mock('../src/utils/scopedThemes', () => ({ setContainerTheme }))
+
+async function load() {
+  vi.resetModules()
+  return import('../src/utils/monacoRegistry')
+}
+
+describe('acquireMonacoResources', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('registers the union of all live instances once', async () => {
+    const { acquireMonacoResources } = await load()
+    const a = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], ['javascript'])
+    await a.register()
+    const b = acquireMonacoResources(['github-dark', 'github-light'], ['python'])
+    await b.register()
+    expect(registerMonacoThemes).toHaveBeenLastCalledWith(
+      ['vitesse-dark', 'vitesse-light', 'github-dark', 'github-light'],
+      ['javascript', 'python'],
+    )
+    // already covered: no re-registration
+    const c = acquireMonacoResources(['vitesse-dark', 'github-light'], ['python'])
+    await c.register()
+    await a.register()
+    expect(registerMonacoThemes).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps what other instances still use when one is released', async () => {
+    const { acquireMonacoResources, getMonacoResourceUsage } = await load()
+    const a = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], ['javascript'])
+    const b = acquireMonacoResources(['vitesse-dark', 'github-light'], ['javascript', 'rust'])
+    await b.register()
+    b.release()
+    b.release()
+    expect(getMonacoResourceUsage()).toEqual({
+      themes: [{ name: 'vitesse-dark', count: 1 }, { name: 'vitesse-light', count: 1 }],
+      languages: [{ name: 'javascript', count: 1 }],
+    })
+    // released themes stay registered until the union has to grow
+    await a.register()
+    expect(registerMonacoThemes).toHaveBeenCalledTimes(1)
+    a.addTheme('nord')
+    await a.register()
+    expect(registerMonacoThemes).toHaveBeenLastCalledWith(['vitesse-dark', 'vitesse-light', 'nord'], ['javascript'])
+  })
+
+  it('re-applies the latest remaining theme when the active instance goes away', async () => {
+    const { acquireMonacoResources } = await load()
+    const a = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], [])
+    const b = acquireMonacoResources(['github-dark', 'github-light'], [])
+    a.applyTheme('vitesse-dark')
+    b.applyTheme('github-light')
+    a.release()
+    expect(setTheme).toHaveBeenCalledTimes(2)
+    b.release()
+    expect(setTheme).toHaveBeenCalledTimes(2)
+
+    const c = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], [])
+    const d = acquireMonacoResources(['github-dark', 'github-light'], [])
+    c.applyTheme('vitesse-light')
+    d.applyTheme('github-dark')
+    d.release()
+    expect(setTheme).toHaveBeenLastCalledWith('vitesse-light')
+  })
+
+  it('scopes each instance\'s theme to its container', async () => {
+    const { acquireMonacoResources } = await load()
+    const a = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], [])
+    const el = {} as HTMLElement
+    a.applyTheme('vitesse-dark', el)
+    expect(setContainerTheme).toHaveBeenLastCalledWith(el, 'vitesse-dark')
+    // later requests keep the container
+    a.applyTheme('vitesse-light')
+    expect(setContainerTheme).toHaveBeenLastCalledWith(el, 'vitesse-light')
+
+    const other = {} as HTMLElement
+    a.applyTheme('vitesse-light', other)
+    expect(setContainerTheme).toHaveBeenCalledWith(el, null)
+    expect(setContainerTheme).toHaveBeenLastCalledWith(other, 'vitesse-light')
+    a.release()
+    expect(setContainerTheme).toHaveBeenLastCalledWith(other, null)
+  })
+
+  it('loads grammars into the registered highlighter and counts them', async () => {
+    const { acquireMonacoResources, getMonacoResourceUsage } = await load()
+    const a = acquireMonacoResources(['vitesse-dark', 'vitesse-light'], ['javascript'])
+    await a.loadLanguage('elixir')
+    expect(loadMonacoLanguage).toHaveBeenCalledWith(['vitesse-dark', 'vitesse-light'], 'elixir')
+    expect(getMonacoResourceUsage().languages).toContainEqual({ name: 'elixir', count: 1 })
+    await a.register()
+    expect(registerMonacoThemes).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { createPatch, parsePatch, reconstructPatchFile } from '../src/utils/patch'
+
+const base = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n'
+
+const single = `--- a/src/num.txt
++++ b/src/num.txt
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+@@ -6,2 +6,3 @@
+ six
+ seven
++eight
+`
+
+const multi = `diff --git a/old name.ts b/new name.ts
+similarity index 90%
+rename from old name.ts
+rename to new name.ts
+index 1111111..2222222 100644
+--- a/old name.ts
++++ b/new name.ts
+@@ -1 +1 @@
+-export const a = 1
+\\ No newline at end of file
++export const a = 2
+\\ No newline at end of file
+diff --git a/added.ts b/added.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/added.ts
+@@ -0,0 +1,2 @@
++--- not a header
++x
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+diff --git a/logo.png b/logo.png
+index 4444444..5555555 100644
+Binary files a/logo.png and b/logo.png differ
+`
+
+describe('parsePatch', () => {
+  it('parses hunks of a single-file patch', () => {
+    const [file] = parsePatch(single)
+    expect(file.oldPath).toBe('src/num.txt')
+    expect(file.newPath).toBe('src/num.txt')
+    expect(file.status).toBe('modified')
+    expect(file.hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([[1, 3, 1, 3], [6, 2, 6, 3]])
+    expect(file.hunks[0].lines[1]).toEqual({ type: '-', text: 'two' })
+  })
+
+  it('parses multi-file git diffs with renames, additions, deletions and binaries', () => {
+    const files = parsePatch(multi)
+    expect(files.map(f => [f.status, f.oldPath, f.newPath, f.binary])).toEqual([
+      ['renamed', 'old name.ts', 'new name.ts', false],
+      ['added', null, 'added.ts', false],
+      ['deleted', 'gone.ts', null, false],
+      ['modified', 'logo.png', 'logo.png', true],
+    ])
+    expect(files[0].oldNoNewlineAtEnd).toBe(true)
+    expect(files[0].newNoNewlineAtEnd).toBe(true)
+    // `---` inside a hunk body is content, not a new file header
+    expect(files[1].hunks[0].lines[0]).toEqual({ type: '+', text: '--- not a header' })
+  })
+})
+
+describe('reconstructPatchFile', () => {
+  it('joins the hunks when no base text is given', () => {
+    const [file] = parsePatch(single)
+    expect(reconstructPatchFile(file)).toEqual({
+      original: 'one\ntwo\nthree\nsix\nseven\n',
+      modified: 'one\nTWO\nthree\nsix\nseven\neight\n',
+    })
+  })
+
+  it('applies the hunks to the base text', () => {
+    const [file] = parsePatch(single)
+    expect(reconstructPatchFile(file, base)).toEqual({
+      original: base,
+      modified: 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\n',
+    })
+  })
+
+  it('keeps a missing newline at end of file', () => {
+    const [file] = parsePatch(multi)
+    expect(reconstructPatchFile(file, 'export const a = 1')).toEqual({
+      original: 'export const a = 1',
+      modified: 'export const a = 2',
+    })
+  })
+
+  it('throws when the base text does not match', () => {
+    const [file] = parsePatch(single)
+    expect(() => reconstructPatchFile(file, base.replace('two', '2'))).toThrow(/does not apply/)
+  })
+})
+
+describe('createPatch', () => {
+  it('writes headers, context and merged hunks', () => {
+    const modified = 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\n'
+    expect(createPatch(base, modified, { oldFile: 'src/num.txt', context: 1 })).toBe(`--- a/src/num.txt
++++ b/src/num.txt
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+@@ -7 +7,2 @@
+ seven
++eight
+`)
+    expect(createPatch(base, base)).toBe('')
+  })
+
+  it('round-trips through parsePatch', () => {
+    const cases: [string, string][] = [
+      [base, 'zero\none\nthree\nfour\nFIVE\nsix\nseven'],
+      ['', 'new\nfile\n'],
+      ['gone\n', ''],
+      ['same', 'same\n'],
+    ]
+    for (const [original, modified] of cases) {
+      const [file] = parsePatch(createPatch(original, modified, { context: 2 }))
+      expect(reconstructPatchFile(file, original).modified).toBe(modified)
+    }
+  })
+
+  it('uses /dev/null for added and deleted files', () => {
+    expect(createPatch('', 'x\n', { oldFile: null, newFile: 'x.ts' }).split('\n').slice(0, 2)).toEqual(['--- /dev/null', '+++ b/x.ts'])
+  })
+})
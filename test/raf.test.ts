@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { createRafScheduler } from '../src/utils/raf'
+import { createFakeTimeSource, createRafScheduler } from '../src/utils/raf'
 
 describe('createRafScheduler', () => {
   it('schedules and cancels using global time source', async () => {
@@ -49,4 +49,68 @@ describe('createRafScheduler', () => {
       ;(globalThis as any).cancelAnimationFrame = origCancel
     }
   })
+
+  it('keeps scheduled frames of different schedulers apart', () => {
+    const clock = createFakeTimeSource()
+    const a = createRafScheduler(clock)
+    const b = createRafScheduler(clock)
+    const runs: string[] = []
+    a.schedule('append', () => runs.push('a'))
+    b.schedule('append', () => runs.push('b'))
+    a.schedule('reveal', () => runs.push('a-reveal'))
+    b.cancel('reveal')
+    expect(clock.pending).toBe(3)
+    clock.tick()
+    expect(runs).toEqual(['a', 'b', 'a-reveal'])
+  })
+
+  it('coalesces repeated schedules of one kind into the latest callback', () => {
+    const clock = createFakeTimeSource()
+    const s = createRafScheduler(clock)
+    const runs: number[] = []
+    s.schedule('update', () => runs.push(1))
+    s.schedule('update', () => runs.push(2))
+    expect(clock.pending).toBe(1)
+    clock.tick()
+    expect(runs).toEqual([2])
+  })
+
+  it('cancels every pending kind with cancelAll', () => {
+    const clock = createFakeTimeSource()
+    const s = createRafScheduler(clock)
+    s.schedule('append', () => {
+      throw new Error('should not run')
+    })
+    s.schedule('reveal', () => {
+      throw new Error('should not run')
+    })
+    s.cancelAll()
+    expect(clock.pending).toBe(0)
+    expect(clock.tick()).toBe(0)
+  })
+})
+
+describe('createFakeTimeSource', () => {
+  it('advances time per frame and defers callbacks requested during a frame', () => {
+    const clock = createFakeTimeSource(10)
+    const times: number[] = []
+    clock.requestAnimationFrame((t) => {
+      times.push(t)
+      clock.requestAnimationFrame(t2 => times.push(t2))
+    })
+    expect(clock.tick()).toBe(1)
+    expect(times).toEqual([10])
+    expect(clock.pending).toBe(1)
+    expect(clock.flush()).toBe(1)
+    expect(times).toEqual([10, 20])
+    expect(clock.now()).toBe(20)
+  })
+
+  it('stops flushing after maxFrames for self-rescheduling callbacks', () => {
+    const clock = createFakeTimeSource()
+    const loop = () => clock.requestAnimationFrame(loop)
+    loop()
+    expect(clock.flush(5)).toBe(5)
+    expect(clock.pending).toBe(1)
+  })
 })
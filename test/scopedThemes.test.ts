@@ -0,0 +1,70 @@
+// @vitest-environment happy-dom
+import { createHighlighter } from 'shiki'
+import { describe, expect, it, vi } from 'vitest'
+import { registerScopedTokens, setContainerTheme } from '../src/utils/scopedThemes'
+
+const providers = vi.hoisted(() => new Map<string, any>())
+
+vi.mock('../src/monaco-shim', () => {
+  const languages = {
+    getLanguages: () => [{ id: 'typescript' }],
+    getEncodedLanguageId: () => 3,
+    setTokensProvider: (language: string, provider: unknown) => providers.set(language, provider),
+  }
+  return { default: { languages }, languages }
+})
+
+const themes = ['vitesse-dark', 'vitesse-light'] as const
+const line = 'const a = \'x\' // note'
+
+async function tokenize() {
+  const highlighter = await createHighlighter({ themes: [...themes], langs: ['typescript'] })
+  registerScopedTokens(highlighter)
+  const provider = providers.get('typescript')
+  const { tokens } = provider.tokenizeEncoded(line, provider.getInitialState())
+  // start offset -> metadata
+  const metadata = new Map<number, number>()
+  for (let i = 0; i < tokens.length; i += 2)
+    metadata.set(tokens[i], tokens[i + 1])
+  return { highlighter, metadata }
+}
+
+function styles() {
+  return document.getElementById('vue-use-monaco-scoped-themes')!.textContent!.toLowerCase()
+}
+
+describe('registerScopedTokens', () => {
+  it('gives tokens style ids that every theme colours under its own class', async () => {
+    const { highlighter, metadata } = await tokenize()
+    const keyword = metadata.get(line.indexOf('const'))!
+    expect(keyword & 0xFF).toBe(3)
+    const id = (keyword >>> 15) & 0x1FF
+    expect(id).toBeGreaterThanOrEqual(256)
+
+    for (const theme of themes) {
+      const [[token]] = highlighter.codeToTokensBase('const', { lang: 'typescript', theme })
+      expect(styles()).toContain(`.monaco-theme-${theme} .mtk${id} { color: ${token.color!.toLowerCase()};`)
+      const background = highlighter.getTheme(theme).colors!['editor.background'].toLowerCase()
+      expect(styles()).toContain(`--vscode-editor-background: ${background};`)
+    }
+  })
+
+  it('marks strings and comments for Monaco\'s bracket and auto-closing rules', async () => {
+    const { metadata } = await tokenize()
+    const tokenType = (offset: number) => (metadata.get(offset)! >>> 8) & 3
+    expect(tokenType(line.indexOf('\''))).toBe(2)
+    expect(tokenType(line.indexOf('//'))).toBe(1)
+    expect(tokenType(0)).toBe(0)
+  })
+})
+
+describe('setContainerTheme', () => {
+  it('replaces the theme class of a container', () => {
+    const el = document.createElement('div')
+    el.className = 'editor monaco-theme-vitesse-dark'
+    setContainerTheme(el, 'vitesse-light')
+    expect(el.className).toBe('editor monaco-theme-vitesse-light')
+    setContainerTheme(el, null)
+    expect(el.className).toBe('editor')
+  })
+})
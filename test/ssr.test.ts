@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+// no monaco mock: the ssr module must not import monaco-editor
+import { renderCodeToHtml, staticEditorHeight, staticLineHeight } from '../src/ssr'
+
+const options = { themes: ['vitesse-dark', 'vitesse-light'], languages: ['typescript'] }
+
+describe('renderCodeToHtml', () => {
+  it('highlights code with the editor themes without touching monaco', async () => {
+    const html = await renderCodeToHtml('const a = 1\nconst b = 2', 'typescript', 'vitesse-dark', options)
+    expect(html).toMatch(/^<div class="monaco-ssr-static" style="height:54px;font-size:14px;line-height:19px">/)
+    expect(html).toContain('<pre class="shiki vitesse-dark')
+    expect(html).toContain('margin:0;height:100%')
+    expect(html).toContain('const')
+  })
+
+  it('renders unknown languages as escaped plain text', async () => {
+    const html = await renderCodeToHtml('<script>x</script>', 'not-a-language', 'vitesse-light', options)
+    expect(html).toContain('&#x3C;script>')
+    expect(html).not.toContain('<script>')
+  })
+
+  it('defaults to the light theme of the pair when not dark', async () => {
+    const html = await renderCodeToHtml('x', 'ts', undefined, options)
+    expect(html).toContain('vitesse-light')
+  })
+})
+
+describe('staticEditorHeight', () => {
+  it('follows the editor height rule', () => {
+    expect(staticLineHeight()).toBe(19)
+    expect(staticLineHeight({ fontSize: 12 })).toBe(16)
+    expect(staticLineHeight({ lineHeight: 20 })).toBe(20)
+    // lines * lineHeight + padding(16)
+    expect(staticEditorHeight(3, { lineHeight: 20 })).toBe(76)
+    // capped at MAX_HEIGHT
+    expect(staticEditorHeight(1000, { lineHeight: 20, MAX_HEIGHT: 300 })).toBe(300)
+    expect(staticEditorHeight(1000, { lineHeight: 20, MAX_HEIGHT: '240px' })).toBe(240)
+    expect(staticEditorHeight(0)).toBe(35)
+  })
+})
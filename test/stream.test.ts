@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { consumeCodeStream } from '../src/utils/stream'
+
+describe('consumeCodeStream', () => {
+  it('reads an async iterable of strings', async () => {
+    async function* gen() {
+      yield 'const a'
+      yield ''
+      yield ' = 1\n'
+    }
+    const out: string[] = []
+    const res = await consumeCodeStream(gen(), t => out.push(t))
+    expect(out.join('')).toBe('const a = 1\n')
+    expect(res.chunks).toBe(2)
+    expect(res.chars).toBe(12)
+    expect(res.aborted).toBe(false)
+  })
+
+  it('decodes UTF-8 split across ReadableStream chunks', async () => {
+    const bytes = new TextEncoder().encode('// 你好 😀\n')
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // split in the middle of multi-byte sequences
+        for (let i = 0; i < bytes.length; i += 2)
+          controller.enqueue(bytes.slice(i, i + 2))
+        controller.close()
+      },
+    })
+    let text = ''
+    await consumeCodeStream(stream, (t) => {
+      text += t
+    })
+    expect(text).toBe('// 你好 😀\n')
+    expect(text).not.toContain('�')
+  })
+
+  it('stops on abort even if the producer stalls', async () => {
+    const controller = new AbortController()
+    async function* gen() {
+      yield 'a'
+      await new Promise(() => {})
+    }
+    let text = ''
+    const p = consumeCodeStream(gen(), (t) => {
+      text += t
+    }, { signal: controller.signal })
+    await new Promise(res => setTimeout(res, 0))
+    controller.abort()
+    const res = await p
+    expect(text).toBe('a')
+    expect(res.aborted).toBe(true)
+  })
+
+  it('consumes an EventSource-like source until the done message', async () => {
+    const listeners: Record<string, Array<(e: any) => void>> = {}
+    let closed = false
+    const source = {
+      addEventListener(type: string, l: (e: any) => void) {
+        (listeners[type] ||= []).push(l)
+      },
+      removeEventListener(type: string, l: (e: any) => void) {
+        listeners[type] = (listeners[type] || []).filter(x => x !== l)
+      },
+      close() {
+        closed = true
+      },
+    }
+    const emit = (data: string) => listeners.message?.forEach(l => l({ data }))
+    let text = ''
+    const p = consumeCodeStream(source, (t) => {
+      text += t
+    })
+    emit('foo')
+    emit('bar')
+    await new Promise(res => setTimeout(res, 0))
+    emit('[DONE]')
+    const res = await p
+    expect(text).toBe('foobar')
+    expect(res.chunks).toBe(2)
+    expect(closed).toBe(true)
+  })
+
+  function fakeEventSource() {
+    const listeners: Record<string, Array<(e: any) => void>> = {}
+    return {
+      readyState: 1,
+      addEventListener(type: string, l: (e: any) => void) {
+        (listeners[type] ||= []).push(l)
+      },
+      removeEventListener(type: string, l: (e: any) => void) {
+        listeners[type] = (listeners[type] || []).filter(x => x !== l)
+      },
+      close() {
+        this.readyState = 2
+      },
+      emit(type: string, event: any = {}) {
+        listeners[type]?.forEach(l => l(event))
+      },
+    }
+  }
+
+  it('rejects when the connection drops instead of ending normally', async () => {
+    const source = fakeEventSource()
+    let text = ''
+    const p = consumeCodeStream(source, (t) => {
+      text += t
+    })
+    source.emit('message', { data: 'partial' })
+    await new Promise(res => setTimeout(res, 0))
+    // a native error event: no `.error`, the source is reconnecting
+    source.readyState = 0
+    source.emit('error')
+    await expect(p).rejects.toThrow('EventSource error')
+    expect(text).toBe('partial')
+    expect(source.readyState).toBe(2)
+  })
+
+  it('ends normally on an error event after the source was closed', async () => {
+    const source = fakeEventSource()
+    const p = consumeCodeStream(source, () => {})
+    source.emit('message', { data: 'a' })
+    source.readyState = 2
+    source.emit('error')
+    await expect(p).resolves.toMatchObject({ chunks: 1, aborted: false })
+  })
+})
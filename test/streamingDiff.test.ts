@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { advanceStreamCursor, visibleOriginal } from '../src/utils/streamingDiff'
+
+describe('advanceStreamCursor', () => {
+  const original = ['import a', '', 'function f() {', '  return 1', '}', 'export default f']
+
+  it('advances past matching lines', () => {
+    let cursor = 0
+    cursor = advanceStreamCursor(original, cursor, 'import a')
+    expect(cursor).toBe(1)
+    cursor = advanceStreamCursor(original, cursor, 'function f() {')
+    expect(cursor).toBe(3)
+  })
+
+  it('keeps the cursor for inserted and blank lines', () => {
+    expect(advanceStreamCursor(original, 1, 'import b')).toBe(1)
+    expect(advanceStreamCursor(original, 1, '   ')).toBe(1)
+  })
+
+  it('skips deleted lines when a later line matches', () => {
+    expect(advanceStreamCursor(original, 3, '}')).toBe(5)
+  })
+
+  it('respects the search window', () => {
+    expect(advanceStreamCursor(original, 0, 'export default f', 3)).toBe(0)
+  })
+})
+
+describe('visibleOriginal', () => {
+  it('returns consumed lines with line breaks', () => {
+    const text = 'a\nb\nc'
+    const lines = text.split('\n')
+    expect(visibleOriginal(lines, text, 0)).toBe('')
+    expect(visibleOriginal(lines, text, 2)).toBe('a\nb\n')
+    expect(visibleOriginal(lines, text, 3)).toBe(text)
+  })
+})
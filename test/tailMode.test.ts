@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFakeManager } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+function logLines(from: number, to: number) {
+  let text = ''
+  for (let i = from; i < to; i++)
+    text += `line ${i}\n`
+  return text
+}
+
+describe('tail mode (maxLines)', () => {
+  stubAnimationFrames()
+  beforeEach(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ style: {}, textContent: '', append() {}, addEventListener() {} }),
+    })
+  })
+
+  it('trims the head and shows the true line numbers', async () => {
+    const { mgr, model, editor, clock } = await createFakeManager('', { maxLines: 50 })
+    const trimmed: number[] = []
+    mgr.onDidChangeTrimmedLines(n => trimmed.push(n))
+
+    mgr.appendCode(logLines(0, 120))
+    clock.flush()
+    // 120 lines plus the empty last line
+    expect(model.getLineCount()).toBe(50)
+    expect(mgr.getTrimmedLines()).toBe(71)
+    expect(model.getLineContent(1)).toBe('line 71')
+    expect(editor.options.lineNumbers(1)).toBe('72')
+    expect(editor.zones.size).toBe(1)
+
+    // still following the tail after its own scroll adjustments
+    mgr.appendCode(logLines(120, 130))
+    clock.flush()
+    expect(mgr.getTrimmedLines()).toBe(81)
+    expect(model.getLineContent(1)).toBe('line 81')
+    expect(trimmed).toEqual([71, 81])
+  })
+
+  it('keeps the line at the top of the viewport in place', async () => {
+    const { mgr, model, editor, clock } = await createFakeManager(logLines(0, 40), { maxLines: 50 })
+    editor.setScrollTop(editor.getTopForLineNumber(31))
+    clock.flush()
+    const top = () => model.getLineContent(editor.getVisibleRanges()[0].startLineNumber)
+    expect(top()).toBe('line 30')
+
+    mgr.appendCode(logLines(40, 60))
+    expect(top()).toBe('line 30')
+    // the frame trims the head; the reveal that follows only happens after the debounce
+    clock.tick()
+    expect(mgr.getTrimmedLines()).toBe(11)
+    expect(top()).toBe('line 30')
+  })
+
+  it('does not trim while auto-scroll is paused', async () => {
+    const { mgr, model, clock } = await createFakeManager('', { maxLines: 50 })
+    mgr.pauseAutoScroll()
+    mgr.appendCode(logLines(0, 120))
+    clock.flush()
+    expect(model.getLineCount()).toBe(121)
+    expect(mgr.getTrimmedLines()).toBe(0)
+  })
+
+  it('loads earlier lines from the caller above the current first line', async () => {
+    const onLoadEarlier = vi.fn((hidden: number) => logLines(0, hidden).split(/(?<=\n)/).slice(-20).join(''))
+    const { mgr, model, editor, clock } = await createFakeManager('', { maxLines: 50, onLoadEarlier })
+    mgr.appendCode(logLines(0, 120))
+    clock.flush()
+    mgr.pauseAutoScroll()
+    editor.setScrollTop(editor.getTopForLineNumber(5))
+    const top = () => model.getLineContent(editor.getVisibleRanges()[0].startLineNumber)
+    expect(top()).toBe('line 75')
+
+    await expect(mgr.loadEarlierLines()).resolves.toBe(20)
+    expect(onLoadEarlier).toHaveBeenCalledWith(71)
+    expect(mgr.getTrimmedLines()).toBe(51)
+    expect(model.getLineContent(1)).toBe('line 51')
+    expect(editor.options.lineNumbers(1)).toBe('52')
+    expect(top()).toBe('line 75')
+
+    // more lines than are hidden: only the ones right above are used
+    onLoadEarlier.mockReturnValueOnce(`stale\n${logLines(0, 51)}`)
+    await expect(mgr.loadEarlierLines()).resolves.toBe(51)
+    expect(model.getLineContent(1)).toBe('line 0')
+    expect(editor.zones.size).toBe(0)
+    await expect(mgr.loadEarlierLines()).resolves.toBe(0)
+  })
+})
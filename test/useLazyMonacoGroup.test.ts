@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useLazyMonacoGroup } from '../src/useLazyMonacoGroup'
+import { createFakeTimeSource } from '../src/utils/raf'
+
+// Fake useMonaco whose editor creation can be held open, so text arriving
+// during an upgrade can be checked.
+let holdCreate: Promise<void> | null = null
+vi.mock('../src/useMonaco', () => {
+  return {
+    useMonaco: () => {
+      let value: string | null = null
+      return {
+        createEditor: vi.fn(async (_el: HTMLElement, code: string) => {
+          if (holdCreate)
+            await holdCreate
+          value = code
+          return {}
+        }),
+        cleanupEditor: vi.fn(() => {
+          value = null
+        }),
+        getEditorView: () => (value == null ? null : { getValue: () => value }),
+        appendCode: vi.fn((text: string) => {
+          value += text
+        }),
+        updateCode: vi.fn((code: string) => {
+          value = code
+        }),
+        setLanguage: vi.fn(),
+        setTheme: vi.fn(async () => {}),
+        pauseAutoScroll: vi.fn(),
+      }
+    },
+  }
+})
+
+vi.mock('../src/utils/highlighter', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/utils/highlighter')>(),
+  getOrCreateHighlighter: async () => ({
+    codeToHtml: (code: string, { lang, theme }: { lang: string, theme: string }) =>
+      `<pre data-lang="${lang}" data-theme="${theme}">${code}</pre>`,
+    getLoadedLanguages: () => ['typescript', 'text'],
+  }),
+}))
+
+class FakeIntersectionObserver {
+  static instances: FakeIntersectionObserver[] = []
+  targets = new Set<Element>()
+  constructor(public callback: IntersectionObserverCallback, public options: IntersectionObserverInit) {
+    FakeIntersectionObserver.instances.push(this)
+  }
+
+  observe(el: Element) {
+    this.targets.add(el)
+  }
+
+  unobserve(el: Element) {
+    this.targets.delete(el)
+  }
+
+  disconnect() {
+    this.targets.clear()
+  }
+}
+
+/** Report the container as inside (near) or outside (far) the given observer margin */
+function emit(margin: string, target: any, isIntersecting: boolean) {
+  for (const o of FakeIntersectionObserver.instances) {
+    if (o.options.rootMargin === margin && o.targets.has(target))
+      o.callback([{ target, isIntersecting } as any], o as any)
+  }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('useLazyMonacoGroup', () => {
+  beforeEach(() => {
+    FakeIntersectionObserver.instances = []
+    ;(globalThis as any).IntersectionObserver = FakeIntersectionObserver
+  })
+  afterEach(() => {
+    delete (globalThis as any).IntersectionObserver
+    holdCreate = null
+  })
+
+  it('renders static html until the block approaches the viewport', async () => {
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark' })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'const a = 1', 'typescript')
+    await settle()
+    expect(el.innerHTML).toContain('<pre data-lang="typescript" data-theme="vitesse-dark">const a = 1</pre>')
+    expect(lazy.blocks.get('a')!.mode).toBe('static')
+    expect(lazy.group.has('a')).toBe(false)
+
+    emit('200px', el, true)
+    await settle()
+    expect(lazy.blocks.get('a')!.mode).toBe('editor')
+    expect(lazy.group.has('a')).toBe(true)
+    expect(el.innerHTML).toBe('')
+    lazy.disposeAll()
+  })
+
+  it('falls back to plain text for languages the highlighter does not have', async () => {
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark' })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'a < b', 'elixir')
+    await settle()
+    expect(el.innerHTML).toContain('data-lang="text"')
+    lazy.disposeAll()
+  })
+
+  it('keeps streamed content across upgrade and downgrade', async () => {
+    const clock = createFakeTimeSource()
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark', timeSource: clock })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'line 1\n', 'typescript')
+
+    // appends to a static block are rendered once per frame
+    lazy.appendCode('a', 'line 2\n')
+    lazy.appendCode('a', 'line 3\n')
+    clock.flush()
+    await settle()
+    expect(el.innerHTML).toContain('line 1\nline 2\nline 3\n')
+
+    // text arriving while the editor is being created is forwarded afterwards
+    let release!: () => void
+    holdCreate = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    emit('200px', el, true)
+    lazy.appendCode('a', 'line 4\n')
+    release()
+    await settle()
+    expect(lazy.group.getEditorView('a')!.getValue()).toBe('line 1\nline 2\nline 3\nline 4\n')
+
+    lazy.appendCode('a', 'line 5\n')
+    lazy.complete('a')
+    emit('1000px', el, false)
+    await settle()
+    expect(lazy.blocks.get('a')!.mode).toBe('static')
+    expect(lazy.group.has('a')).toBe(false)
+    expect(el.innerHTML).toContain('line 4\nline 5\n')
+
+    // upgrading again restores the content and the finished stream state
+    holdCreate = null
+    emit('200px', el, true)
+    await settle()
+    const editor = lazy.group.get('a')!
+    expect(editor.getEditorView()!.getValue()).toBe('line 1\nline 2\nline 3\nline 4\nline 5\n')
+    expect(editor.pauseAutoScroll).toHaveBeenCalled()
+    lazy.disposeAll()
+  })
+
+  it('downgrades after an upgrade that was still in flight', async () => {
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark' })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'x', 'typescript')
+    let release!: () => void
+    holdCreate = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    emit('200px', el, true)
+    emit('1000px', el, false)
+    release()
+    await settle()
+    await settle()
+    expect(lazy.blocks.get('a')!.mode).toBe('static')
+    expect(lazy.group.has('a')).toBe(false)
+    expect(el.innerHTML).toContain('>x</pre>')
+    lazy.disposeAll()
+  })
+
+  it('disposes an editor removed during creation only once', async () => {
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark' })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'x', 'typescript')
+    let release!: () => void
+    holdCreate = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    emit('200px', el, true)
+    const editor = lazy.group.get('a')!
+    lazy.unobserve('a')
+    release()
+    await settle()
+    expect(editor.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(lazy.blocks.size).toBe(0)
+  })
+
+  it('upgrades immediately without IntersectionObserver', async () => {
+    delete (globalThis as any).IntersectionObserver
+    const lazy = useLazyMonacoGroup({ theme: 'vitesse-dark' })
+    const el = { innerHTML: '' } as HTMLElement
+    lazy.observe('a', el, 'x', 'typescript')
+    await settle()
+    expect(lazy.blocks.get('a')!.mode).toBe('editor')
+    expect(lazy.unobserve('a')).toBe(true)
+    expect(lazy.blocks.size).toBe(0)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest'
+import { useMarkdownStream } from '../src/useMarkdownStream'
+
+// Replace useMonaco with a small fake that records what each block's editor
+// received, so the stream bookkeeping runs without monaco-editor.
+vi.mock('../src/useMonaco', () => {
+  return {
+    useMonaco: () => {
+      const instance = {
+        editor: null as { code: string, disposed: boolean } | null,
+        createEditor: vi.fn(async (_el: HTMLElement, code: string) => {
+          await Promise.resolve()
+          instance.editor = { code, disposed: false }
+        }),
+        cleanupEditor: vi.fn(() => {
+          if (instance.editor)
+            instance.editor.disposed = true
+        }),
+        applyFenceInfo: vi.fn(),
+        appendCode: vi.fn((text: string) => {
+          instance.editor!.code += text
+        }),
+        pauseAutoScroll: vi.fn(),
+      }
+      return instance
+    },
+  }
+})
+
+const el = {} as HTMLElement
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(r => (resolve = r))
+  return { promise, resolve }
+}
+
+async function settle() {
+  for (let i = 0; i < 10; i++)
+    await Promise.resolve()
+}
+
+describe('useMarkdownStream', () => {
+  it('drives one editor per fenced block and forwards prose', async () => {
+    let prose = ''
+    const onBlockComplete = vi.fn()
+    const stream = useMarkdownStream({
+      mountBlock: () => el,
+      onProse: text => (prose += text),
+      onBlockComplete,
+    })
+    stream.push('Intro\n```ts title="a.ts"\nconst a')
+    stream.push(' = 1\n```\nMiddle\n~~~py\nprint(1)\n')
+    stream.end()
+    await settle()
+
+    expect(prose).toBe('Intro\nMiddle\n')
+    expect(stream.blocks.map(b => [b.language, b.code, b.complete])).toEqual([
+      ['typescript', 'const a = 1', true],
+      ['python', 'print(1)', true],
+    ])
+    const [a, py] = stream.blocks.map(b => b.monaco as any)
+    expect(a.editor.code).toBe('const a = 1')
+    expect(a.applyFenceInfo).toHaveBeenCalledWith(expect.objectContaining({ title: 'a.ts' }))
+    expect(py.editor.code).toBe('print(1)')
+    expect(onBlockComplete).toHaveBeenCalledTimes(2)
+  })
+
+  it('forwards text that arrived while the editor was mounting', async () => {
+    const container = deferred<HTMLElement>()
+    const stream = useMarkdownStream({ mountBlock: () => container.promise })
+    stream.push('```js\nlet x')
+    await settle()
+    const monaco = stream.blocks[0].monaco as any
+    expect(monaco.createEditor).not.toHaveBeenCalled()
+
+    container.resolve(el)
+    // arrives after the container is ready but before createEditor resolves
+    await Promise.resolve()
+    stream.push(' = 1\n')
+    stream.push('x++\n')
+    await settle()
+    // the last line break is held back until the splitter knows it is not a closing fence
+    expect(monaco.editor.code).toBe('let x = 1\nx++')
+  })
+
+  it('does not create editors for blocks disposed while mounting', async () => {
+    const container = deferred<HTMLElement>()
+    const stream = useMarkdownStream({ mountBlock: () => container.promise })
+    stream.push('```js\na\n')
+    const monaco = stream.blocks[0].monaco as any
+    stream.dispose()
+    container.resolve(el)
+    await settle()
+    expect(monaco.createEditor).not.toHaveBeenCalled()
+  })
+
+  it('cleans up an editor whose creation finished after dispose', async () => {
+    const stream = useMarkdownStream({ mountBlock: () => el })
+    stream.push('```js\na\n')
+    await Promise.resolve()
+    const monaco = stream.blocks[0].monaco as any
+    expect(monaco.createEditor).toHaveBeenCalled()
+    stream.dispose()
+    await settle()
+    expect(monaco.editor.disposed).toBe(true)
+    expect(monaco.applyFenceInfo).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { isDark } from '../src/isDark'
+import { useMonacoGroup } from '../src/useMonacoGroup'
+
+// Replace useMonaco with a small fake so the group bookkeeping can be
+// exercised without resolving monaco-editor.
+vi.mock('../src/useMonaco', () => {
+  return {
+    useMonaco: (options: any) => {
+      let value = ''
+      const instance = {
+        options,
+        createEditor: vi.fn(async (_el: HTMLElement, code: string) => {
+          if (code === 'boom')
+            throw new Error('boom')
+          value = code
+          return { getValue: () => value }
+        }),
+        createDiffEditor: vi.fn(async () => ({})),
+        cleanupEditor: vi.fn(),
+        getEditorView: () => ({ getValue: () => value }),
+        updateCode: vi.fn((next: string) => {
+          value = next
+        }),
+        appendCode: vi.fn((text: string) => {
+          value += text
+        }),
+        setLanguage: vi.fn(),
+        setTheme: vi.fn(async () => {}),
+      }
+      return instance
+    },
+  }
+})
+
+const el = {} as HTMLElement
+
+describe('useMonacoGroup', () => {
+  it('creates, looks up, updates and disposes editors by key', async () => {
+    const group = useMonacoGroup({ themes: ['vitesse-dark', 'vitesse-light'] })
+    await group.create('a', el, 'const a = 1', 'typescript')
+    await group.create('b', el, 'print(1)', 'python')
+    expect(group.keys()).toEqual(['a', 'b'])
+    expect(group.size.value).toBe(2)
+
+    expect(group.appendCode('a', '\nconst b = 2')).toBe(true)
+    expect(group.getEditorView('a')?.getValue()).toBe('const a = 1\nconst b = 2')
+    expect(group.updateCode('b', 'print(2)', 'python')).toBe(true)
+    expect(group.get('b')!.updateCode).toHaveBeenCalledWith('print(2)', 'python')
+    expect(group.appendCode('missing', 'x')).toBe(false)
+
+    const a = group.get('a')!
+    expect(group.dispose('a')).toBe(true)
+    expect(a.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(group.has('a')).toBe(false)
+    expect(group.dispose('a')).toBe(false)
+    group.disposeAll()
+    expect(group.size.value).toBe(0)
+  })
+
+  it('replaces an existing editor with the same key', async () => {
+    const group = useMonacoGroup()
+    await group.create('a', el, '1', 'plaintext')
+    const first = group.get('a')!
+    await group.create('a', el, '2', 'plaintext')
+    expect(first.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(group.get('a')).not.toBe(first)
+    expect(group.size.value).toBe(1)
+    group.disposeAll()
+  })
+
+  it('drops the key when creation fails', async () => {
+    const group = useMonacoGroup()
+    await expect(group.create('a', el, 'boom', 'plaintext')).rejects.toThrow('boom')
+    expect(group.has('a')).toBe(false)
+  })
+
+  it('applies one theme to every editor and notifies once', async () => {
+    const onThemeChange = vi.fn()
+    const group = useMonacoGroup({ themes: ['vitesse-dark', 'vitesse-light'], onThemeChange })
+    await group.create('a', el, '', 'plaintext')
+    await group.create('b', el, '', 'plaintext')
+    // members get a fixed theme so they do not install their own isDark watcher
+    expect((group.get('a') as any).options.theme).toBe(group.getCurrentTheme())
+    expect((group.get('a') as any).options.onThemeChange).toBeUndefined()
+
+    await group.setTheme('github-dark')
+    expect(group.get('a')!.setTheme).toHaveBeenCalledWith('github-dark')
+    expect(group.get('b')!.setTheme).toHaveBeenCalledWith('github-dark')
+    expect(onThemeChange).toHaveBeenCalledTimes(1)
+    expect(group.getCurrentTheme()).toBe('github-dark')
+
+    await group.create('c', el, '', 'plaintext')
+    expect((group.get('c') as any).options.theme).toBe('github-dark')
+    group.disposeAll()
+  })
+
+  it('follows isDark with a single watcher until a theme is set explicitly', async () => {
+    isDark.value = false
+    const group = useMonacoGroup({ themes: ['vitesse-dark', 'vitesse-light'] })
+    await group.create('a', el, '', 'plaintext')
+    expect(group.getCurrentTheme()).toBe('vitesse-light')
+
+    isDark.value = true
+    await nextTick()
+    expect(group.get('a')!.setTheme).toHaveBeenLastCalledWith('vitesse-dark')
+    expect(group.getCurrentTheme()).toBe('vitesse-dark')
+
+    await group.setTheme('nord')
+    isDark.value = false
+    await nextTick()
+    expect(group.getCurrentTheme()).toBe('nord')
+    group.disposeAll()
+    isDark.value = false
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest'
+import { useMonaco } from '../src/index'
+import * as monaco from '../src/monaco-shim'
+import { createFakeTimeSource } from '../src/utils/raf'
+import { createFakeEditor, createFakeModel } from './fixtures/fakeEditor'
+import { stubAnimationFrames } from './fixtures/monacoShim'
+
+vi.mock('../src/monaco-shim', () => import('./fixtures/monacoShim'))
+
+// Grammar loads stay pending until a test settles them.
+const loads = vi.hoisted(() => new Map<string, { resolve: () => void, reject: (error: unknown) => void }>())
+const loadLanguage = vi.hoisted(() => vi.fn((language: string) => new Promise<void>((resolve, reject) => {
+  loads.set(language, { resolve, reject })
+})))
+
+vi.mock('../src/utils/monacoRegistry', () => ({
+  acquireMonacoResources: () => ({
+    register: async () => null,
+    loadLanguage,
+    addTheme() {},
+    addLanguage() {},
+    applyTheme() {},
+    release() {},
+  }),
+}))
+
+const el = { style: {}, innerHTML: '' } as unknown as HTMLElement
+
+async function setup(language: string, options: Parameters<typeof useMonaco>[0] = {}) {
+  loads.clear()
+  loadLanguage.mockClear()
+  let model!: ReturnType<typeof createFakeModel>
+  ;(monaco.editor.create as any).mockImplementation((_el: HTMLElement, opts: { value: string, language: string }) => {
+    model = createFakeModel(opts.value, opts.language)
+    return createFakeEditor(model)
+  })
+  const clock = createFakeTimeSource()
+  const api = useMonaco({ timeSource: clock, themes: ['vitesse-dark', 'vitesse-light'], languages: ['javascript', 'python'], ...options })
+  await api.createEditor(el, '', language)
+  return { api, clock, model: () => model }
+}
+
+async function settle() {
+  for (let i = 0; i < 5; i++)
+    await Promise.resolve()
+}
+
+const bashScript = `#!/usr/bin/env bash
+set -euo pipefail
+for f in "$@"; do
+  if [ -f "$f" ]; then
+    echo "found $f"
+  fi
+done
+export PATH="$HOME/bin:$PATH"
+`
+
+describe('useMonaco language loading', () => {
+  stubAnimationFrames()
+
+  it('loads a detected language that is not registered', async () => {
+    const { api, clock, model } = await setup('auto')
+    api.updateCode(bashScript, 'auto')
+    clock.flush()
+    expect(api.detectedLanguage.value?.language).toBe('shell')
+    expect(model().getLanguageId()).toBe('plaintext')
+    expect([...loads.keys()]).toEqual(['shell'])
+
+    // more text with the same detection does not request the grammar again
+    api.updateCode(`${bashScript}echo done\n`, 'auto')
+    clock.flush()
+    expect(loads.size).toBe(1)
+
+    loads.get('shell')!.resolve()
+    await settle()
+    expect(model().getLanguageId()).toBe('shell')
+  })
+
+  it('does not apply a load that finishes after another language was requested', async () => {
+    const { api, model } = await setup('javascript')
+    api.setLanguage('elixir')
+    api.setLanguage('python')
+    expect(model().getLanguageId()).toBe('python')
+
+    loads.get('elixir')!.resolve()
+    await settle()
+    expect(model().getLanguageId()).toBe('python')
+  })
+
+  it('reports a failed load and keeps the previous language', async () => {
+    const onLanguageLoadError = vi.fn()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { api, model } = await setup('python', { onLanguageLoadError })
+    api.setLanguage('not-a-language')
+    const error = new Error('unknown grammar')
+    loads.get('not-a-language')!.reject(error)
+    await settle()
+    expect(onLanguageLoadError).toHaveBeenCalledWith('not-a-language', error)
+    expect(warn).not.toHaveBeenCalled()
+    expect(model().getLanguageId()).toBe('python')
+    warn.mockRestore()
+  })
+
+  it('switches updateCode to a new language once its grammar has loaded', async () => {
+    const { api, clock, model } = await setup('python')
+    api.updateCode('defmodule A do', 'elixir')
+    api.updateCode('defmodule A do\nend', 'elixir')
+    clock.flush()
+    expect(model().getValue()).toBe('defmodule A do\nend')
+    expect(model().getLanguageId()).toBe('python')
+    expect(loadLanguage).toHaveBeenCalledTimes(1)
+
+    // a load that finishes before the next frame is not undone by the pending update
+    api.updateCode('defmodule B do\nend', 'elixir')
+    loads.get('elixir')!.resolve()
+    await settle()
+    clock.flush()
+    expect(model().getLanguageId()).toBe('elixir')
+    expect(model().getValue()).toBe('defmodule B do\nend')
+  })
+
+  it('keeps the previous language when the grammar for updateCode fails to load', async () => {
+    const onLanguageLoadError = vi.fn()
+    const { api, clock, model } = await setup('python', { onLanguageLoadError })
+    api.updateCode('x = 1', 'not-a-language')
+    clock.flush()
+    loads.get('not-a-language')!.reject(new Error('unknown grammar'))
+    await settle()
+
+    api.updateCode('x = 2', 'not-a-language')
+    clock.flush()
+    await settle()
+    expect(model().getValue()).toBe('x = 2')
+    expect(model().getLanguageId()).toBe('python')
+    expect(loadLanguage).toHaveBeenCalledTimes(1)
+    expect(onLanguageLoadError).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the previous language when the grammar for appendCode fails to load', async () => {
+    const onLanguageLoadError = vi.fn()
+    const { api, clock, model } = await setup('python', { onLanguageLoadError })
+    api.appendCode('x = 1\n', 'not-a-language')
+    loads.get('not-a-language')!.reject(new Error('unknown grammar'))
+    await settle()
+
+    api.appendCode('x = 2\n', 'not-a-language')
+    api.appendCode('x = 3\n', 'not-a-language')
+    clock.flush()
+    await settle()
+    expect(model().getValue()).toBe('x = 1\nx = 2\nx = 3\n')
+    expect(model().getLanguageId()).toBe('python')
+    expect(loadLanguage).toHaveBeenCalledTimes(1)
+    expect(onLanguageLoadError).toHaveBeenCalledTimes(1)
+  })
+})
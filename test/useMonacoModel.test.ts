@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+import { nextTick, ref } from 'vue'
+
+// Replace useMonaco with a tiny fake editor so the binding logic can be
+// exercised without resolving monaco-editor.
+vi.mock('../src/useMonaco', () => {
+  return {
+    useMonaco: () => {
+      let value = ''
+      const listeners: Array<() => void> = []
+      const editorView = {
+        getValue: () => value,
+        onDidChangeModelContent(cb: () => void) {
+          listeners.push(cb)
+          return { dispose: () => listeners.splice(listeners.indexOf(cb), 1) }
+        },
+        // helper to simulate user typing
+        __type(next: string) {
+          value = next
+          listeners.forEach(l => l())
+        },
+      }
+      const updateCode = vi.fn((next: string) => {
+        value = next
+        listeners.forEach(l => l())
+      })
+      return {
+        createEditor: async (_el: HTMLElement, code: string) => {
+          value = code
+          return editorView
+        },
+        cleanupEditor: vi.fn(),
+        getEditorView: () => editorView,
+        updateCode,
+      }
+    },
+  }
+})
+
+describe('useMonacoModel', () => {
+  it('syncs ref -> editor and editor -> ref without echo loops', async () => {
+    const { useMonacoModel } = await import('../src/useMonacoModel')
+    const code = ref('a')
+    const api = useMonacoModel(code, { language: 'typescript', debounceMs: 0 })
+    const editor: any = await api.createEditor({} as HTMLElement)
+    expect(editor.getValue()).toBe('a')
+
+    code.value = 'ab'
+    await nextTick()
+    expect(api.updateCode).toHaveBeenCalledTimes(1)
+    expect(api.updateCode).toHaveBeenLastCalledWith('ab', 'typescript')
+
+    editor.__type('abc')
+    await new Promise(res => setTimeout(res, 0))
+    expect(code.value).toBe('abc')
+    await nextTick()
+    // writing the typed value back into the ref must not be pushed to the editor again
+    expect(api.updateCode).toHaveBeenCalledTimes(1)
+  })
+
+  it('flush writes pending edits immediately', async () => {
+    const { useMonacoModel } = await import('../src/useMonacoModel')
+    const code = ref('x')
+    const api = useMonacoModel(code, { debounceMs: 1000 })
+    const editor: any = await api.createEditor({} as HTMLElement)
+    editor.__type('xy')
+    expect(code.value).toBe('x')
+    api.flush()
+    expect(code.value).toBe('xy')
+    api.cleanupEditor()
+  })
+
+  it('cleanup writes pending edits back before disposing', async () => {
+    const { useMonacoModel } = await import('../src/useMonacoModel')
+    const code = ref('x')
+    const api = useMonacoModel(code, { debounceMs: 1000 })
+    const editor: any = await api.createEditor({} as HTMLElement)
+    editor.__type('xy')
+    api.cleanupEditor()
+    expect(code.value).toBe('xy')
+  })
+})
@@ -2,7 +2,11 @@ import { defineConfig } from 'tsdown'
 
 export default defineConfig({
   target: 'node14',
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    ssr: 'src/ssr.ts',
+    components: 'src/components/index.ts',
+  },
   format: ['cjs', 'esm'],
   clean: true,
   dts: true,